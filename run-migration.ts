@@ -14,9 +14,11 @@ if (!dbUrlMatch) {
 const databaseUrl = dbUrlMatch[1].trim()
 console.log('Connecting to:', databaseUrl.replace(/:[^:@]+@/, ':****@'))
 
-const migrationSQL = readFileSync('./src/db/migrations/0002_create_sessions_table.sql', 'utf-8')
+// Usage: bun run-migration.ts [migration file name]
+const migrationFile = process.argv[2] || '0002_create_sessions_table.sql'
+const migrationSQL = readFileSync(`./src/db/migrations/${migrationFile}`, 'utf-8')
 
-console.log('Running migration: 0002_create_sessions_table.sql')
+console.log(`Running migration: ${migrationFile}`)
 console.log('---')
 
 const pool = new Pool({ connectionString: databaseUrl })
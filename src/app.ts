@@ -2,10 +2,14 @@ import { Elysia } from 'elysia'
 import { cors } from '@elysiajs/cors'
 import { env } from './config/env'
 import { errorHandler } from './middleware/error-handler'
+import { rateLimit } from './middleware/rate-limit'
 import { registerHealthRoutes } from './routes/health.routes'
 import { registerModelRoutes } from './routes/model.routes'
 import { registerCvRoutes } from './routes/cv.routes'
+import { registerCustomCvRoutes } from './routes/custom-cv.routes'
 import { registerJobRoutes } from './routes/job.routes'
+import { registerSkillRoutes } from './routes/skill.routes'
+import { registerSavedSearchRoutes } from './routes/saved-search.routes'
 import { registerApplicationRoutes } from './routes/application.routes'
 import { registerWsRoutes } from './routes/ws.routes'
 import { registerAuthRoutes } from './routes/auth.routes'
@@ -25,6 +29,17 @@ export const app = new Elysia()
     credentials: true
   }))
   .use(errorHandler())
+  .use(rateLimit({
+    skip: ['/api/health', '/api/v1/jobs/broadcast', '/ws'],
+    rules: [
+      { name: 'api', path: '/api/*', limit: env.RATE_LIMIT_MAX, windowMs: env.RATE_LIMIT_WINDOW_MS },
+      { name: 'cv-upload', method: 'POST', path: '/api/cv/upload', limit: 10, windowMs: 60000 },
+      { name: 'cv-import', method: 'POST', path: '/api/cv/import/hh/*', limit: 10, windowMs: 60000 },
+      { name: 'job-search', method: 'POST', path: '/api/jobs/search', limit: 30, windowMs: 60000 },
+      { name: 'application-submit', method: 'POST', path: '/api/application/submit', limit: 20, windowMs: 60000 },
+      { name: 'auth', method: 'GET', path: '/api/auth/hh/*', limit: 20, windowMs: 60000 }
+    ]
+  }))
 
   // Health and basic info
   .use(registerHealthRoutes())
@@ -32,7 +47,10 @@ export const app = new Elysia()
   // Feature routes
   .use(registerModelRoutes())
   .use(registerCvRoutes())
+  .use(registerCustomCvRoutes())
   .use(registerJobRoutes())
+  .use(registerSkillRoutes())
+  .use(registerSavedSearchRoutes())
   .use(registerApplicationRoutes())
   .use(registerAuthRoutes())
   .use(registerQueueRoutes())
@@ -11,6 +11,12 @@ export const env = {
   JWT_SECRET: get('JWT_SECRET', 'dev_jwt_secret'),
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN ?? '7d',
   OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY ?? '',
+  OPENROUTER_BASE_URL: process.env.OPENROUTER_BASE_URL ?? 'https://openrouter.ai/api/v1',
+  // LLM provider: openrouter | local (OpenAI-compatible, e.g. llama.cpp/Ollama) | fake (deterministic, offline)
+  LLM_PROVIDER: (process.env.LLM_PROVIDER ?? 'openrouter') as 'openrouter' | 'local' | 'fake',
+  LLM_LOCAL_URL: process.env.LLM_LOCAL_URL ?? 'http://localhost:11434/v1',
+  LLM_LOCAL_MODEL: process.env.LLM_LOCAL_MODEL ?? '',
+  LLM_LOCAL_API_KEY: process.env.LLM_LOCAL_API_KEY ?? '',
   // HH_ACCESS_TOKEN is deprecated - OAuth tokens are now managed by Core service
   // Remove this from your .env file
   ORCHESTRATOR_SECRET: get('ORCHESTRATOR_SECRET', 'dev_orchestrator_secret'),
@@ -19,6 +25,46 @@ export const env = {
   ALLOWED_ORIGINS: (process.env.ALLOWED_ORIGINS ?? 'http://localhost:5173').split(',').map(s => s.trim()),
   MAX_FILE_SIZE: Number(process.env.MAX_FILE_SIZE ?? 10485760), // 10MB
   UPLOAD_DIR: process.env.UPLOAD_DIR ?? './uploads',
-  TELEGRAM_HANDLE: process.env.TELEGRAM_HANDLE ?? ''
+  TELEGRAM_HANDLE: process.env.TELEGRAM_HANDLE ?? '',
+  // Cache backend: memory (per process) | redis (shared, Redis protocol) | tiered (memory L1 + redis L2)
+  CACHE_BACKEND: (process.env.CACHE_BACKEND ?? 'memory') as 'memory' | 'redis' | 'tiered',
+  REDIS_URL: process.env.REDIS_URL ?? 'redis://localhost:6379',
+  CACHE_KEY_PREFIX: process.env.CACHE_KEY_PREFIX ?? 'ugtj:cache:',
+  CACHE_L1_TTL_MS: Number(process.env.CACHE_L1_TTL_MS ?? 60000), // tiered mode: max age of the memory copy
+  // Request rate limiting per session (or IP) over a sliding window
+  RATE_LIMIT_ENABLED: (process.env.RATE_LIMIT_ENABLED ?? 'true') === 'true',
+  RATE_LIMIT_BACKEND: (process.env.RATE_LIMIT_BACKEND ?? 'memory') as 'memory' | 'redis',
+  RATE_LIMIT_KEY_PREFIX: process.env.RATE_LIMIT_KEY_PREFIX ?? 'ugtj:rl:',
+  RATE_LIMIT_MAX: Number(process.env.RATE_LIMIT_MAX ?? 300), // requests per window to any route
+  RATE_LIMIT_WINDOW_MS: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60000),
+  RATE_LIMIT_TRUST_PROXY: (process.env.RATE_LIMIT_TRUST_PROXY ?? 'false') === 'true', // use X-Forwarded-For
+  // Re-prompts asking a model to fix JSON output that failed its schema
+  AI_SCHEMA_REPAIR_ATTEMPTS: Number(process.env.AI_SCHEMA_REPAIR_ATTEMPTS ?? 1),
+  // Default per-user daily AI quotas (UTC day); 0 disables a limit. Overridable per user.
+  AI_DAILY_REQUEST_LIMIT: Number(process.env.AI_DAILY_REQUEST_LIMIT ?? 200), // model calls
+  AI_DAILY_TOKEN_BUDGET: Number(process.env.AI_DAILY_TOKEN_BUDGET ?? 500000),
+  // In-process application_queue worker (when disabled, workflows are handed to Core)
+  QUEUE_WORKER_ENABLED: (process.env.QUEUE_WORKER_ENABLED ?? 'true') === 'true',
+  QUEUE_POLL_INTERVAL_MS: Number(process.env.QUEUE_POLL_INTERVAL_MS ?? 5000),
+  QUEUE_CONCURRENCY: Number(process.env.QUEUE_CONCURRENCY ?? 2),
+  QUEUE_MAX_ATTEMPTS: Number(process.env.QUEUE_MAX_ATTEMPTS ?? 5),
+  QUEUE_RETRY_BASE_MS: Number(process.env.QUEUE_RETRY_BASE_MS ?? 30000), // doubled per attempt
+  QUEUE_LEASE_MS: Number(process.env.QUEUE_LEASE_MS ?? 300000), // stuck items are re-leased after this
+  // Periodic refresh of HH negotiation status of submitted applications
+  HH_SYNC_ENABLED: (process.env.HH_SYNC_ENABLED ?? 'true') === 'true',
+  HH_SYNC_POLL_INTERVAL_MS: Number(process.env.HH_SYNC_POLL_INTERVAL_MS ?? 60000),
+  HH_SYNC_BATCH_SIZE: Number(process.env.HH_SYNC_BATCH_SIZE ?? 20),
+  HH_SYNC_STALE_MS: Number(process.env.HH_SYNC_STALE_MS ?? 1800000), // an application is checked at most this often
+  // Local job store: searches are answered from the jobs table once Core has been asked
+  JOB_SEARCH_CACHE_TTL_MS: Number(process.env.JOB_SEARCH_CACHE_TTL_MS ?? 900000), // Core is asked again after this
+  JOB_DETAILS_TTL_MS: Number(process.env.JOB_DETAILS_TTL_MS ?? 86400000), // stored job details are refreshed after this
+  // Salaries are compared as monthly amounts in this currency
+  SALARY_BASE_CURRENCY: process.env.SALARY_BASE_CURRENCY ?? 'RUB',
+  SALARY_RATES: process.env.SALARY_RATES ?? '', // JSON, units of the base currency per unit: {"USD": 92.5}
+  // Periodic run of saved searches against Core, for jobs not broadcast
+  SAVED_SEARCH_WORKER_ENABLED: (process.env.SAVED_SEARCH_WORKER_ENABLED ?? 'true') === 'true',
+  SAVED_SEARCH_POLL_INTERVAL_MS: Number(process.env.SAVED_SEARCH_POLL_INTERVAL_MS ?? 60000),
+  SAVED_SEARCH_BATCH_SIZE: Number(process.env.SAVED_SEARCH_BATCH_SIZE ?? 10),
+  SAVED_SEARCH_RUN_INTERVAL_MS: Number(process.env.SAVED_SEARCH_RUN_INTERVAL_MS ?? 3600000) // a search is run at most this often
 }
 
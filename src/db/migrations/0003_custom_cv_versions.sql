@@ -0,0 +1,34 @@
+-- Migration: Version multi-stage customization results in custom_cvs
+-- Each customization run is stored as a new immutable version linked to the
+-- parsed CV and (optionally) the job it was tailored for. One version per
+-- CV/job pair can be pinned as the one used for submission.
+
+-- AI customizations are made from parsed CVs, not from the legacy cvs table
+ALTER TABLE "custom_cvs" ALTER COLUMN "cv_id" DROP NOT NULL;
+
+ALTER TABLE "custom_cvs" ADD COLUMN IF NOT EXISTS "parsed_cv_id" uuid;
+ALTER TABLE "custom_cvs" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "custom_cvs" ADD COLUMN IF NOT EXISTS "is_pinned" boolean DEFAULT false NOT NULL;
+ALTER TABLE "custom_cvs" ADD COLUMN IF NOT EXISTS "model_used" varchar(100);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'custom_cvs_parsed_cv_id_fkey'
+    ) THEN
+        ALTER TABLE "custom_cvs" ADD CONSTRAINT "custom_cvs_parsed_cv_id_fkey"
+            FOREIGN KEY ("parsed_cv_id") REFERENCES "public"."parsed_cvs"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "custom_cvs_parsed_cv_id_index" ON "custom_cvs" USING btree ("parsed_cv_id");
+
+-- Version numbers are sequential per CV/job pair (NULL job = untargeted)
+CREATE UNIQUE INDEX IF NOT EXISTS "custom_cvs_parsed_cv_job_version_index"
+    ON "custom_cvs" ("parsed_cv_id", COALESCE("job_id", '00000000-0000-0000-0000-000000000000'::uuid), "version")
+    WHERE "parsed_cv_id" IS NOT NULL;
+
+-- At most one pinned version per CV/job pair
+CREATE UNIQUE INDEX IF NOT EXISTS "custom_cvs_pinned_index"
+    ON "custom_cvs" ("parsed_cv_id", COALESCE("job_id", '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE "is_pinned";
@@ -0,0 +1,59 @@
+-- Migration: Resolve sessions to users
+-- Until now the session id was used as the owner id, so every login created a
+-- new "user". Users are now created (or found) on HH OAuth callback by the
+-- subject of the JWT issued by Core, and sessions point at them via user_id.
+
+-- HH users sign in through OAuth and have no local credentials
+ALTER TABLE "users" ALTER COLUMN "email" DROP NOT NULL;
+ALTER TABLE "users" ALTER COLUMN "password_hash" DROP NOT NULL;
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "hh_user_id" varchar(255);
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "last_login_at" timestamp;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "users_hh_user_id_index" ON "users" USING btree ("hh_user_id");
+
+-- Subject claim of a JWT (NULL when the token cannot be decoded)
+CREATE OR REPLACE FUNCTION pg_temp.jwt_subject(token text) RETURNS text AS $$
+DECLARE
+    payload text;
+    claims json;
+BEGIN
+    payload := translate(split_part(token, '.', 2), '-_', '+/');
+    payload := payload || repeat('=', (4 - length(payload) % 4) % 4);
+    claims := convert_from(decode(payload, 'base64'), 'UTF8')::json;
+    RETURN COALESCE(claims->>'sub', claims->>'user_id');
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a user for every identity seen in existing sessions
+INSERT INTO "users" ("hh_user_id", "last_login_at")
+SELECT pg_temp.jwt_subject("token"), MAX("created_at")
+FROM "sessions"
+WHERE "user_id" IS NULL AND pg_temp.jwt_subject("token") IS NOT NULL
+GROUP BY pg_temp.jwt_subject("token")
+ON CONFLICT ("hh_user_id") DO NOTHING;
+
+UPDATE "sessions" s
+SET "user_id" = u."id", "updated_at" = now()
+FROM "users" u
+WHERE s."user_id" IS NULL
+  AND u."hh_user_id" = pg_temp.jwt_subject(s."token");
+
+-- Move rows owned by a session id over to the session's user.
+-- Sessions whose token has no subject are linked on their next request.
+UPDATE "parsed_cvs" t
+SET "user_id" = s."user_id", "updated_at" = now()
+FROM "sessions" s
+WHERE s."user_id" IS NOT NULL AND t."user_id"::text = s."session_id";
+
+UPDATE "applications" t
+SET "user_id" = s."user_id", "updated_at" = now()
+FROM "sessions" s
+WHERE s."user_id" IS NOT NULL AND t."user_id"::text = s."session_id";
+
+UPDATE "application_queue" t
+SET "user_id" = s."user_id", "updated_at" = now()
+FROM "sessions" s
+WHERE s."user_id" IS NOT NULL AND t."user_id"::text = s."session_id";
@@ -0,0 +1,28 @@
+-- Migration: Local application_queue worker
+-- Queue items are now processed in-process: the worker leases due rows with
+-- SELECT ... FOR UPDATE SKIP LOCKED, ordered by priority and next_run_at.
+-- next_run_at is NULL while an item waits for its workflow to be started and
+-- holds the lease deadline while an item is being customized or submitted.
+
+-- Queue items reference parsed CVs (the legacy cvs table is not used by the API).
+-- NOT VALID keeps rows created against the old constraint.
+ALTER TABLE "application_queue" DROP CONSTRAINT IF EXISTS "application_queue_cv_id_fkey";
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'application_queue_parsed_cv_id_fkey'
+    ) THEN
+        ALTER TABLE "application_queue" ADD CONSTRAINT "application_queue_parsed_cv_id_fkey"
+            FOREIGN KEY ("cv_id") REFERENCES "public"."parsed_cvs"("id") ON DELETE cascade ON UPDATE no action NOT VALID;
+    END IF;
+END $$;
+
+-- Pending items were waiting for Core; park them until their workflow is started again
+UPDATE "application_queue" SET "next_run_at" = NULL WHERE "status" = 'pending';
+
+-- Lease scan: due items in a leasable state
+CREATE INDEX IF NOT EXISTS "application_queue_due_index"
+    ON "application_queue" ("priority" DESC, "next_run_at")
+    WHERE "next_run_at" IS NOT NULL
+      AND "status" IN ('pending', 'customizing', 'ready', 'submitting', 'rate_limited');
@@ -0,0 +1,7 @@
+-- Migration: Track submission attempts of applications
+-- Retries resubmit the stored custom CV and cover letter through Core; each
+-- attempt bumps the counter so failing applications can be told apart from
+-- ones that were never retried.
+
+ALTER TABLE "applications" ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "applications" ADD COLUMN IF NOT EXISTS "last_attempt_at" timestamp;
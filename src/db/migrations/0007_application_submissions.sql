@@ -0,0 +1,10 @@
+-- Migration: Record submissions in applications
+-- Every submission made through the API (submit route, queue worker, retries)
+-- now creates or updates an applications row. error_reason keeps the
+-- normalized Core rejection reason (e.g. missing_phone, bad_arguments) so
+-- failures can be grouped without parsing error_message.
+
+ALTER TABLE "applications" ADD COLUMN IF NOT EXISTS "error_reason" varchar(100);
+
+CREATE INDEX IF NOT EXISTS "applications_user_created_index"
+    ON "applications" ("user_id", "created_at" DESC);
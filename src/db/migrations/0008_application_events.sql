@@ -0,0 +1,41 @@
+-- Migration: HH negotiation sync and application timeline
+-- Submission outcomes and HH negotiation status changes are appended to
+-- application_events. hh_status_synced_at orders applications for the
+-- periodic negotiation sync (never-synced ones first).
+
+CREATE TABLE IF NOT EXISTS "application_events" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "application_id" uuid NOT NULL,
+    "type" varchar(50) NOT NULL,
+    "hh_status" varchar(255),
+    "data" jsonb,
+    "occurred_at" timestamp DEFAULT now() NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'application_events_application_id_fkey'
+    ) THEN
+        ALTER TABLE "application_events" ADD CONSTRAINT "application_events_application_id_fkey"
+            FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "application_events_application_index"
+    ON "application_events" ("application_id", "occurred_at");
+
+ALTER TABLE "applications" ADD COLUMN IF NOT EXISTS "hh_status_synced_at" timestamp;
+
+-- Sync scan: submitted applications with a negotiation, least recently synced first
+CREATE INDEX IF NOT EXISTS "applications_hh_sync_index"
+    ON "applications" ("hh_status_synced_at" NULLS FIRST)
+    WHERE "status" = 'submitted' AND "hh_negotiation_id" IS NOT NULL;
+
+-- Start the timeline of applications submitted before events were recorded
+INSERT INTO "application_events" ("application_id", "type", "hh_status", "occurred_at")
+SELECT a."id", 'submitted', a."hh_status", a."submitted_at"
+FROM "applications" a
+WHERE a."submitted_at" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "application_events" e WHERE e."application_id" = a."id");
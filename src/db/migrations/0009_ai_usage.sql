@@ -0,0 +1,29 @@
+-- Migration: Token usage and cost of AI calls
+-- One row per model call with its token counts, latency and the cost
+-- estimated from OpenRouter model pricing, attributed to a user and feature.
+
+CREATE TABLE IF NOT EXISTS "ai_usage" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid,
+    "feature" varchar(100) NOT NULL,
+    "model" varchar(255) NOT NULL,
+    "prompt_tokens" integer DEFAULT 0 NOT NULL,
+    "completion_tokens" integer DEFAULT 0 NOT NULL,
+    "total_tokens" integer DEFAULT 0 NOT NULL,
+    "cost_usd" numeric(12, 6),
+    "latency_ms" integer NOT NULL,
+    "success" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'ai_usage_user_id_fkey'
+    ) THEN
+        ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_fkey"
+            FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "ai_usage_user_created_index" ON "ai_usage" ("user_id", "created_at");
@@ -0,0 +1,6 @@
+-- Migration: Per-user daily AI quotas
+-- Quotas default to AI_DAILY_REQUEST_LIMIT / AI_DAILY_TOKEN_BUDGET; these
+-- columns override them for a single user (0 = unlimited).
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "ai_daily_request_limit" integer;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "ai_daily_token_budget" integer;
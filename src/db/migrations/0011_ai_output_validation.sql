@@ -0,0 +1,6 @@
+-- Migration: Schema validation outcome of AI calls
+-- Calls whose JSON output was validated record the schema name and whether
+-- the output passed, so schema failure rates can be compared per model.
+
+ALTER TABLE "ai_usage" ADD COLUMN IF NOT EXISTS "output_schema" varchar(100);
+ALTER TABLE "ai_usage" ADD COLUMN IF NOT EXISTS "output_valid" boolean;
@@ -0,0 +1,12 @@
+-- Migration: Prompt template versions
+-- AI calls record the template and version their prompt was rendered from,
+-- and stored results record the versions that produced them, so variants of
+-- a prompt can be compared.
+
+ALTER TABLE "ai_usage" ADD COLUMN IF NOT EXISTS "prompt_template" varchar(100);
+ALTER TABLE "ai_usage" ADD COLUMN IF NOT EXISTS "prompt_version" varchar(50);
+
+CREATE INDEX IF NOT EXISTS "ai_usage_prompt_index" ON "ai_usage" ("prompt_template", "prompt_version");
+
+ALTER TABLE "custom_cvs" ADD COLUMN IF NOT EXISTS "prompt_versions" jsonb;
+ALTER TABLE "parsed_cvs" ADD COLUMN IF NOT EXISTS "prompt_version" varchar(50);
@@ -0,0 +1,36 @@
+-- Migration: Local job store and full-text search
+-- Jobs returned by Core (search, details, broadcasts) are upserted into jobs,
+-- and job search is served from this table. search_vector indexes title,
+-- skills, company and description with both the Russian and the English
+-- configuration, since HH vacancies mix the two. It is kept up to date by a
+-- trigger, so rows Core writes directly are indexed too.
+
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "published_at" timestamp;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "search_vector" tsvector;
+
+CREATE OR REPLACE FUNCTION jobs_search_vector_update() RETURNS trigger AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('russian', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(array_to_string(NEW.skills, ' '), '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(NEW.company, '')), 'C') ||
+        setweight(to_tsvector('russian', coalesce(NEW.description, '')), 'D') ||
+        setweight(to_tsvector('english', coalesce(NEW.description, '')), 'D');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "jobs_search_vector_trigger" ON "jobs";
+CREATE TRIGGER "jobs_search_vector_trigger"
+    BEFORE INSERT OR UPDATE OF "title", "company", "description", "skills" ON "jobs"
+    FOR EACH ROW EXECUTE FUNCTION jobs_search_vector_update();
+
+-- Index the existing rows (the no-op update fires the trigger)
+UPDATE "jobs" SET "title" = "title" WHERE "search_vector" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "jobs_search_vector_index" ON "jobs" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "jobs_skills_index" ON "jobs" USING gin ("skills");
+CREATE INDEX IF NOT EXISTS "jobs_freshness_index"
+    ON "jobs" ((coalesce("published_at", "fetched_at", "created_at")) DESC);
+CREATE INDEX IF NOT EXISTS "jobs_hh_vacancy_id_index" ON "jobs" ("hh_vacancy_id");
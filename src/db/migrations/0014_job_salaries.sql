@@ -0,0 +1,17 @@
+-- Migration: Structured job salaries
+-- The salary text of a job is parsed on ingest into a range, currency,
+-- gross/net and period. salary_min_base and salary_max_base hold the range as
+-- a monthly amount in SALARY_BASE_CURRENCY, which the job search salary
+-- filters and sort use. Rows stored before this migration are parsed the next
+-- time Core returns them.
+
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_min" integer;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_max" integer;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_currency" varchar(3);
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_gross" boolean;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_period" varchar(10);
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_min_base" integer;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "salary_max_base" integer;
+
+CREATE INDEX IF NOT EXISTS "jobs_salary_base_index"
+    ON "jobs" ((coalesce("salary_max_base", "salary_min_base")) DESC NULLS LAST);
@@ -0,0 +1,76 @@
+-- Migration: Saved searches and match inbox
+-- Users save job searches; jobs broadcast by Core and the results of a
+-- periodic run of each search are matched against them. A match is recorded
+-- once per search and job in saved_search_matches, which doubles as the inbox
+-- of matches not yet pushed to the user (delivered_at IS NULL).
+
+CREATE TABLE IF NOT EXISTS "saved_searches" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL,
+    "name" varchar(255) NOT NULL,
+    "text" varchar(255),
+    "area" varchar(255),
+    "experience" varchar(50),
+    "employment" varchar(50),
+    "schedule" varchar(50),
+    "salary_from" integer,
+    "salary_to" integer,
+    "skills" varchar[] DEFAULT '{}',
+    "alerts_enabled" boolean DEFAULT true NOT NULL,
+    "last_run_at" timestamp,
+    "last_matched_at" timestamp,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    "updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "saved_search_matches" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "saved_search_id" uuid NOT NULL,
+    "user_id" uuid NOT NULL,
+    "job_id" uuid NOT NULL,
+    "delivered_at" timestamp,
+    "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'saved_searches_user_id_fkey'
+    ) THEN
+        ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_fkey"
+            FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'saved_search_matches_saved_search_id_fkey'
+    ) THEN
+        ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_saved_search_id_fkey"
+            FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'saved_search_matches_user_id_fkey'
+    ) THEN
+        ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_user_id_fkey"
+            FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'saved_search_matches_job_id_fkey'
+    ) THEN
+        ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_job_id_fkey"
+            FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "saved_searches_user_index" ON "saved_searches" ("user_id");
+
+-- Scheduled runs: searches with alerts, least recently run first
+CREATE INDEX IF NOT EXISTS "saved_searches_run_index"
+    ON "saved_searches" ("last_run_at" NULLS FIRST)
+    WHERE "alerts_enabled" = true;
+
+-- A job is matched once per search
+CREATE UNIQUE INDEX IF NOT EXISTS "saved_search_matches_search_job_index"
+    ON "saved_search_matches" ("saved_search_id", "job_id");
+
+CREATE INDEX IF NOT EXISTS "saved_search_matches_inbox_index"
+    ON "saved_search_matches" ("user_id", "created_at" DESC)
+    WHERE "delivered_at" IS NULL;
@@ -0,0 +1,34 @@
+-- Migration: Job deduplication
+-- A vacancy reposted under a new id, or published on several boards, is
+-- stored as several jobs. Each job that duplicates another points at the
+-- canonical job of their group, the first one grouped, in canonical_job_id
+-- (NULL on the canonical job itself). dedup_key (normalized company and title) and the MinHash
+-- signature of the description with its LSH bands are kept to find the
+-- candidates of a new job. Jobs with deduped_at NULL are grouped the next
+-- time they are stored, which covers rows stored before this migration.
+
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "canonical_job_id" uuid;
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "dedup_key" varchar(255);
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "description_minhash" integer[];
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "minhash_bands" varchar[];
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "deduped_at" timestamp;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'jobs_canonical_job_id_fkey'
+    ) THEN
+        ALTER TABLE "jobs" ADD CONSTRAINT "jobs_canonical_job_id_fkey"
+            FOREIGN KEY ("canonical_job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "jobs_canonical_job_index"
+    ON "jobs" ("canonical_job_id")
+    WHERE "canonical_job_id" IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "jobs_dedup_key_index" ON "jobs" ("dedup_key");
+
+CREATE INDEX IF NOT EXISTS "jobs_employer_index" ON "jobs" ("employer_id", "source");
+
+CREATE INDEX IF NOT EXISTS "jobs_minhash_bands_index" ON "jobs" USING GIN ("minhash_bands");
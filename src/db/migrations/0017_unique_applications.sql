@@ -0,0 +1,43 @@
+-- Migration: One application per user and job
+-- A user could queue the same job in several workflows and apply to it again
+-- and again. A job now has at most one active queue item (pending through
+-- submitting, or paused) and one submitted or submitting application per
+-- user, unless it was deliberately queued or submitted again (reapply).
+-- Existing duplicates are kept and marked as reapplications, all but the
+-- first of them.
+-- The indexes only cover the same job_external_id. Reposts of a vacancy under
+-- other ids (grouped by canonical_job_id) are refused by the application
+-- before inserting, a check that concurrent requests can both pass.
+
+ALTER TABLE "applications" ADD COLUMN IF NOT EXISTS "reapply" boolean DEFAULT false NOT NULL;
+ALTER TABLE "application_queue" ADD COLUMN IF NOT EXISTS "reapply" boolean DEFAULT false NOT NULL;
+
+UPDATE "applications" AS a SET "reapply" = true
+WHERE a."status" IN ('submitting', 'submitted')
+  AND NOT a."reapply"
+  AND EXISTS (
+      SELECT 1 FROM "applications" AS b
+      WHERE b."user_id" = a."user_id"
+        AND b."job_external_id" = a."job_external_id"
+        AND b."status" IN ('submitting', 'submitted')
+        AND (b."created_at", b."id") < (a."created_at", a."id")
+  );
+
+UPDATE "application_queue" AS a SET "reapply" = true
+WHERE a."status" IN ('pending', 'customizing', 'ready', 'submitting', 'rate_limited', 'paused')
+  AND NOT a."reapply"
+  AND EXISTS (
+      SELECT 1 FROM "application_queue" AS b
+      WHERE b."user_id" = a."user_id"
+        AND b."job_external_id" = a."job_external_id"
+        AND b."status" IN ('pending', 'customizing', 'ready', 'submitting', 'rate_limited', 'paused')
+        AND (b."created_at", b."id") < (a."created_at", a."id")
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS "applications_user_job_applied_index"
+    ON "applications" ("user_id", "job_external_id")
+    WHERE "status" IN ('submitting', 'submitted') AND NOT "reapply";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "application_queue_user_job_active_index"
+    ON "application_queue" ("user_id", "job_external_id")
+    WHERE "status" IN ('pending', 'customizing', 'ready', 'submitting', 'rate_limited', 'paused') AND NOT "reapply";
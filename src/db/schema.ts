@@ -1,9 +1,13 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, jsonb, integer } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, varchar, text, timestamp, boolean, jsonb, integer, numeric, type AnyPgColumn } from 'drizzle-orm/pg-core'
 
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
-  email: varchar('email', { length: 255 }).notNull().unique(),
-  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  email: varchar('email', { length: 255 }).unique(),
+  passwordHash: varchar('password_hash', { length: 255 }),
+  hhUserId: varchar('hh_user_id', { length: 255 }).unique(), // Subject of the Core JWT issued on HH OAuth
+  lastLoginAt: timestamp('last_login_at'),
+  aiDailyRequestLimit: integer('ai_daily_request_limit'), // NULL = AI_DAILY_REQUEST_LIMIT
+  aiDailyTokenBudget: integer('ai_daily_token_budget'), // NULL = AI_DAILY_TOKEN_BUDGET
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 })
@@ -27,6 +31,14 @@ export const jobs = pgTable('jobs', {
   title: varchar('title', { length: 255 }).notNull(),
   company: varchar('company', { length: 255 }),
   salary: varchar('salary', { length: 255 }),
+  // Parsed from salary; the *_base amounts are monthly, in SALARY_BASE_CURRENCY
+  salaryMin: integer('salary_min'),
+  salaryMax: integer('salary_max'),
+  salaryCurrency: varchar('salary_currency', { length: 3 }),
+  salaryGross: boolean('salary_gross'),
+  salaryPeriod: varchar('salary_period', { length: 10 }),
+  salaryMinBase: integer('salary_min_base'),
+  salaryMaxBase: integer('salary_max_base'),
   area: varchar('area', { length: 255 }),
   url: text('url'),
   description: text('description'),
@@ -38,18 +50,60 @@ export const jobs = pgTable('jobs', {
   testRequired: boolean('test_required').default(false).notNull(),
   employerId: varchar('employer_id', { length: 255 }),
   skills: varchar('skills').array().default([]),
+  publishedAt: timestamp('published_at'),
+  // Duplicates (reposts, other boards) point at the canonical job of their group; see job-dedup.service
+  canonicalJobId: uuid('canonical_job_id').references((): AnyPgColumn => jobs.id, { onDelete: 'set null' }),
+  dedupKey: varchar('dedup_key', { length: 255 }), // normalized company|title
+  descriptionMinhash: integer('description_minhash').array(),
+  minhashBands: varchar('minhash_bands').array(),
+  dedupedAt: timestamp('deduped_at'), // NULL = not grouped since last changed
+  // search_vector (tsvector) is maintained by a trigger, see migration 0013
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 })
 
+export const savedSearches = pgTable('saved_searches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  text: varchar('text', { length: 255 }),
+  area: varchar('area', { length: 255 }), // HH area id or area name, as in job search
+  experience: varchar('experience', { length: 50 }),
+  employment: varchar('employment', { length: 50 }),
+  schedule: varchar('schedule', { length: 50 }),
+  salaryFrom: integer('salary_from'), // per month in SALARY_BASE_CURRENCY
+  salaryTo: integer('salary_to'),
+  skills: varchar('skills').array().default([]),
+  alertsEnabled: boolean('alerts_enabled').default(true).notNull(),
+  lastRunAt: timestamp('last_run_at'), // last scheduled run against Core
+  lastMatchedAt: timestamp('last_matched_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow()
+})
+
+// Inbox of saved search matches; delivered_at is set once pushed over /ws or acknowledged
+export const savedSearchMatches = pgTable('saved_search_matches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  savedSearchId: uuid('saved_search_id').references(() => savedSearches.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  jobId: uuid('job_id').references(() => jobs.id, { onDelete: 'cascade' }).notNull(),
+  deliveredAt: timestamp('delivered_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+})
+
 export const customCvs = pgTable('custom_cvs', {
   id: uuid('id').primaryKey().defaultRandom(),
-  cvId: uuid('cv_id').references(() => cvs.id, { onDelete: 'cascade' }).notNull(),
+  cvId: uuid('cv_id').references(() => cvs.id, { onDelete: 'cascade' }),
+  parsedCvId: uuid('parsed_cv_id').references(() => parsedCvs.id, { onDelete: 'cascade' }),
   jobId: uuid('job_id').references(() => jobs.id, { onDelete: 'set null' }),
   jobTitle: varchar('job_title', { length: 255 }),
   customizedData: jsonb('customized_data'),
   coverLetter: text('cover_letter'),
   aiSuggestions: jsonb('ai_suggestions'),
+  version: integer('version').default(1).notNull(),
+  isPinned: boolean('is_pinned').default(false).notNull(),
+  modelUsed: varchar('model_used', { length: 100 }),
+  promptVersions: jsonb('prompt_versions'), // prompt template versions that produced it, by template
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 })
@@ -65,27 +119,43 @@ export const applications = pgTable('applications', {
   submittedAt: timestamp('submitted_at'),
   responseData: jsonb('response_data'),
   errorMessage: text('error_message'),
+  errorReason: varchar('error_reason', { length: 100 }), // Normalized Core rejection reason (422)
   hhResumeId: varchar('hh_resume_id', { length: 255 }),
   hhNegotiationId: varchar('hh_negotiation_id', { length: 255 }),
   hhStatus: varchar('hh_status', { length: 255 }),
   rateLimitedUntil: timestamp('rate_limited_until'),
+  hhStatusSyncedAt: timestamp('hh_status_synced_at'),
+  attempts: integer('attempts').default(0).notNull(),
+  lastAttemptAt: timestamp('last_attempt_at'),
+  reapply: boolean('reapply').default(false).notNull(), // Deliberate second application to the job
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 })
 
+export const applicationEvents = pgTable('application_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  applicationId: uuid('application_id').references(() => applications.id, { onDelete: 'cascade' }).notNull(),
+  type: varchar('type', { length: 50 }).notNull(), // ApplicationEventType
+  hhStatus: varchar('hh_status', { length: 255 }),
+  data: jsonb('data'),
+  occurredAt: timestamp('occurred_at').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow()
+})
+
 export const applicationQueue = pgTable('application_queue', {
   id: uuid('id').primaryKey().defaultRandom(),
   workflowId: uuid('workflow_id').notNull(),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
-  cvId: uuid('cv_id').references(() => cvs.id, { onDelete: 'cascade' }).notNull(),
+  cvId: uuid('cv_id').references(() => parsedCvs.id, { onDelete: 'cascade' }).notNull(),
   jobId: uuid('job_id').references(() => jobs.id, { onDelete: 'set null' }),
   jobExternalId: varchar('job_external_id', { length: 255 }).notNull(),
   status: varchar('status', { length: 50 }).default('pending'),
   payload: jsonb('payload'),
   attempts: integer('attempts').default(0),
-  nextRunAt: timestamp('next_run_at').defaultNow(),
+  nextRunAt: timestamp('next_run_at').defaultNow(), // NULL = parked until the workflow is started; lease deadline while in progress
   priority: integer('priority').default(0),
   lastError: text('last_error'),
+  reapply: boolean('reapply').default(false).notNull(), // Queued even though the user applied or queued it before
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
 })
@@ -109,6 +179,7 @@ export const parsedCvs = pgTable('parsed_cvs', {
   originalFilename: varchar('original_filename', { length: 255 }),
   filePath: text('file_path'),
   modelUsed: varchar('model_used', { length: 100 }),
+  promptVersion: varchar('prompt_version', { length: 50 }), // version of the cv_parsing template
 
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow()
@@ -128,3 +199,20 @@ export const sessions = pgTable('sessions', {
   updatedAt: timestamp('updated_at').defaultNow()
 })
 
+export const aiUsage = pgTable('ai_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  feature: varchar('feature', { length: 100 }).notNull(), // AIFeature
+  model: varchar('model', { length: 255 }).notNull(),
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  completionTokens: integer('completion_tokens').default(0).notNull(),
+  totalTokens: integer('total_tokens').default(0).notNull(),
+  costUsd: numeric('cost_usd', { precision: 12, scale: 6 }), // NULL when the model has no known pricing
+  latencyMs: integer('latency_ms').notNull(),
+  success: boolean('success').default(true).notNull(),
+  outputSchema: varchar('output_schema', { length: 100 }), // schema the output was validated against, if any
+  outputValid: boolean('output_valid'),
+  promptTemplate: varchar('prompt_template', { length: 100 }), // PromptTemplateName
+  promptVersion: varchar('prompt_version', { length: 50 }),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+})
@@ -0,0 +1,99 @@
+/**
+ * Offline evaluation command
+ *
+ *   bun run eval run [--provider fake|recorded|openrouter|local] [--record] [--label name] [--out file]
+ *   bun run eval compare <base.json> <candidate.json> [--fail-on-regression]
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createLLMProvider, type LLMProvider } from '../services/llm.provider'
+import { RecordedLLMProvider } from './recorded.provider'
+import { loadCorpus, runEvaluation } from './harness'
+import { compareRuns, formatComparison } from './scoring'
+import type { EvalRun } from '../types'
+
+const evalDir = dirname(fileURLToPath(import.meta.url))
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    corpus: { type: 'string', default: join(evalDir, 'corpus') },
+    provider: { type: 'string', default: 'fake' },
+    recordings: { type: 'string', default: join(evalDir, 'recordings.json') },
+    record: { type: 'boolean', default: false }, // recorded provider: answer missing requests with LLM_PROVIDER
+    model: { type: 'string', default: 'anthropic/claude-3.5-sonnet' },
+    label: { type: 'string' },
+    out: { type: 'string' },
+    'fail-on-regression': { type: 'boolean', default: false }
+  }
+})
+
+function buildProvider(): LLMProvider {
+  if (values.provider === 'recorded') {
+    return new RecordedLLMProvider(values.recordings!, values.record ? createLLMProvider() : undefined)
+  }
+  return createLLMProvider(values.provider)
+}
+
+async function run() {
+  const cases = loadCorpus(values.corpus!)
+  const label = values.label ?? new Date().toISOString().replace(/[:.]/g, '-')
+  const out = values.out ?? join('eval-results', `${label}.json`)
+
+  console.log(`Evaluating ${cases.length} cases with ${values.provider} (${values.model})`)
+
+  const result = await runEvaluation(cases, {
+    provider: buildProvider(),
+    model: values.model!,
+    label,
+    onCase: (caseResult, index, total) => {
+      console.log(`[${index + 1}/${total}] ${caseResult.id}${caseResult.error ? ` failed: ${caseResult.error}` : ''}`)
+    }
+  })
+
+  mkdirSync(dirname(out), { recursive: true })
+  writeFileSync(out, JSON.stringify(result, null, 2) + '\n')
+
+  for (const [metric, value] of Object.entries(result.summary)) {
+    console.log(`${metric.padEnd(32)} ${Math.round(value * 1000) / 1000}`)
+  }
+  console.log(`Saved ${out}`)
+}
+
+function compare() {
+  const [basePath, candidatePath] = positionals.slice(1)
+  if (!basePath || !candidatePath) {
+    throw new Error('Usage: compare <base.json> <candidate.json>')
+  }
+
+  const read = (path: string) => JSON.parse(readFileSync(path, 'utf8')) as EvalRun
+  const comparison = compareRuns(read(basePath), read(candidatePath))
+  console.log(formatComparison(comparison))
+
+  if (values['fail-on-regression'] && comparison.summary.some(delta => delta.verdict === 'regressed')) {
+    process.exitCode = 1
+  }
+}
+
+try {
+  switch (positionals[0]) {
+    case 'run':
+      await run()
+      break
+    case 'compare':
+      compare()
+      break
+    default:
+      throw new Error('Usage: eval <run|compare> [options]')
+  }
+} catch (error) {
+  console.error((error as Error).message)
+  process.exitCode = 1
+}
+
+// Imported services keep timers (e.g. the cache cleanup) alive
+process.exit()
@@ -0,0 +1,126 @@
+/**
+ * Offline evaluation of CV customization: runs the customization features over
+ * a corpus of anonymized CV/job pairs and scores what they produce
+ */
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { AIService } from '../services/ai.service'
+import { promptRegistry, type PromptRegistry } from '../services/prompt-registry.service'
+import type { LLMProvider } from '../services/llm.provider'
+import type { AIUsageEntry } from '../services/ai-usage.service'
+import { prefixMetrics, scoreCoverLetters, scoreCustomization, scoreMultiStage, summarizeCases } from './scoring'
+import type { EvalCase, EvalCaseResult, EvalRun } from '../types'
+
+const evalCaseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  cv: z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    title: z.string().optional(),
+    summary: z.string().optional(),
+    experience: z.string().optional(),
+    education: z.string().optional(),
+    skills: z.array(z.string()).optional(),
+    projects: z.string().optional()
+  }),
+  job: z.object({
+    title: z.string(),
+    company: z.string(),
+    description: z.string().min(200) // shortest description the AI features accept
+  }),
+  keywords: z.array(z.string()).min(1)
+})
+
+/**
+ * Load every `.json` case file of a corpus directory, sorted by case id
+ */
+export function loadCorpus(dir: string): EvalCase[] {
+  const cases = readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const result = evalCaseSchema.safeParse(JSON.parse(readFileSync(join(dir, file), 'utf8')))
+      if (!result.success) {
+        throw new Error(`Invalid eval case ${file}: ${result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`)
+      }
+      return result.data
+    })
+
+  const ids = new Set<string>()
+  for (const evalCase of cases) {
+    if (ids.has(evalCase.id)) throw new Error(`Duplicate eval case id ${evalCase.id}`)
+    ids.add(evalCase.id)
+  }
+
+  return cases.sort((a, b) => a.id.localeCompare(b.id))
+}
+
+export interface EvaluationOptions {
+  provider: LLMProvider
+  model: string
+  label: string
+  prompts?: PromptRegistry
+  onCase?: (result: EvalCaseResult, index: number, total: number) => void
+}
+
+/**
+ * Score one case: a single-pass customization, the multi-stage pipeline and
+ * cover letter variations for the customized CV, plus the model calls they took
+ */
+async function evaluateCase(evalCase: EvalCase, options: EvaluationOptions, ai: AIService, usage: AIUsageEntry[]) {
+  const { cv, job, keywords } = evalCase
+
+  const customized = await ai.customizeCV(cv, job.description, options.model)
+  const multiStage = await ai.customizeCVMultiStage(cv, job.description, job.company, options.model)
+  const letters = await ai.generateCoverLetterVariations(customized, job.description, job.company, options.model)
+
+  return {
+    ...prefixMetrics('customization', scoreCustomization(cv, customized, keywords)),
+    ...prefixMetrics('multiStage', scoreMultiStage(cv, multiStage, keywords)),
+    ...prefixMetrics('coverLetters', scoreCoverLetters(letters, keywords, job.company)),
+    ...prefixMetrics('usage', {
+      calls: usage.length,
+      failedCalls: usage.filter(entry => !entry.success).length,
+      invalidOutputs: usage.filter(entry => entry.output?.valid === false).length,
+      totalTokens: usage.reduce((sum, entry) => sum + (entry.usage?.totalTokens ?? 0), 0)
+    })
+  }
+}
+
+/**
+ * Run the corpus through the AI features. Cases run one at a time to stay
+ * within provider rate limits; a failing case is reported, not thrown.
+ */
+export async function runEvaluation(cases: EvalCase[], options: EvaluationOptions): Promise<EvalRun> {
+  const results: EvalCaseResult[] = []
+  const promptVersions: EvalRun['promptVersions'] = {}
+
+  for (const [index, evalCase] of cases.entries()) {
+    const usage: AIUsageEntry[] = []
+    const recorder = { record: async (entry: AIUsageEntry) => { usage.push(entry) } }
+    const ai = new AIService(options.provider, recorder, { userId: null, feature: 'other' }, options.prompts ?? promptRegistry)
+
+    let result: EvalCaseResult
+    try {
+      result = { id: evalCase.id, metrics: await evaluateCase(evalCase, options, ai, usage) }
+    } catch (error) {
+      result = { id: evalCase.id, metrics: {}, error: (error as Error).message }
+    }
+
+    Object.assign(promptVersions, ai.promptVersions)
+    results.push(result)
+    options.onCase?.(result, index, cases.length)
+  }
+
+  return {
+    label: options.label,
+    createdAt: new Date().toISOString(),
+    provider: options.provider.name,
+    model: options.model,
+    promptVersions,
+    cases: results,
+    summary: summarizeCases(results)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * LLM provider answering from a file of recorded responses, so evaluation
+ * runs against real model output are repeatable without network or cost
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { hashString } from '../utils/crypto'
+import type { LLMDeltaHandler, LLMProvider } from '../services/llm.provider'
+import type { LLMChatRequest, LLMChatResponse, LLMModel } from '../types'
+
+export class RecordedLLMProvider implements LLMProvider {
+  readonly name = 'recorded'
+  private recordings: Record<string, LLMChatResponse>
+
+  /**
+   * @param upstream Provider answering (and recording) requests missing from the file
+   */
+  constructor(private file: string, private upstream?: LLMProvider) {
+    this.recordings = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {}
+  }
+
+  /**
+   * Requests are matched on everything that influences the answer
+   */
+  static key(request: LLMChatRequest): string {
+    return hashString(JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens
+    }))
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const key = RecordedLLMProvider.key(request)
+    const recorded = this.recordings[key]
+    if (recorded) return recorded
+
+    if (!this.upstream) {
+      throw new Error(`No recorded response for ${request.title || request.model} (${key.slice(0, 12)})`)
+    }
+
+    const response = await this.upstream.chat(request)
+    this.recordings[key] = response
+    writeFileSync(this.file, JSON.stringify(this.recordings, null, 2) + '\n')
+    return response
+  }
+
+  async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+    const response = await this.chat(request)
+    onDelta(response.content)
+    return response
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    return this.upstream ? this.upstream.listModels() : []
+  }
+}
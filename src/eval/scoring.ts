@@ -0,0 +1,189 @@
+/**
+ * Scoring of CV customization outputs and comparison of evaluation runs.
+ * Scores reuse the heuristics of AIService so they track what the product reports.
+ */
+
+import { countMetrics, identifyChanges } from '../services/ai.service'
+import type {
+  CoverLetterVariation,
+  CustomizedCV,
+  EvalCaseResult,
+  EvalComparison,
+  EvalMetricDelta,
+  EvalRun,
+  MultiStageCustomizationResult,
+  ParsedCV
+} from '../types'
+
+// Metrics where a smaller value is better; wordCount has no better direction
+const LOWER_IS_BETTER = new Set(['validationErrors', 'validationWarnings', 'calls', 'failedCalls', 'invalidOutputs', 'totalTokens'])
+const NEUTRAL = new Set(['wordCount'])
+
+/**
+ * Text of a CV as a reader (or an ATS) sees it
+ */
+export function cvText(cv: ParsedCV | CustomizedCV): string {
+  return [cv.title, cv.summary, cv.experience, cv.skills?.join(', '), cv.projects]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Share of keywords found in the text, as whole words and ignoring case
+ */
+export function keywordCoverage(text: string, keywords: string[]): number {
+  if (keywords.length === 0) return 1
+
+  const found = keywords.filter(keyword => {
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text)
+  })
+  return found.length / keywords.length
+}
+
+export function scoreCustomization(original: ParsedCV, customized: CustomizedCV, keywords: string[]) {
+  const coverage = keywordCoverage(cvText(customized), keywords)
+
+  return {
+    keywordCoverage: coverage,
+    keywordGain: coverage - keywordCoverage(cvText(original), keywords),
+    metrics: countMetrics(`${customized.summary ?? ''}\n${customized.experience ?? ''}`),
+    changes: identifyChanges(original, customized).length,
+    matchedSkills: customized.matchedSkills?.length ?? 0
+  }
+}
+
+export function scoreMultiStage(original: ParsedCV, result: MultiStageCustomizationResult, keywords: string[]) {
+  const coverage = keywordCoverage(cvText(result.finalCV), keywords)
+
+  return {
+    qualityScore: result.validation.qualityScore,
+    relevanceScore: result.analysis.relevanceScore,
+    metricsAdded: result.optimization.metricsAdded,
+    changes: result.optimization.changesApplied.length,
+    keywordCoverage: coverage,
+    keywordGain: coverage - keywordCoverage(cvText(original), keywords),
+    validationErrors: result.validation.errors.length,
+    validationWarnings: result.validation.warnings.length
+  }
+}
+
+export function scoreCoverLetters(variations: CoverLetterVariation[], keywords: string[], company: string) {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1)
+
+  return {
+    keywordCoverage: mean(variations.map(v => keywordCoverage(v.content, keywords))),
+    companyMentioned: mean(variations.map(v => keywordCoverage(v.content, [company]))),
+    wordCount: mean(variations.map(v => v.wordCount)),
+    // Failed variations all get the same fallback letter
+    distinctLetters: new Set(variations.map(v => v.content)).size / Math.max(variations.length, 1)
+  }
+}
+
+/**
+ * Prefix metric names with their feature, e.g. `multiStage.qualityScore`
+ */
+export function prefixMetrics(feature: string, metrics: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(metrics).map(([name, value]) => [`${feature}.${name}`, value]))
+}
+
+/**
+ * Mean of each metric over the cases that completed
+ */
+export function summarizeCases(cases: EvalCaseResult[]): Record<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>()
+
+  for (const result of cases) {
+    if (result.error) continue
+    for (const [metric, value] of Object.entries(result.metrics)) {
+      const total = totals.get(metric) ?? { sum: 0, count: 0 }
+      total.sum += value
+      total.count += 1
+      totals.set(metric, total)
+    }
+  }
+
+  return Object.fromEntries(
+    [...totals.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([metric, { sum, count }]) => [metric, sum / count])
+  )
+}
+
+function compareMetric(metric: string, base: number, candidate: number): EvalMetricDelta {
+  const delta = candidate - base
+  const name = metric.slice(metric.lastIndexOf('.') + 1)
+
+  let verdict: EvalMetricDelta['verdict'] = 'unchanged'
+  if (Math.abs(delta) > 1e-9 && !NEUTRAL.has(name)) {
+    verdict = (delta > 0) !== LOWER_IS_BETTER.has(name) ? 'improved' : 'regressed'
+  }
+
+  return { metric, base, candidate, delta, verdict }
+}
+
+/**
+ * Compare two runs metric by metric, overall and per case. A case that failed
+ * in the candidate run only counts as a regression of every metric it had.
+ */
+export function compareRuns(base: EvalRun, candidate: EvalRun): EvalComparison {
+  const metrics = [...new Set([...Object.keys(base.summary), ...Object.keys(candidate.summary)])].sort()
+  const candidateCases = new Map(candidate.cases.map(c => [c.id, c]))
+
+  const cases = base.cases.flatMap(baseCase => {
+    const candidateCase = candidateCases.get(baseCase.id)
+    if (!candidateCase || baseCase.error) return []
+
+    const regressions = Object.entries(baseCase.metrics)
+      .map(([metric, value]) => candidateCase.error
+        ? { metric, base: value, candidate: NaN, delta: NaN, verdict: 'regressed' as const }
+        : compareMetric(metric, value, candidateCase.metrics[metric] ?? 0))
+      .filter(delta => delta.verdict === 'regressed')
+
+    return regressions.length > 0 ? [{ id: baseCase.id, regressions }] : []
+  })
+
+  return {
+    base: { label: base.label, createdAt: base.createdAt, promptVersions: base.promptVersions },
+    candidate: { label: candidate.label, createdAt: candidate.createdAt, promptVersions: candidate.promptVersions },
+    summary: metrics.map(metric => compareMetric(metric, base.summary[metric] ?? 0, candidate.summary[metric] ?? 0)),
+    cases
+  }
+}
+
+/**
+ * Markdown report of a comparison
+ */
+export function formatComparison(comparison: EvalComparison): string {
+  const format = (value: number) => Number.isNaN(value) ? 'failed' : String(Math.round(value * 1000) / 1000)
+  const marks = { improved: 'better', regressed: 'worse', unchanged: '' }
+
+  const versions = (run: EvalComparison['base']) =>
+    Object.entries(run.promptVersions).map(([template, version]) => `${template}@${version}`).join(', ') || 'n/a'
+
+  const basePrompts: Record<string, string | undefined> = comparison.base.promptVersions
+  const candidatePrompts: Record<string, string | undefined> = comparison.candidate.promptVersions
+  const changedPrompts = Object.keys({ ...basePrompts, ...candidatePrompts })
+    .filter(template => basePrompts[template] !== candidatePrompts[template])
+
+  const lines = [
+    `# Evaluation: ${comparison.base.label} → ${comparison.candidate.label}`,
+    '',
+    `Base prompts: ${versions(comparison.base)}`,
+    `Candidate prompts: ${versions(comparison.candidate)}`,
+    `Changed templates: ${changedPrompts.join(', ') || 'none'}`,
+    '',
+    '| Metric | Base | Candidate | Delta | |',
+    '|--------|------|-----------|-------|-|',
+    ...comparison.summary.map(d =>
+      `| ${d.metric} | ${format(d.base)} | ${format(d.candidate)} | ${d.delta > 0 ? '+' : ''}${format(d.delta)} | ${marks[d.verdict]} |`
+    )
+  ]
+
+  if (comparison.cases.length > 0) {
+    lines.push('', '## Regressed cases', '')
+    for (const { id, regressions } of comparison.cases) {
+      lines.push(`- ${id}: ${regressions.map(d => `${d.metric} ${format(d.base)} → ${format(d.candidate)}`).join(', ')}`)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -1,5 +1,8 @@
 import { app } from "./app";
 import { env } from "./config/env";
+import { queueWorker } from "./services/queue.worker";
+import { negotiationSyncWorker } from "./services/negotiation-sync.worker";
+import { savedSearchWorker } from "./services/saved-search.worker";
 
 const server = app.listen(env.PORT, () => {
   console.log(`
@@ -12,9 +15,24 @@ Environment: ${env.NODE_ENV}
   `);
 });
 
+if (env.QUEUE_WORKER_ENABLED) {
+  queueWorker.start();
+}
+
+if (env.HH_SYNC_ENABLED) {
+  negotiationSyncWorker.start();
+}
+
+if (env.SAVED_SEARCH_WORKER_ENABLED) {
+  savedSearchWorker.start();
+}
+
 // Graceful shutdown
 process.on("SIGINT", async () => {
   console.log("\n🛑 Shutting down gracefully...");
+  await queueWorker.stop();
+  await negotiationSyncWorker.stop();
+  await savedSearchWorker.stop();
   await server.stop();
   process.exit(0);
 });
@@ -0,0 +1,42 @@
+/**
+ * Daily AI quota enforcement for AI routes
+ */
+
+import type { Context } from 'elysia'
+import { aiQuotaService } from '../services/ai-quota.service'
+import { logger } from '../utils/logger'
+import type { AIFeature } from '../types'
+
+/**
+ * beforeHandle hook refusing the request with 429 when it would exceed the
+ * user's daily quota. Use on routes behind authMiddleware.
+ */
+export function aiQuotaGuard(feature: AIFeature) {
+  return async ({ userId, set }: { userId: string; set: Context['set'] }) => {
+    let check
+    try {
+      check = await aiQuotaService.check(userId, feature)
+    } catch (error) {
+      // Quota lookups must not take AI features down with the database
+      logger.warn('AI quota check failed, allowing request', { userId, feature, error: (error as Error).message })
+      return
+    }
+
+    if (check.allowed) return
+
+    logger.warn('AI quota exceeded', { userId, feature, exceeded: check.exceeded, quota: check.state })
+
+    set.status = 429
+    set.headers['Retry-After'] = String(check.retryAfterSeconds)
+    return {
+      success: false,
+      error: check.exceeded === 'requests'
+        ? 'Daily AI request limit reached'
+        : 'Daily AI token budget reached',
+      code: 'AI_QUOTA_EXCEEDED',
+      exceeded: check.exceeded,
+      retryAfterSeconds: check.retryAfterSeconds,
+      quota: check.state
+    }
+  }
+}
@@ -4,6 +4,7 @@
 
 import { Elysia } from 'elysia'
 import { validateSession, extractSessionCookie, serializeSessionCookie } from './session'
+import { userService } from '../services/user.service'
 import { env } from '../config/env'
 import { logger } from '../utils/logger'
 import type { SessionPayload } from '../types'
@@ -11,9 +12,9 @@ import type { SessionPayload } from '../types'
 /**
  * Authentication result with user context
  */
-export interface AuthContext {
+export type AuthContext = {
   session: SessionPayload
-  userId: string | null
+  userId: string // users.id resolved from the session
 }
 
 /**
@@ -21,7 +22,8 @@ export interface AuthContext {
  */
 export function authMiddleware() {
   return new Elysia({ name: 'auth-middleware' })
-    .derive(async ({ request, set }) => {
+    // Scoped so the context reaches the routes of the plugin that uses it
+    .derive({ as: 'scoped' }, async ({ request, set, status }) => {
       const cookieValue = extractSessionCookie(request.headers.get('cookie'))
       const validation = await validateSession(cookieValue)
 
@@ -32,7 +34,6 @@ export function authMiddleware() {
           expired: 'expired' in validation && validation.expired
         })
 
-        set.status = 401
         set.headers['Set-Cookie'] = serializeSessionCookie('', {
           maxAge: 0,
           secure: env.NODE_ENV === 'production',
@@ -40,17 +41,18 @@ export function authMiddleware() {
           sameSite: 'lax'
         })
 
-        throw new Error('Authentication required')
+        return status(401, { success: false, error: 'Authentication required' })
       }
 
       // Attach auth context to request
       const authContext: AuthContext = {
         session: validation.session,
-        userId: validation.session.id // For now, use session ID as user ID
+        userId: await userService.resolveSessionUser(validation.session, validation.userId)
       }
 
       logger.debug('Request authenticated', {
         sessionId: validation.session.id,
+        userId: authContext.userId,
         path: new URL(request.url).pathname
       })
 
@@ -63,14 +65,14 @@ export function authMiddleware() {
  */
 export function optionalAuthMiddleware() {
   return new Elysia({ name: 'optional-auth-middleware' })
-    .derive(async ({ request }) => {
+    .derive({ as: 'scoped' }, async ({ request }) => {
       const cookieValue = extractSessionCookie(request.headers.get('cookie'))
       const validation = await validateSession(cookieValue)
 
       if (validation.valid && validation.session) {
         const authContext: AuthContext = {
           session: validation.session,
-          userId: validation.session.id
+          userId: await userService.resolveSessionUser(validation.session, validation.userId)
         }
         return authContext
       }
@@ -0,0 +1,142 @@
+/**
+ * Request rate limiting for the public API
+ */
+
+import { Elysia } from 'elysia'
+import { env } from '../config/env'
+import { extractSessionCookie, validateSession } from './session'
+import { RateLimiter, createRateLimitStore, type RateLimitResult } from '../services/rate-limiter.service'
+import { logger } from '../utils/logger'
+
+export interface RateLimitRule {
+  name: string
+  limit: number
+  windowMs: number
+  method?: string // any method when omitted
+  path?: string // exact path, or a prefix when it ends with '*'; every path when omitted
+}
+
+export interface RateLimitOptions {
+  rules: RateLimitRule[]
+  skip?: string[] // paths never limited, same syntax as RateLimitRule.path
+  limiter?: RateLimiter
+  trustProxy?: boolean
+  enabled?: boolean
+}
+
+type ServerLike = { requestIP(request: Request): { address: string } | null } | null
+
+function pathMatches(pattern: string, path: string) {
+  return pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : path === pattern
+}
+
+/**
+ * Rules that apply to a request
+ */
+export function matchRules(rules: RateLimitRule[], method: string, path: string): RateLimitRule[] {
+  return rules.filter(rule =>
+    (!rule.method || rule.method === method) && (!rule.path || pathMatches(rule.path, path))
+  )
+}
+
+/**
+ * Identify the client: its session when the cookie carries a valid
+ * signature (not checked against the database), otherwise its IP.
+ * X-Forwarded-For is only read behind a trusted proxy.
+ *
+ * @returns null when the client cannot be told apart from others
+ */
+export async function clientKey(request: Request, server: ServerLike, trustProxy: boolean): Promise<string | null> {
+  const cookie = extractSessionCookie(request.headers.get('cookie'))
+  if (cookie) {
+    const validation = await validateSession(cookie, false)
+    if (validation.valid) return `session:${validation.session.id}`
+  }
+
+  const forwarded = trustProxy ? request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() : undefined
+  const address = forwarded || server?.requestIP(request)?.address
+  return address ? `ip:${address}` : null
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft) for the most restrictive result
+ */
+export function rateLimitHeaders(result: RateLimitResult, rule: RateLimitRule): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds)
+  }
+  return headers
+}
+
+/**
+ * Global plugin limiting requests per client by rule. Every matching rule is
+ * counted; the response carries the headers of the tightest one. Store
+ * failures are logged and let the request through.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const plugin = new Elysia({ name: 'rate-limit' })
+  if (!(options.enabled ?? env.RATE_LIMIT_ENABLED)) return plugin
+
+  const limiter = options.limiter ?? new RateLimiter(createRateLimitStore())
+  const trustProxy = options.trustProxy ?? env.RATE_LIMIT_TRUST_PROXY
+  const skip = options.skip ?? []
+
+  return plugin
+    .onRequest(async ({ request, server, set }) => {
+      if (request.method === 'OPTIONS') return
+
+      const path = new URL(request.url).pathname
+      if (skip.some(pattern => pathMatches(pattern, path))) return
+
+      const rules = matchRules(options.rules, request.method, path)
+      if (rules.length === 0) return
+
+      let results: Array<{ rule: RateLimitRule; result: RateLimitResult }>
+      let key: string | null
+      try {
+        key = await clientKey(request, server, trustProxy)
+        // One shared bucket would let a single client limit everyone else
+        if (!key) {
+          logger.warn('Rate limit skipped, client IP unknown', { path })
+          return
+        }
+        results = await Promise.all(rules.map(async rule => ({
+          rule,
+          result: await limiter.hit(`${rule.name}:${key}`, rule.limit, rule.windowMs)
+        })))
+      } catch (error) {
+        logger.warn('Rate limit check failed, allowing request', {
+          path,
+          backend: limiter.backend,
+          error: (error as Error).message
+        })
+        return
+      }
+
+      const refused = results.filter(r => !r.result.allowed)
+      const tightest = refused.length > 0
+        ? refused.reduce((a, b) => (b.result.retryAfterSeconds > a.result.retryAfterSeconds ? b : a))
+        : results.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a))
+
+      Object.assign(set.headers, rateLimitHeaders(tightest.result, tightest.rule))
+
+      if (refused.length > 0) {
+        logger.warn('Rate limit exceeded', { path, method: request.method, client: key, rule: tightest.rule.name })
+
+        set.status = 429
+        return {
+          success: false,
+          error: 'Too many requests',
+          code: 'RATE_LIMITED',
+          retryAfterSeconds: tightest.result.retryAfterSeconds
+        }
+      }
+    })
+    .onStop(() => limiter.destroy())
+}
@@ -75,6 +75,9 @@ export async function validateSession(cookieValue?: string, checkDatabase = true
       return { valid: false as const }
     }
 
+    // users.id the session is linked to (only known when the database is checked)
+    let userId: string | null = null
+
     // Check database for session validity
     if (checkDatabase) {
       const [dbSession] = await db
@@ -93,6 +96,8 @@ export async function validateSession(cookieValue?: string, checkDatabase = true
         return { valid: false as const, reason: 'session_not_found_or_revoked' as const }
       }
 
+      userId = dbSession.userId
+
       // Update last activity
       await db
         .update(sessions)
@@ -100,7 +105,7 @@ export async function validateSession(cookieValue?: string, checkDatabase = true
         .where(eq(sessions.sessionId, payload.id))
     }
 
-    return { valid: true as const, session: payload }
+    return { valid: true as const, session: payload, userId }
   } catch (error) {
     console.error('Failed to validate session', error)
     return { valid: false as const }
@@ -109,6 +114,7 @@ export async function validateSession(cookieValue?: string, checkDatabase = true
 
 export async function createSessionInDb(sessionId: string, token: string, expiresAt: Date, userId?: string | null, metadata?: { ipAddress?: string; userAgent?: string }) {
   try {
+    // The OAuth callback reuses the id of a still-valid session, so refresh it in place
     await db.insert(sessions).values({
       sessionId,
       userId: userId ?? null,
@@ -118,6 +124,15 @@ export async function createSessionInDb(sessionId: string, token: string, expire
       userAgent: metadata?.userAgent ?? null,
       createdAt: new Date(),
       updatedAt: new Date()
+    }).onConflictDoUpdate({
+      target: sessions.sessionId,
+      set: {
+        userId: userId ?? null,
+        token,
+        expiresAt,
+        revokedAt: null,
+        updatedAt: new Date()
+      }
     })
   } catch (error) {
     console.error('Failed to create session in database', error)
@@ -1,11 +1,20 @@
 import { Elysia, t } from 'elysia'
+import { randomUUID } from 'node:crypto'
 import { aiService } from '../services/ai.service'
+import { aiUsageService } from '../services/ai-usage.service'
 import { StorageService } from '../services/storage.service'
+import { CustomCvService } from '../services/custom-cv.service'
+import { jobStore } from '../services/job-store.service'
+import { db } from '../db/client'
+import { realtime } from '../services/realtime.service'
+import { scoreMatch } from '../services/match-scoring.service'
 import { authMiddleware } from '../middleware/auth'
+import { aiQuotaGuard } from '../middleware/ai-quota'
 import { logger } from '../utils/logger'
-import type { ParsedCV, CustomizedCV } from '../types'
+import type { ParsedCV, CustomizedCV, CustomizationDelta, JobSkills } from '../types'
 
 const storage = new StorageService()
+const customCvService = new CustomCvService(db)
 
 export function registerEnhancedAIRoutes() {
   return new Elysia({ name: 'ai-enhanced-routes' })
@@ -17,14 +26,18 @@ export function registerEnhancedAIRoutes() {
      */
     .post('/api/ai/cv/customize-multistage', async ({ body, set, userId }) => {
       try {
-        const { cvId, jobDescription, companyInfo, model } = body as {
+        const { cvId, jobDescription, companyInfo, model, stream, streamId: clientStreamId, jobId, jobTitle } = body as {
           cvId: string
           jobDescription: string
           companyInfo: string
           model?: string
+          stream?: boolean
+          streamId?: string
+          jobId?: string
+          jobTitle?: string
         }
 
-        logger.info('Multi-stage CV customization started', { userId, cvId, model: model || 'default' })
+        logger.info('Multi-stage CV customization started', { userId, cvId, model: model || 'default', stream: !!stream })
 
         // Fetch CV from database
         const cv = await storage.getCvById(cvId)
@@ -33,27 +46,66 @@ export function registerEnhancedAIRoutes() {
           return { success: false, error: 'CV not found or access denied' }
         }
 
+        // The result is stored for the job: check it before paying for the run
+        if (jobId && (await jobStore.getJob(jobId))?.id !== jobId) {
+          set.status = 404
+          return { success: false, error: 'Job not found' }
+        }
+
+        // Stream the optimization stage over /ws when requested, tagged with the id the client chose
+        const streamId = stream ? clientStreamId ?? randomUUID() : undefined
+        const onDelta = streamId
+          ? (event: CustomizationDelta) => realtime.sendCustomizationDelta(userId, streamId, event)
+          : undefined
+
         // Perform multi-stage customization
-        const result = await aiService.customizeCVMultiStage(
+        const ai = aiService.withUsage({ userId, feature: 'multistage_customization' })
+        const result = await ai.customizeCVMultiStage(
           cv as ParsedCV,
           jobDescription,
           companyInfo,
-          model
+          model,
+          onDelta
         )
 
+        if (streamId) {
+          realtime.sendCustomizationComplete(userId, streamId, result.finalCV)
+        }
+
+        const modelUsed = model || 'anthropic/claude-3.5-sonnet'
+
+        // Every run becomes a new version so results can be compared and pinned later
+        const saved = await customCvService.saveMultiStageResult({
+          parsedCvId: cvId,
+          jobId,
+          jobTitle,
+          result,
+          modelUsed,
+          promptVersions: ai.promptVersions
+        })
+
         logger.info('Multi-stage customization completed', {
           userId,
           relevanceScore: result.analysis.relevanceScore,
           qualityScore: result.validation.qualityScore,
-          variationsGenerated: result.coverLetterVariations.length
+          variationsGenerated: result.coverLetterVariations.length,
+          versionId: saved.id,
+          version: saved.version
         })
 
         return {
           success: true,
           result: {
             ...result,
-            modelUsed: model || 'anthropic/claude-3.5-sonnet'
-          }
+            modelUsed
+          },
+          version: {
+            id: saved.id,
+            version: saved.version,
+            jobId: saved.jobId,
+            isPinned: saved.isPinned
+          },
+          streamId
         }
       } catch (error) {
         logger.error('Multi-stage customization failed', error as Error, { userId })
@@ -64,11 +116,16 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('multistage_customization'),
       body: t.Object({
         cvId: t.String(),
         jobDescription: t.String({ minLength: 50 }),
         companyInfo: t.String(),
-        model: t.Optional(t.String())
+        model: t.Optional(t.String()),
+        stream: t.Optional(t.Boolean()),
+        streamId: t.Optional(t.String({ maxLength: 100 })),
+        jobId: t.Optional(t.String({ format: 'uuid' })),
+        jobTitle: t.Optional(t.String())
       })
     })
 
@@ -87,7 +144,8 @@ export function registerEnhancedAIRoutes() {
 
         logger.info('Cover letter variations generation started', { userId, model: model || 'default' })
 
-        const variations = await aiService.generateCoverLetterVariations(
+        const ai = aiService.withUsage({ userId, feature: 'cover_letter_variations' })
+        const variations = await ai.generateCoverLetterVariations(
           customizedCV,
           jobDescription,
           companyInfo,
@@ -114,6 +172,7 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('cover_letter_variations'),
       body: t.Object({
         customizedCV: t.Object({
           firstName: t.Optional(t.String()),
@@ -144,7 +203,8 @@ export function registerEnhancedAIRoutes() {
 
         logger.info('Multi-model skills consensus extraction started', { userId })
 
-        const consensusResult = await aiService.extractJobSkillsWithConsensus(jobDescription)
+        const ai = aiService.withUsage({ userId, feature: 'skills_consensus' })
+        const consensusResult = await ai.extractJobSkillsWithConsensus(jobDescription)
 
         logger.info('Skills consensus extraction completed', {
           userId,
@@ -166,6 +226,7 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('skills_consensus'),
       body: t.Object({
         jobDescription: t.String({ minLength: 50 })
       })
@@ -194,14 +255,15 @@ export function registerEnhancedAIRoutes() {
         }
 
         // First customize CV for this job to get better STAR responses
-        const customizedCV = await aiService.customizeCV(
+        const ai = aiService.withUsage({ userId, feature: 'interview_preparation' })
+        const customizedCV = await ai.customizeCV(
           cv as ParsedCV,
           jobDescription,
           model
         )
 
         // Generate interview prep
-        const preparation = await aiService.prepareForInterview(
+        const preparation = await ai.prepareForInterview(
           customizedCV,
           jobDescription,
           companyInfo,
@@ -229,6 +291,7 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('interview_preparation'),
       body: t.Object({
         cvId: t.String(),
         jobDescription: t.String({ minLength: 50 }),
@@ -252,7 +315,8 @@ export function registerEnhancedAIRoutes() {
 
         logger.info('Company culture analysis started', { userId })
 
-        const analysis = await aiService.analyzeCompanyCulture(
+        const ai = aiService.withUsage({ userId, feature: 'culture_analysis' })
+        const analysis = await ai.analyzeCompanyCulture(
           jobDescription,
           companyInfo,
           companyReviews,
@@ -280,6 +344,7 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('culture_analysis'),
       body: t.Object({
         jobDescription: t.String({ minLength: 50 }),
         companyInfo: t.String(),
@@ -294,17 +359,17 @@ export function registerEnhancedAIRoutes() {
      */
     .post('/api/ai/suggestions/realtime', async ({ body, set, userId }) => {
       try {
-        const { cvId, job, matchScore } = body as {
+        const { cvId, job } = body as {
           cvId: string
           job: {
             title: string
             description: string
             company?: string
+            skills?: string[]
           }
-          matchScore: number
         }
 
-        logger.info('Real-time suggestions generation started', { userId, cvId, matchScore })
+        logger.info('Real-time suggestions generation started', { userId, cvId })
 
         // Fetch CV from database
         const cv = await storage.getCvById(cvId)
@@ -313,21 +378,32 @@ export function registerEnhancedAIRoutes() {
           return { success: false, error: 'CV not found or access denied' }
         }
 
-        const suggestions = await aiService.generateRealtimeSuggestions(
+        const ai = aiService.withUsage({ userId, feature: 'realtime_suggestions' })
+
+        // Jobs without listed key skills are matched on the skills extracted from the description
+        let jobSkills: JobSkills | undefined
+        if (!job.skills?.length) {
+          jobSkills = await ai.extractJobSkills(job.description).catch(() => undefined)
+        }
+        const match = scoreMatch(cv as ParsedCV, { ...job, jobSkills })
+
+        const suggestions = await ai.generateRealtimeSuggestions(
           cv as ParsedCV,
           job,
-          matchScore
+          match.score
         )
 
         logger.info('Real-time suggestions generated', {
           userId,
+          matchScore: match.score,
           suggestionsCount: suggestions.suggestions.length,
           highPriority: suggestions.suggestions.filter(s => s.priority === 'high').length
         })
 
         return {
           success: true,
-          suggestions
+          suggestions,
+          match
         }
       } catch (error) {
         logger.error('Real-time suggestions generation failed', error as Error, { userId })
@@ -338,14 +414,41 @@ export function registerEnhancedAIRoutes() {
         }
       }
     }, {
+      beforeHandle: aiQuotaGuard('realtime_suggestions'),
       body: t.Object({
         cvId: t.String(),
         job: t.Object({
           title: t.String(),
           description: t.String(),
-          company: t.Optional(t.String())
+          company: t.Optional(t.String()),
+          skills: t.Optional(t.Array(t.String()))
         }),
-        matchScore: t.Number({ minimum: 0, maximum: 100 })
+        // Ignored: the score is computed from the CV and the job. Kept for older clients.
+        matchScore: t.Optional(t.Number({ minimum: 0, maximum: 100 }))
+      })
+    })
+
+    /**
+     * GET /api/ai/usage
+     * Daily token usage and estimated cost of the user's AI calls
+     */
+    .get('/api/ai/usage', async ({ query, userId, set }) => {
+      try {
+        const days = Math.min(Math.max(parseInt(query.days ?? '30') || 30, 1), 90)
+        const usage = await aiUsageService.getDailyUsage(userId, days)
+
+        return { success: true, usage }
+      } catch (error) {
+        logger.error('AI usage lookup failed', error as Error, { userId })
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch AI usage'
+        }
+      }
+    }, {
+      query: t.Object({
+        days: t.Optional(t.String())
       })
     })
 
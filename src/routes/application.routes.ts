@@ -1,11 +1,9 @@
 import { Elysia, t } from 'elysia'
 import { authMiddleware } from '../middleware/auth'
-import { validateEmail, validateRussianPhone } from '../utils/validation'
-import { proxyToCore } from '../services/core.proxy'
 import { logger } from '../utils/logger'
-import { ApplicationTrackerService } from '../services/application-tracker.service'
+import { ApplicationTrackerService, ApplicationRetryError, DuplicateApplicationError } from '../services/application-tracker.service'
 import { db } from '../db/client'
-import type { ApplicationSubmitRequest, CustomizedCV } from '../types'
+import type { ApplicationSubmitRequest } from '../types'
 
 export function registerApplicationRoutes() {
   const appTracker = new ApplicationTrackerService(db)
@@ -13,118 +11,61 @@ export function registerApplicationRoutes() {
   return new Elysia({ name: 'application-routes' })
     .use(authMiddleware())
     .post('/api/application/submit', async ({ body, set, userId, session }) => {
-      const { jobExternalId, customizedCV, coverLetter } = body as ApplicationSubmitRequest
+      const { jobExternalId, customizedCV, coverLetter, customCvId, reapply } = body as ApplicationSubmitRequest
 
-      logger.info('Application submission started', { userId, jobExternalId })
+      logger.info('Application submission started', { userId, jobExternalId, customCvId })
 
       if (!jobExternalId || !customizedCV) {
         set.status = 400
         return { success: false, error: 'Missing job data for submission' }
       }
 
-      // Validate email
-      const email = typeof customizedCV.email === 'string' ? customizedCV.email : ''
-      const emailValidation = validateEmail(email)
-      if (!emailValidation.valid) {
-        set.status = 400
-        return { success: false, error: emailValidation.error || 'Invalid email address' }
-      }
-
-      // Validate phone number
-      const phone = typeof customizedCV.phone === 'string' ? customizedCV.phone : ''
-      const phoneValidation = validateRussianPhone(phone)
-      if (!phoneValidation.valid) {
-        set.status = 400
-        return { success: false, error: phoneValidation.error || 'Invalid phone number' }
-      }
-
-      // Use formatted phone number
-      if (phoneValidation.formatted) {
-        customizedCV.phone = phoneValidation.formatted
-      }
-
-      // Sanitize CV: drop blank hh_resume_id to avoid short-circuiting with empty id in Core
-      const sanitizedCV = { ...customizedCV } as CustomizedCV & { hh_resume_id?: string }
-      if (typeof sanitizedCV.hh_resume_id === 'string' && sanitizedCV.hh_resume_id.trim() === '') {
-        delete sanitizedCV.hh_resume_id
-      }
-
       try {
-        const response = await proxyToCore({
-          path: '/api/applications/submit',
-          method: 'POST',
-          body: {
-            job_external_id: jobExternalId,
-            customized_cv: sanitizedCV,
-            cover_letter: coverLetter
-          },
+        if (customCvId && !(await appTracker.ownsCustomCv(userId, customCvId))) {
+          set.status = 404
+          return { success: false, error: 'Custom CV not found' }
+        }
+
+        const { application, submission } = await appTracker.submitAndRecord({
+          userId,
+          jobExternalId,
+          customizedCV,
+          coverLetter,
+          customCvId,
+          reapply,
           token: session.token,
-          sessionId: session.id,
-          retryOptions: {
-            maxRetries: 2,
-            retryableStatuses: [502, 503, 504],
-            onRetry: (attempt, error) => {
-              logger.warn('Retrying application submission', { attempt, userId, jobExternalId, error: error.message })
-            }
-          }
+          sessionId: session.id
         })
 
-        if (!response.ok) {
-          let errorPayload: any = null
-          try {
-            errorPayload = await response.json()
-          } catch {
-            errorPayload = await response.text()
-          }
-          const errorString = typeof errorPayload === 'string' ? errorPayload : errorPayload?.error
-
-          if (response.status === 422 && errorString) {
-            const normalized = String(errorString).replace(/^:/, '')
-            const mapped: Record<string, string> = {
-              missing_email: 'Your CV is missing an email address. Please add one before submitting.',
-              missing_phone: 'Your CV is missing a phone number. Please add one before submitting.',
-              missing_resume_id: 'We could not determine a resume to submit. Please try again.',
-              resume_not_available: 'Your HH resume is not available to apply. Please publish and verify it on HH (phone verification may be required), then retry.'
-            }
-
-            // Special-case HH bad_arguments to surface description when available
-            if (normalized === 'bad_arguments') {
-              const description = typeof errorPayload?.details?.description === 'string'
-                ? errorPayload.details.description
-                : undefined
-              logger.warn('HH.ru rejected application', { userId, jobExternalId, reason: 'bad_arguments', description })
-              set.status = 422
-              return {
-                success: false,
-                error: description
-                  ? `HH.ru rejected the request: ${description}`
-                  : 'HH.ru rejected the request due to invalid arguments.'
-              }
-            }
-
-            logger.warn('Application submission rejected', { userId, jobExternalId, reason: normalized })
-            set.status = 422
-            return {
-              success: false,
-              error: mapped[normalized] || `Phoenix Core rejected the resume: ${normalized}`
-            }
-          }
+        // Refused before anything was recorded (invalid contact details)
+        if (!application) {
+          set.status = submission.status
+          return { success: false, error: submission.error }
+        }
 
-          logger.error('Application submission failed', undefined, { userId, jobExternalId, status: response.status, error: errorString })
-          set.status = 502
-          return {
-            success: false,
-            error: `Phoenix Core error: ${response.status} - ${errorString ?? 'Unknown error'}`
-          }
+        if (!submission.success) {
+          set.status = submission.status
+          return { success: false, error: submission.error, applicationId: application.id }
         }
 
-        const result = await response.json()
-        logger.info('Application submitted successfully', { userId, jobExternalId })
-        return { success: true, result, message: 'Application submitted successfully!' }
+        return {
+          success: true,
+          result: submission.result,
+          applicationId: application.id,
+          message: 'Application submitted successfully!'
+        }
       } catch (error) {
-        logger.error('Application submission error', error as Error, { userId, jobExternalId })
+        if (error instanceof DuplicateApplicationError) {
+          set.status = 409
+          return { success: false, error: error.message, applicationId: error.applicationId }
+        }
+
+        logger.error('Failed to record application submission', error as Error, { userId, jobExternalId })
         set.status = 500
-        return { success: false, error: error instanceof Error ? error.message : 'Submission failed' }
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to submit application'
+        }
       }
     }, {
       body: t.Object({
@@ -145,7 +86,9 @@ export function registerApplicationRoutes() {
           matchedSkills: t.Optional(t.Array(t.String())),
           addedKeywords: t.Optional(t.Array(t.String()))
         }),
-        coverLetter: t.String({ minLength: 1 })
+        coverLetter: t.String({ minLength: 1 }),
+        customCvId: t.Optional(t.String({ format: 'uuid' })),
+        reapply: t.Optional(t.Boolean()) // Apply to a vacancy applied to before
       })
     })
 
@@ -195,15 +138,67 @@ export function registerApplicationRoutes() {
       }
     })
 
-    // Retry failed application
-    .post('/api/application/:id/retry', async ({ params, set }) => {
+    // Submission attempts and HH negotiation status changes of an application
+    .get('/api/application/:id/timeline', async ({ params, userId, set }) => {
+      try {
+        const timeline = await appTracker.getTimeline(userId, params.id)
+        if (!timeline) {
+          set.status = 404
+          return { success: false, error: 'Application not found' }
+        }
+
+        return {
+          success: true,
+          application: timeline.application,
+          events: timeline.events
+        }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch timeline'
+        }
+      }
+    })
+
+    // Retry failed application: resubmit its stored custom CV and cover letter
+    .post('/api/application/:id/retry', async ({ params, set, userId, session }) => {
       try {
-        await appTracker.retryApplication(params.id)
+        const retry = await appTracker.retryApplication(params.id, userId, {
+          token: session.token,
+          sessionId: session.id
+        })
+
+        if (!retry) {
+          set.status = 404
+          return { success: false, error: 'Application not found' }
+        }
+
+        const { application, submission } = retry
+        if (!submission.success) {
+          set.status = submission.status
+          return { success: false, error: submission.error, application }
+        }
+
         return {
           success: true,
-          message: 'Application retry scheduled'
+          application,
+          result: submission.result,
+          message: 'Application resubmitted successfully!'
         }
       } catch (error) {
+        if (error instanceof ApplicationRetryError) {
+          set.status = error.status
+          if (error.retryAfterMs !== undefined) {
+            set.headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000))
+          }
+          return { success: false, error: error.message }
+        }
+        if (error instanceof DuplicateApplicationError) {
+          set.status = 409
+          return { success: false, error: error.message, applicationId: error.applicationId }
+        }
+
         set.status = 500
         return {
           success: false,
@@ -212,5 +207,3 @@ export function registerApplicationRoutes() {
       }
     })
 }
-
-
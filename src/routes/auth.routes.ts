@@ -3,6 +3,7 @@ import { randomUUID } from 'node:crypto'
 import { env } from '../config/env'
 import { createSession, validateSession, extractSessionCookie, serializeSessionCookie, createSessionInDb } from '../middleware/session'
 import { proxyToCore } from '../services/core.proxy'
+import { userService } from '../services/user.service'
 import { logger } from '../utils/logger'
 import type { OAuthCallbackQuery, OAuthCallbackResponse } from '../types'
 
@@ -68,9 +69,11 @@ export function registerAuthRoutes() {
           ttlMs
         })
 
-        // Persist session to database (user_id null for MVP - no user management yet)
+        // Persist session, then link it to the user behind the JWT
+        // (moves over anything the session owned before it had a user)
         const expiresAt = new Date(session.exp)
         await createSessionInDb(sessionId, data.jwt, expiresAt, null)
+        const userId = await userService.linkLogin(sessionId, data.jwt)
 
         const maxAge = Math.max(Math.floor((session.exp - Date.now()) / 1000), 60)
         set.headers['Set-Cookie'] = serializeSessionCookie(value, {
@@ -80,7 +83,7 @@ export function registerAuthRoutes() {
           sameSite: 'lax'
         })
 
-        logger.info('OAuth callback successful, session persisted to database', { sessionId })
+        logger.info('OAuth callback successful, session persisted to database', { sessionId, userId })
         set.status = 302
         set.headers['Location'] = `${frontendUrl}/upload?hh_connected=true`
         return
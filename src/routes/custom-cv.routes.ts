@@ -0,0 +1,132 @@
+import { Elysia, t } from 'elysia'
+import { CustomCvService } from '../services/custom-cv.service'
+import { StorageService } from '../services/storage.service'
+import { db } from '../db/client'
+import { authMiddleware, checkResourceOwnership } from '../middleware/auth'
+import { logger } from '../utils/logger'
+
+const storage = new StorageService()
+
+export function registerCustomCvRoutes() {
+  const customCvService = new CustomCvService(db)
+
+  /**
+   * Resolve the parsed CV and verify it belongs to the current user
+   */
+  const loadOwnedCv = async (cvId: string, userId: string, set: { status?: number | string }) => {
+    const cv = await storage.getCvById(cvId)
+    if (!cv) {
+      set.status = 404
+      return { error: 'CV not found' }
+    }
+    if (!checkResourceOwnership(cv.userId ?? null, userId)) {
+      logger.warn('Unauthorized CV version access attempt', { userId, cvId, ownerId: cv.userId })
+      set.status = 403
+      return { error: 'Forbidden: You do not have access to this CV' }
+    }
+    return { cv }
+  }
+
+  return new Elysia({ name: 'custom-cv-routes' })
+    .use(authMiddleware())
+
+    // List customization versions of a CV
+    .get('/api/cv/:id/versions', async ({ params, query, userId, set }) => {
+      try {
+        const owned = await loadOwnedCv(params.id, userId, set)
+        if ('error' in owned) return { success: false, error: owned.error }
+
+        const items = await customCvService.listVersions(params.id, query.jobId)
+        return { success: true, items, total: items.length }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch versions'
+        }
+      }
+    }, {
+      query: t.Object({
+        jobId: t.Optional(t.String())
+      })
+    })
+
+    // Diff two versions of the same CV
+    .get('/api/cv/:id/versions/diff', async ({ params, query, userId, set }) => {
+      try {
+        const owned = await loadOwnedCv(params.id, userId, set)
+        if ('error' in owned) return { success: false, error: owned.error }
+
+        const diff = await customCvService.diffVersions(params.id, query.from, query.to)
+        if (!diff) {
+          set.status = 404
+          return { success: false, error: 'Version not found' }
+        }
+
+        return { success: true, diff }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to diff versions'
+        }
+      }
+    }, {
+      query: t.Object({
+        from: t.String(),
+        to: t.String()
+      })
+    })
+
+    // Get a single version with its full content
+    .get('/api/cv/:id/versions/:versionId', async ({ params, userId, set }) => {
+      try {
+        const owned = await loadOwnedCv(params.id, userId, set)
+        if ('error' in owned) return { success: false, error: owned.error }
+
+        const version = await customCvService.getVersion(params.id, params.versionId)
+        if (!version) {
+          set.status = 404
+          return { success: false, error: 'Version not found' }
+        }
+
+        return { success: true, version }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch version'
+        }
+      }
+    })
+
+    // Pin a version for submission
+    .post('/api/cv/:id/versions/:versionId/pin', async ({ params, userId, set }) => {
+      try {
+        const owned = await loadOwnedCv(params.id, userId, set)
+        if ('error' in owned) return { success: false, error: owned.error }
+
+        const pinned = await customCvService.pinVersion(params.id, params.versionId)
+        if (!pinned) {
+          set.status = 404
+          return { success: false, error: 'Version not found' }
+        }
+
+        logger.info('Custom CV version pinned', {
+          userId,
+          cvId: params.id,
+          versionId: pinned.id,
+          version: pinned.version,
+          jobId: pinned.jobId
+        })
+
+        return { success: true, version: pinned }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to pin version'
+        }
+      }
+    })
+}
@@ -1,13 +1,17 @@
 import { Elysia, t } from 'elysia'
+import { randomUUID } from 'node:crypto'
 import { cvParserService } from '../services/cv-parser.service'
 import { StorageService } from '../services/storage.service'
 import { aiService } from '../services/ai.service'
+import { realtime } from '../services/realtime.service'
+import { normalizeSkills } from '../services/skill-taxonomy.service'
 import { env } from '../config/env'
 import { authMiddleware, optionalAuthMiddleware, checkResourceOwnership } from '../middleware/auth'
+import { aiQuotaGuard } from '../middleware/ai-quota'
 import { validateFileSize, validateFileType } from '../utils/validation'
 import { fetchWithRetry } from '../utils/retry'
 import { logger } from '../utils/logger'
-import type { CVUploadRequest, CVCustomizeRequest, ParsedCV, AuthContext } from '../types'
+import type { CVUploadRequest, CVCustomizeRequest, CustomizationDelta, ParsedCV, AuthContext } from '../types'
 
 const storage = new StorageService()
 
@@ -44,7 +48,7 @@ export function registerCvRoutes() {
           const { realtime } = require('../services/realtime.service') as typeof import('../services/realtime.service')
           realtime.sendToClientId(clientId, { type: 'cv_progress', stage })
         } catch {}
-      })
+      }, userId)
 
       // Persist parsed CV with proper user ownership
       const saved = await storage.createParsedCv({
@@ -94,7 +98,7 @@ export function registerCvRoutes() {
         summary: r?.summary || r?.skills_description,
         experience: Array.isArray(r?.experience) ? r.experience.map((e: any) => `• ${e.position} @ ${e.company}\n${e.description || ''}`).join('\n\n') : (r?.experience || ''),
         education: Array.isArray(r?.education) ? r.education.map((e: any) => `${e.school} — ${e.result || ''}`).join('\n') : (r?.education || ''),
-        skills: Array.isArray(r?.skills) ? r.skills.map((s: any) => (s.name || s).toString()) : [],
+        skills: Array.isArray(r?.skills) ? normalizeSkills(r.skills.map((s: any) => (s.name || s).toString())) : [],
         projects: '',
         fullText: ''
       }
@@ -137,30 +141,43 @@ export function registerCvRoutes() {
     })
     .post('/api/cv/customize', async ({ body, set, userId }) => {
       try {
-        const { cv, jobDescription, model } = body as CVCustomizeRequest
+        const { cv, jobDescription, model, stream, streamId: clientStreamId } = body as CVCustomizeRequest
         if (!cv || !jobDescription) {
           set.status = 400
           return { success: false, error: 'Missing CV or job description' }
         }
 
-        logger.info('CV customization started', { userId, model: model || 'default' })
+        logger.info('CV customization started', { userId, model: model || 'default', stream: !!stream })
+
+        const ai = aiService.withUsage({ userId, feature: 'cv_customization' })
 
         // Extract job skills once and reuse to avoid duplicate AI calls
-        const jobSkills = await aiService.extractJobSkills(jobDescription)
+        const jobSkills = await ai.extractJobSkills(jobDescription)
+
+        // Stream token deltas over /ws when requested, tagged with the id the client chose
+        const streamId = stream ? clientStreamId ?? randomUUID() : undefined
+        const onDelta = streamId
+          ? (event: CustomizationDelta) => realtime.sendCustomizationDelta(userId, streamId, event)
+          : undefined
 
         // Pass pre-extracted skills to customizeCV to prevent redundant extraction
-        const customizedCV = await aiService.customizeCV(cv, jobDescription, model, jobSkills)
-        const coverLetter = await aiService.generateCoverLetter(customizedCV, jobDescription, 'Company', model)
+        const customizedCV = await ai.customizeCV(cv, jobDescription, model, jobSkills, onDelta)
+        if (streamId) {
+          realtime.sendCustomizationComplete(userId, streamId, customizedCV)
+        }
+
+        const coverLetter = await ai.generateCoverLetter(customizedCV, jobDescription, 'Company', model)
 
         logger.info('CV customization completed', { userId, skillsMatched: customizedCV.matchedSkills?.length })
 
-        return { success: true, customizedCV, coverLetter, modelUsed: model || 'anthropic/claude-3.5-sonnet', jobSkills }
+        return { success: true, customizedCV, coverLetter, modelUsed: model || 'anthropic/claude-3.5-sonnet', jobSkills, streamId }
       } catch (error) {
         logger.error('CV customization failed', error as Error, { userId })
         set.status = 500
         return { success: false, error: error instanceof Error ? error.message : 'Customization failed' }
       }
     }, {
+      beforeHandle: aiQuotaGuard('cv_customization'),
       body: t.Object({
         cv: t.Object({
           firstName: t.Optional(t.String()),
@@ -175,7 +192,9 @@ export function registerCvRoutes() {
           projects: t.Optional(t.String())
         }),
         jobDescription: t.String({ minLength: 10 }),
-        model: t.Optional(t.String())
+        model: t.Optional(t.String()),
+        stream: t.Optional(t.Boolean()),
+        streamId: t.Optional(t.String({ maxLength: 100 }))
       })
     })
 }
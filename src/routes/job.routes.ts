@@ -1,43 +1,45 @@
 import { Elysia, t } from 'elysia'
-import { proxyToCore } from '../services/core.proxy'
+import { CoreJobsError, jobStore } from '../services/job-store.service'
+import { jobDedup } from '../services/job-dedup.service'
 import { logger } from '../utils/logger'
 import type { JobSearchRequest } from '../types'
 
 export function registerJobRoutes() {
   return new Elysia({ name: 'job-routes' })
+    // Served from the local job store; Core is asked for searches it has not seen lately
     .post('/api/jobs/search', async ({ body, set }) => {
-      const { text, area, experience, employment, schedule } = body as JobSearchRequest
+      const request = body as JobSearchRequest
 
-      logger.debug('Job search request', { text, area })
+      logger.debug('Job search request', { text: request.text, area: request.area })
 
-      const response = await proxyToCore({
-        path: '/api/jobs/search',
-        method: 'POST',
-        body: { text, area, experience, employment, schedule },
-        retryOptions: {
-          maxRetries: 3,
-          retryableStatuses: [502, 503, 504],
-          onRetry: (attempt, error) => {
-            logger.warn('Retrying job search', { attempt, error: error.message })
-          }
-        }
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
+      try {
+        const { jobs, total, stale } = await jobStore.search(request)
+        return { success: true, jobs, total, ...(stale ? { stale } : {}) }
+      } catch (error) {
+        logger.error('Job search failed', error as Error)
         set.status = 502
-        return { success: false, error: `Phoenix Core error: ${response.status} - ${errorText}`, jobs: [] }
+        return {
+          success: false,
+          error: error instanceof CoreJobsError ? error.message : 'Job search failed',
+          jobs: []
+        }
       }
-
-      const data = await response.json()
-      return { success: true, jobs: data.jobs || [], total: data.jobs?.length || 0 }
     }, {
       body: t.Object({
         text: t.String(),
         area: t.Optional(t.String()),
         experience: t.Optional(t.String()),
         employment: t.Optional(t.String()),
-        schedule: t.Optional(t.String())
+        schedule: t.Optional(t.String()),
+        onlyWithSalary: t.Optional(t.Boolean()),
+        salaryFrom: t.Optional(t.Integer({ minimum: 0 })),
+        salaryTo: t.Optional(t.Integer({ minimum: 0 })),
+        skills: t.Optional(t.Array(t.String())),
+        hasTest: t.Optional(t.Boolean()),
+        publishedWithinDays: t.Optional(t.Integer({ minimum: 1 })),
+        sort: t.Optional(t.Union([t.Literal('relevance'), t.Literal('date'), t.Literal('salary')])),
+        limit: t.Optional(t.Integer({ minimum: 1, maximum: 100 })),
+        offset: t.Optional(t.Integer({ minimum: 0 }))
       })
     })
     .get('/api/jobs/:id', async ({ params, set }) => {
@@ -45,27 +47,31 @@ export function registerJobRoutes() {
 
       logger.debug('Fetching job details', { jobId: id })
 
-      const response = await proxyToCore({
-        path: `/api/jobs/${encodeURIComponent(id)}`,
-        method: 'GET',
-        retryOptions: {
-          maxRetries: 3,
-          retryableStatuses: [502, 503, 504],
-          onRetry: (attempt, error) => {
-            logger.warn('Retrying job fetch', { attempt, jobId: id, error: error.message })
-          }
+      try {
+        const job = await jobStore.findJob(id)
+        if (!job) {
+          set.status = 404
+          return { success: false, error: 'Job not found' }
         }
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        set.status = response.status === 404 ? 404 : 502
-        return { success: false, error: `Phoenix Core error: ${response.status} - ${errorText}` }
+        return { success: true, job }
+      } catch (error) {
+        set.status = error instanceof CoreJobsError ? error.status : 502
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to fetch job' }
       }
+    })
 
-      const data = await response.json()
-      return { success: true, job: data.job }
+    // Stored jobs of the same vacancy (reposts, other boards), canonical first
+    .get('/api/jobs/:id/duplicates', async ({ params, set }) => {
+      try {
+        const jobs = await jobDedup.duplicatesOf(params.id)
+        if (!jobs) {
+          set.status = 404
+          return { success: false, error: 'Job not found' }
+        }
+        return { success: true, canonicalJobId: jobs[0].canonicalJobId ?? jobs[0].id, jobs }
+      } catch (error) {
+        set.status = 500
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to fetch duplicates' }
+      }
     })
 }
-
-
@@ -1,5 +1,5 @@
 import { Elysia, t } from 'elysia'
-import { QueueService } from '../services/queue.service'
+import { CvNotFoundError, QueueService, WorkflowNotFoundError } from '../services/queue.service'
 import { db } from '../db/client'
 import { authMiddleware } from '../middleware/auth'
 
@@ -11,18 +11,19 @@ export function registerQueueRoutes() {
 
     // Add jobs to queue
     .post('/api/queue/add', async ({ body, userId, set }) => {
-      const { cvId, jobIds } = body
+      const { cvId, jobIds, reapply } = body
 
       try {
-        const result = await queueService.addJobsToQueue(userId, cvId, jobIds)
+        const result = await queueService.addJobsToQueue(userId, cvId, jobIds, { reapply })
         return {
           success: true,
           workflowId: result.workflowId,
           queuedCount: result.queuedCount,
+          skipped: result.skipped,
           message: `${result.queuedCount} jobs added to queue`
         }
       } catch (error) {
-        set.status = 500
+        set.status = error instanceof CvNotFoundError ? 404 : 500
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to add jobs to queue'
@@ -30,8 +31,9 @@ export function registerQueueRoutes() {
       }
     }, {
       body: t.Object({
-        cvId: t.String(),
-        jobIds: t.Array(t.String())
+        cvId: t.String({ format: 'uuid' }),
+        jobIds: t.Array(t.String()),
+        reapply: t.Optional(t.Boolean()) // Queue jobs applied to or queued before
       })
     })
 
@@ -61,9 +63,15 @@ export function registerQueueRoutes() {
     })
 
     // Remove from queue
-    .delete('/api/queue/:id', async ({ params, set }) => {
+    .delete('/api/queue/:id', async ({ params, userId, set }) => {
       try {
-        await queueService.removeFromQueue(params.id)
+        const removed = await queueService.removeFromQueue(userId, params.id)
+        if (!removed) {
+          set.status = 404
+          return { success: false, error: 'Queue item not found' }
+        }
+
+        await queueService.publishWorkflowProgress(removed.workflowId, userId)
         return {
           success: true,
           message: 'Item removed from queue'
@@ -77,12 +85,125 @@ export function registerQueueRoutes() {
       }
     })
 
+    // Workflow progress
+    .get('/api/queue/workflow/:workflowId', async ({ params, userId, set }) => {
+      try {
+        const progress = await queueService.getWorkflowProgress(params.workflowId, userId)
+        if (!progress) {
+          set.status = 404
+          return { success: false, error: 'Workflow not found' }
+        }
+        return { success: true, progress }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch workflow'
+        }
+      }
+    })
+
+    // Pause workflow
+    .post('/api/queue/workflow/:workflowId/pause', async ({ params, userId, set }) => {
+      try {
+        const result = await queueService.pauseWorkflow(params.workflowId, userId)
+        const progress = await queueService.publishWorkflowProgress(params.workflowId, userId)
+        return {
+          success: true,
+          affected: result.affected,
+          progress,
+          message: `${result.affected} items paused`
+        }
+      } catch (error) {
+        set.status = error instanceof WorkflowNotFoundError ? 404 : 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to pause workflow'
+        }
+      }
+    })
+
+    // Resume workflow
+    .post('/api/queue/workflow/:workflowId/resume', async ({ params, userId, set }) => {
+      try {
+        const result = await queueService.resumeWorkflow(params.workflowId, userId)
+        const progress = await queueService.publishWorkflowProgress(params.workflowId, userId)
+        return {
+          success: true,
+          affected: result.affected,
+          progress,
+          message: `${result.affected} items resumed`
+        }
+      } catch (error) {
+        set.status = error instanceof WorkflowNotFoundError ? 404 : 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to resume workflow'
+        }
+      }
+    })
+
+    // Cancel workflow
+    .post('/api/queue/workflow/:workflowId/cancel', async ({ params, userId, set }) => {
+      try {
+        const result = await queueService.cancelWorkflow(params.workflowId, userId)
+        const progress = await queueService.publishWorkflowProgress(params.workflowId, userId)
+        return {
+          success: true,
+          affected: result.affected,
+          progress,
+          message: `${result.affected} items cancelled`
+        }
+      } catch (error) {
+        set.status = error instanceof WorkflowNotFoundError ? 404 : 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to cancel workflow'
+        }
+      }
+    })
+
+    // Change workflow priority and/or order its items
+    .put('/api/queue/workflow/:workflowId/priority', async ({ params, body, userId, set }) => {
+      if (body.priority === undefined && !body.itemIds?.length) {
+        set.status = 400
+        return { success: false, error: 'Provide priority and/or itemIds' }
+      }
+
+      try {
+        const result = await queueService.reprioritizeWorkflow(params.workflowId, userId, body)
+        if (result.unknownItemIds.length > 0) {
+          set.status = 400
+          return { success: false, error: `Items not in workflow: ${result.unknownItemIds.join(', ')}` }
+        }
+
+        const progress = await queueService.publishWorkflowProgress(params.workflowId, userId)
+        return {
+          success: true,
+          affected: result.affected,
+          progress
+        }
+      } catch (error) {
+        set.status = error instanceof WorkflowNotFoundError ? 404 : 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reprioritize workflow'
+        }
+      }
+    }, {
+      body: t.Object({
+        priority: t.Optional(t.Integer()),
+        itemIds: t.Optional(t.Array(t.String()))
+      })
+    })
+
     // Batch customize all jobs in queue
     .post('/api/queue/batch-customize', async ({ body, userId, set }) => {
       const { workflowId } = body
 
       try {
         const result = await queueService.startBatchCustomize(workflowId, userId)
+        await queueService.publishWorkflowProgress(workflowId, userId)
         return {
           success: true,
           workflowId: result.workflowId,
@@ -108,6 +229,7 @@ export function registerQueueRoutes() {
 
       try {
         const result = await queueService.startAutoApply(workflowId, userId)
+        await queueService.publishWorkflowProgress(workflowId, userId)
         return {
           success: true,
           workflowId: result.workflowId,
@@ -115,7 +237,7 @@ export function registerQueueRoutes() {
           estimatedCompletion: result.estimatedCompletion
         }
       } catch (error) {
-        set.status = 500
+        set.status = error instanceof CvNotFoundError ? 404 : 500
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to start workflow'
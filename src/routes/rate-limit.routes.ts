@@ -1,14 +1,17 @@
 import { Elysia, t } from 'elysia'
 import { env } from '../config/env'
 import { authMiddleware } from '../middleware/auth'
+import { aiQuotaService } from '../services/ai-quota.service'
 
 export function registerRateLimitRoutes() {
   return new Elysia({ name: 'rate-limit-routes' })
     .use(authMiddleware())
 
-    // Get rate limit status from Core
+    // Get rate limit status from Core, with the user's daily AI quota
     .get('/api/rate-limit/status', async ({ userId, set }) => {
       try {
+        const aiQuota = await aiQuotaService.getState(userId)
+
         const response = await fetch(`${env.CORE_URL}/api/rate-limit/status?user_id=${userId}`, {
           headers: {
             'X-Core-Secret': env.ORCHESTRATOR_SECRET
@@ -22,7 +25,8 @@ export function registerRateLimitRoutes() {
         const data = await response.json()
         return {
           success: true,
-          rateLimit: data
+          rateLimit: data,
+          aiQuota
         }
       } catch (error) {
         set.status = 500
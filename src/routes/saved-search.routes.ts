@@ -0,0 +1,129 @@
+import { Elysia, t } from 'elysia'
+import { SavedSearchLimitError, savedSearchService } from '../services/saved-search.service'
+import { authMiddleware } from '../middleware/auth'
+import type { SavedSearchInput } from '../types'
+
+const savedSearchBody = {
+  name: t.Optional(t.String({ maxLength: 255 })),
+  text: t.Optional(t.String()),
+  area: t.Optional(t.String()),
+  experience: t.Optional(t.String()),
+  employment: t.Optional(t.String()),
+  schedule: t.Optional(t.String()),
+  salaryFrom: t.Optional(t.Integer({ minimum: 0 })),
+  salaryTo: t.Optional(t.Integer({ minimum: 0 })),
+  skills: t.Optional(t.Array(t.String())),
+  alertsEnabled: t.Optional(t.Boolean())
+}
+
+const idParams = t.Object({ id: t.String({ format: 'uuid' }) })
+
+export function registerSavedSearchRoutes() {
+  return new Elysia({ name: 'saved-search-routes' })
+    .use(authMiddleware())
+
+    .get('/api/saved-searches', async ({ userId, set }) => {
+      try {
+        const searches = await savedSearchService.list(userId)
+        return { success: true, searches }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch saved searches'
+        }
+      }
+    })
+
+    .post('/api/saved-searches', async ({ body, userId, set }) => {
+      try {
+        const search = await savedSearchService.create(userId, body as SavedSearchInput)
+        return { success: true, search }
+      } catch (error) {
+        set.status = error instanceof SavedSearchLimitError ? 409 : 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save search'
+        }
+      }
+    }, {
+      body: t.Object(savedSearchBody)
+    })
+
+    .patch('/api/saved-searches/:id', async ({ params, body, userId, set }) => {
+      try {
+        const search = await savedSearchService.update(userId, params.id, body as SavedSearchInput)
+        if (!search) {
+          set.status = 404
+          return { success: false, error: 'Saved search not found' }
+        }
+        return { success: true, search }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update saved search'
+        }
+      }
+    }, {
+      params: idParams,
+      body: t.Object(savedSearchBody)
+    })
+
+    .delete('/api/saved-searches/:id', async ({ params, userId, set }) => {
+      try {
+        if (!await savedSearchService.remove(userId, params.id)) {
+          set.status = 404
+          return { success: false, error: 'Saved search not found' }
+        }
+        return { success: true, message: 'Saved search removed' }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to remove saved search'
+        }
+      }
+    }, {
+      params: idParams
+    })
+
+    // Matches not pushed over /ws yet (all=true: delivered ones too)
+    .get('/api/saved-searches/inbox', async ({ query, userId, set }) => {
+      const limit = Math.min(Math.max(parseInt(query.limit ?? '50') || 50, 1), 100)
+
+      try {
+        const matches = await savedSearchService.inbox(userId, { pending: query.all !== 'true', limit })
+        return { success: true, matches, total: matches.length }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch inbox'
+        }
+      }
+    }, {
+      query: t.Object({
+        all: t.Optional(t.String()),
+        limit: t.Optional(t.String())
+      })
+    })
+
+    // Mark matches as seen; all pending ones without ids
+    .post('/api/saved-searches/inbox/ack', async ({ body, userId, set }) => {
+      try {
+        const acknowledged = await savedSearchService.acknowledge(userId, body.ids)
+        return { success: true, acknowledged }
+      } catch (error) {
+        set.status = 500
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to acknowledge matches'
+        }
+      }
+    }, {
+      body: t.Object({
+        ids: t.Optional(t.Array(t.String({ format: 'uuid' })))
+      })
+    })
+}
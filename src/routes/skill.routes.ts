@@ -0,0 +1,27 @@
+import { Elysia, t } from 'elysia'
+import { autocompleteSkills, lookupSkill, normalizeSkill } from '../services/skill-taxonomy.service'
+
+export function registerSkillRoutes() {
+  return new Elysia({ name: 'skill-routes' })
+    // Skill names for as-you-type inputs, best matches first
+    .get('/api/skills/autocomplete', ({ query }) => {
+      const { q, limit = '10' } = query
+      return { success: true, skills: autocompleteSkills(q, Math.min(Math.max(parseInt(limit) || 10, 1), 50)) }
+    }, {
+      query: t.Object({
+        q: t.String(),
+        limit: t.Optional(t.String())
+      })
+    })
+    // Canonical entry of a skill under any of its names
+    .get('/api/skills/lookup', ({ query, set }) => {
+      const skill = lookupSkill(query.name)
+      if (!skill) {
+        set.status = 404
+        return { success: false, error: 'Skill not found', name: normalizeSkill(query.name) }
+      }
+      return { success: true, skill }
+    }, {
+      query: t.Object({ name: t.String({ minLength: 1 }) })
+    })
+}
@@ -1,6 +1,9 @@
 import { Elysia, t } from 'elysia'
 import { env } from '../config/env'
 import { realtime } from '../services/realtime.service'
+import { userService } from '../services/user.service'
+import { jobStore } from '../services/job-store.service'
+import { savedSearchService } from '../services/saved-search.service'
 import { validateSession, extractSessionCookie } from '../middleware/session'
 import { logger } from '../utils/logger'
 
@@ -22,43 +25,57 @@ export function registerWsRoutes() {
         }
 
         // Store user ID in WebSocket data for later use
-        ws.data.userId = validation.session.id
+        const userId = await userService.resolveSessionUser(validation.session)
+        ws.data.userId = userId
         ws.data.sessionId = validation.session.id
 
         wsClients.add(ws.raw)
-        logger.info('WebSocket connection authenticated', { userId: validation.session.id })
+        logger.info('WebSocket connection authenticated', { userId, sessionId: validation.session.id })
 
         try {
           ws.send(JSON.stringify({
             type: 'connected',
             message: 'Ready to receive job updates',
-            userId: validation.session.id
+            userId
           }))
         } catch (error) {
           logger.error('Failed to send welcome message', error as Error)
         }
       },
-      message(ws, message) {
+      async message(ws, message) {
+        const userId = (ws.data as { userId?: string }).userId as string
         try {
-          const data = JSON.parse(String(message)) as { type?: string; searchParams?: any; clientId?: string }
+          const data = JSON.parse(String(message)) as { type?: string; searchParams?: any; clientId?: string; savedSearchId?: string }
           if (data.type === 'register' && data.clientId) {
             // Register client with userId for targeted messages
-            realtime.registerClient(data.clientId, ws.raw, ws.data.userId)
+            realtime.registerClient(data.clientId, ws.raw, userId)
             ws.send(JSON.stringify({ type: 'registered', clientId: data.clientId }))
+            // Saved search matches that arrived while the user was away
+            await savedSearchService.deliverInbox(userId)
           } else if (data.type === 'subscribe' && data.searchParams) {
-            ws.send(JSON.stringify({ type: 'subscribed', searchParams: data.searchParams }))
+            const savedSearch = await savedSearchService.create(userId, data.searchParams)
+            ws.send(JSON.stringify({ type: 'subscribed', searchParams: data.searchParams, savedSearch }))
+          } else if (data.type === 'unsubscribe' && data.savedSearchId) {
+            const removed = await savedSearchService.remove(userId, data.savedSearchId)
+            ws.send(JSON.stringify({ type: 'unsubscribed', savedSearchId: data.savedSearchId, removed }))
           } else if (data.type === 'ping') {
             ws.send(JSON.stringify({ type: 'pong', timestamp: new Date().toISOString() }))
           } else {
             ws.send(JSON.stringify({ type: 'echo', message }))
           }
-        } catch {}
+        } catch (error) {
+          if (error instanceof SyntaxError) return
+          logger.warn('WebSocket message failed', { userId, error: (error as Error).message })
+          try {
+            ws.send(JSON.stringify({ type: 'error', message: (error as Error).message }))
+          } catch {}
+        }
       },
       close(ws) {
         realtime.unregisterBySocket(ws.raw)
       }
     })
-    .post('/api/v1/jobs/broadcast', ({ headers, body, set }) => {
+    .post('/api/v1/jobs/broadcast', async ({ headers, body, set }) => {
       const secret = (headers['x-core-secret'] ?? headers['x-orchestrator-secret']) as string | undefined
       if (!secret || secret !== env.ORCHESTRATOR_SECRET) {
         set.status = 401
@@ -68,8 +85,16 @@ export function registerWsRoutes() {
       const data = body as { jobs?: any[]; stats?: any }
       const jobs = data.jobs ?? []
 
-      realtime.broadcast({ type: 'new_jobs', jobs, stats: data.stats })
-      return { ok: true }
+      // New jobs are stored, then pushed only to the users whose saved searches they match
+      try {
+        const stored = await jobStore.upsertJobs(jobs)
+        savedSearchService.matchJobsLater(stored.map(job => job.externalId))
+        return { ok: true, stored: stored.length }
+      } catch (error) {
+        logger.error('Failed to store broadcast jobs', error as Error, { count: jobs.length })
+        set.status = 500
+        return { ok: false, error: 'Failed to process broadcast' }
+      }
     }, {
       body: t.Object({
         jobs: t.Array(t.Object({
@@ -81,7 +106,12 @@ export function registerWsRoutes() {
           area: t.Optional(t.String()),
           url: t.Optional(t.String()),
           description: t.Optional(t.String()),
-          source: t.Optional(t.String())
+          source: t.Optional(t.String()),
+          hhVacancyId: t.Optional(t.String()),
+          employerId: t.Optional(t.String()),
+          skills: t.Optional(t.Array(t.String())),
+          hasTest: t.Optional(t.Boolean()),
+          publishedAt: t.Optional(t.String())
         }), { default: [] }),
         stats: t.Optional(t.Record(t.String(), t.Unknown()))
       })
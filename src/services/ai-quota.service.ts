@@ -0,0 +1,126 @@
+/**
+ * Per-user daily AI quotas by model calls and tokens, counted from ai_usage
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { aiUsage, users } from '../db/schema'
+import { and, eq, gte, sql } from 'drizzle-orm'
+import { env } from '../config/env'
+import type { AIFeature, AIQuotaCheck, AIQuotaCounter, AIQuotaState } from '../types'
+
+export interface AIQuotaLimits {
+  requests: number // 0 = unlimited
+  tokens: number // 0 = unlimited
+}
+
+/**
+ * Expected model calls and tokens of one request to a feature, so fan-out
+ * features are refused before they start rather than half-way through
+ */
+export const FEATURE_ESTIMATES: Record<AIFeature, { requests: number; tokens: number }> = {
+  cv_customization: { requests: 3, tokens: 12000 },
+  multistage_customization: { requests: 8, tokens: 25000 },
+  cover_letter_variations: { requests: 5, tokens: 8000 },
+  skills_consensus: { requests: 3, tokens: 6000 },
+  interview_preparation: { requests: 3, tokens: 14000 },
+  culture_analysis: { requests: 1, tokens: 4000 },
+  realtime_suggestions: { requests: 1, tokens: 2000 },
+  queue_customization: { requests: 2, tokens: 10000 },
+  other: { requests: 1, tokens: 2000 }
+}
+
+/**
+ * Start of the next UTC day, when daily quotas reset
+ */
+export function nextQuotaReset(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+}
+
+function counter(used: number, limit: number): AIQuotaCounter {
+  return limit > 0
+    ? { used, limit, remaining: Math.max(limit - used, 0) }
+    : { used, limit: null, remaining: null }
+}
+
+/**
+ * Decide whether a request with the given estimate fits in today's quota
+ */
+export function evaluateQuota(
+  used: { requests: number; tokens: number },
+  limits: AIQuotaLimits,
+  estimate: { requests: number; tokens: number } = { requests: 0, tokens: 0 },
+  now: Date = new Date()
+): AIQuotaCheck {
+  const resetsAt = nextQuotaReset(now)
+  const state: AIQuotaState = {
+    requests: counter(used.requests, limits.requests),
+    tokens: counter(used.tokens, limits.tokens),
+    resetsAt: resetsAt.toISOString()
+  }
+
+  const exceeded = limits.requests > 0 && used.requests + estimate.requests > limits.requests
+    ? 'requests'
+    : limits.tokens > 0 && used.tokens + estimate.tokens > limits.tokens
+      ? 'tokens'
+      : null
+
+  if (!exceeded) return { allowed: true, state }
+
+  return {
+    allowed: false,
+    state,
+    exceeded,
+    retryAfterSeconds: Math.max(Math.ceil((resetsAt.getTime() - now.getTime()) / 1000), 1)
+  }
+}
+
+export class AIQuotaService {
+  constructor(private db: DB) {}
+
+  /**
+   * Check the user's quota for one request to a feature
+   */
+  async check(userId: string, feature: AIFeature): Promise<AIQuotaCheck> {
+    const [used, limits] = await Promise.all([this.getUsedToday(userId), this.getLimits(userId)])
+    return evaluateQuota(used, limits, FEATURE_ESTIMATES[feature])
+  }
+
+  /**
+   * Today's usage and limits of the user
+   */
+  async getState(userId: string): Promise<AIQuotaState> {
+    const [used, limits] = await Promise.all([this.getUsedToday(userId), this.getLimits(userId)])
+    return evaluateQuota(used, limits).state
+  }
+
+  private async getLimits(userId: string): Promise<AIQuotaLimits> {
+    const [user] = await this.db
+      .select({ requests: users.aiDailyRequestLimit, tokens: users.aiDailyTokenBudget })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+
+    return {
+      requests: user?.requests ?? env.AI_DAILY_REQUEST_LIMIT,
+      tokens: user?.tokens ?? env.AI_DAILY_TOKEN_BUDGET
+    }
+  }
+
+  private async getUsedToday(userId: string) {
+    const now = new Date()
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+
+    const [row] = await this.db
+      .select({
+        requests: sql<number>`count(*)::int`,
+        tokens: sql<number>`coalesce(sum(${aiUsage.totalTokens}), 0)::int`
+      })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, startOfDay)))
+
+    return { requests: row?.requests ?? 0, tokens: row?.tokens ?? 0 }
+  }
+}
+
+export const aiQuotaService = new AIQuotaService(db)
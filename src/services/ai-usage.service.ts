@@ -0,0 +1,194 @@
+/**
+ * Token usage and cost accounting for AI calls
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { aiUsage } from '../db/schema'
+import { and, eq, gte, sql } from 'drizzle-orm'
+import { cache } from './cache.service'
+import { OpenRouterService } from './openrouter.service'
+import { logger } from '../utils/logger'
+import type { AIFeature, AIUsageDay, AIUsageTotals, LLMUsage } from '../types'
+
+const PRICING_CACHE_KEY = 'ai:model-pricing'
+const PRICING_TTL_MS = 60 * 60 * 1000
+const PRICING_RETRY_MS = 5 * 60 * 1000
+
+export interface AIUsageEntry {
+  userId: string | null
+  feature: AIFeature
+  model: string
+  usage?: LLMUsage
+  latencyMs: number
+  success: boolean
+  output?: { schema: string; valid: boolean } // schema validation of the output, when it was checked
+  prompt?: { template: string; version: string } // prompt template the call was rendered from
+}
+
+/**
+ * Usage of one day, feature and model as aggregated in SQL
+ */
+export interface AIUsageRow extends AIUsageTotals {
+  date: string
+  feature: string
+  model: string
+}
+
+/**
+ * Estimate the cost of a call from OpenRouter pricing (USD per token, as strings)
+ *
+ * @returns Cost in USD, or null when the model has no usable pricing
+ */
+export function estimateCost(usage: LLMUsage, pricing?: Record<string, string>): number | null {
+  if (!pricing) return null
+
+  const promptPrice = Number(pricing.prompt)
+  const completionPrice = Number(pricing.completion)
+  if (!Number.isFinite(promptPrice) || !Number.isFinite(completionPrice)) return null
+
+  return usage.promptTokens * promptPrice + usage.completionTokens * completionPrice
+}
+
+function emptyTotals(): AIUsageTotals {
+  return {
+    requests: 0,
+    failedRequests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    validatedOutputs: 0,
+    invalidOutputs: 0
+  }
+}
+
+function addTotals(target: AIUsageTotals, row: AIUsageTotals) {
+  target.requests += row.requests
+  target.failedRequests += row.failedRequests
+  target.promptTokens += row.promptTokens
+  target.completionTokens += row.completionTokens
+  target.totalTokens += row.totalTokens
+  target.costUsd += row.costUsd
+  target.validatedOutputs += row.validatedOutputs
+  target.invalidOutputs += row.invalidOutputs
+}
+
+/**
+ * Fold per day/feature/model rows into daily rollups, oldest day first
+ */
+export function rollupDailyUsage(rows: AIUsageRow[]): { days: AIUsageDay[]; totals: AIUsageTotals } {
+  const days = new Map<string, AIUsageDay>()
+  const totals = emptyTotals()
+
+  for (const row of rows) {
+    let day = days.get(row.date)
+    if (!day) {
+      day = { date: row.date, ...emptyTotals(), features: {}, models: {} }
+      days.set(row.date, day)
+    }
+
+    addTotals(day, row)
+    addTotals(day.features[row.feature] ??= emptyTotals(), row)
+    addTotals(day.models[row.model] ??= emptyTotals(), row)
+    addTotals(totals, row)
+  }
+
+  return {
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    totals
+  }
+}
+
+export class AIUsageService {
+  constructor(private db: DB, private openRouter: OpenRouterService = new OpenRouterService()) {}
+
+  /**
+   * Store one AI call. Never throws: accounting must not fail the call it describes.
+   */
+  async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      const usage = entry.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      const pricing = await this.getPricing()
+      const cost = estimateCost(usage, pricing[entry.model])
+
+      await this.db.insert(aiUsage).values({
+        userId: entry.userId,
+        feature: entry.feature,
+        model: entry.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        costUsd: cost === null ? null : cost.toFixed(6),
+        latencyMs: Math.round(entry.latencyMs),
+        success: entry.success,
+        outputSchema: entry.output?.schema ?? null,
+        outputValid: entry.output?.valid ?? null,
+        promptTemplate: entry.prompt?.template ?? null,
+        promptVersion: entry.prompt?.version ?? null
+      })
+    } catch (error) {
+      logger.warn('Failed to record AI usage', {
+        userId: entry.userId,
+        feature: entry.feature,
+        model: entry.model,
+        error: (error as Error).message
+      })
+    }
+  }
+
+  /**
+   * Daily usage of a user over the last days (UTC), including today
+   */
+  async getDailyUsage(userId: string, days: number = 30) {
+    const since = new Date()
+    since.setUTCHours(0, 0, 0, 0)
+    since.setUTCDate(since.getUTCDate() - (days - 1))
+
+    const rows = await this.db
+      .select({
+        date: sql<string>`to_char(${aiUsage.createdAt}, 'YYYY-MM-DD')`,
+        feature: aiUsage.feature,
+        model: aiUsage.model,
+        requests: sql<number>`count(*)::int`,
+        failedRequests: sql<number>`(count(*) filter (where not ${aiUsage.success}))::int`,
+        promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)::int`,
+        completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)::int`,
+        totalTokens: sql<number>`coalesce(sum(${aiUsage.totalTokens}), 0)::int`,
+        costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)::float8`,
+        validatedOutputs: sql<number>`count(${aiUsage.outputValid})::int`,
+        invalidOutputs: sql<number>`(count(*) filter (where ${aiUsage.outputValid} = false))::int`
+      })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)))
+      .groupBy(sql`1`, aiUsage.feature, aiUsage.model)
+
+    return { since: since.toISOString(), ...rollupDailyUsage(rows) }
+  }
+
+  /**
+   * Pricing of every known model by id, cached for an hour
+   */
+  private async getPricing(): Promise<Record<string, Record<string, string>>> {
+    const cached = await cache.get<Record<string, Record<string, string>>>(PRICING_CACHE_KEY)
+    if (cached) return cached
+
+    try {
+      const models = await this.openRouter.getAvailableModels()
+      const pricing: Record<string, Record<string, string>> = {}
+      for (const model of models) {
+        if (model.pricing) pricing[model.id] = model.pricing
+      }
+
+      await cache.set(PRICING_CACHE_KEY, pricing, PRICING_TTL_MS)
+      return pricing
+    } catch (error) {
+      logger.warn('Failed to load model pricing', { error: (error as Error).message })
+      // Calls are recorded without cost until pricing can be loaded again
+      await cache.set(PRICING_CACHE_KEY, {}, PRICING_RETRY_MS)
+      return {}
+    }
+  }
+}
+
+export const aiUsageService = new AIUsageService(db)
@@ -0,0 +1,159 @@
+/**
+ * Runtime schemas of the JSON results requested from models.
+ * Harmless variations (null for missing text, a comma-separated string for a
+ * list, numbers as strings) are normalized; anything else fails validation.
+ */
+
+import { z } from 'zod'
+import type { AISchema } from '../utils/structured-output'
+import type {
+  AIJobSuggestion,
+  CultureAnalysis,
+  CustomizedCV,
+  CVAnalysisStage,
+  CVValidationStage,
+  InterviewPreparation,
+  JobSkills,
+  ParsedCV
+} from '../types'
+
+// Missing text may come back as null; line lists are joined
+const text = z.preprocess(
+  value => Array.isArray(value) && value.every(item => typeof item === 'string') ? value.join('\n') : value,
+  z.string().nullish().transform(value => value ?? undefined)
+)
+
+const stringList = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value ?? [],
+  z.array(z.string())
+)
+
+const score = z.coerce.number().min(0).max(100)
+
+const cvFields = {
+  firstName: text,
+  lastName: text,
+  email: text,
+  phone: text,
+  title: text,
+  summary: text,
+  experience: text,
+  education: text,
+  skills: stringList,
+  projects: text
+}
+
+export const parsedCVSchema: AISchema<ParsedCV> = {
+  name: 'parsed_cv',
+  schema: z.object(cvFields)
+}
+
+export const customizedCVSchema: AISchema<CustomizedCV> = {
+  name: 'customized_cv',
+  schema: z.object({
+    ...cvFields,
+    matchedSkills: stringList,
+    addedKeywords: stringList
+  })
+}
+
+export const jobSkillsSchema: AISchema<JobSkills> = {
+  name: 'job_skills',
+  schema: z.object({
+    required: stringList,
+    preferred: stringList,
+    tools: stringList,
+    frameworks: stringList,
+    categories: z.preprocess(value => value ?? {}, z.record(stringList))
+  })
+}
+
+export const cvAnalysisSchema: AISchema<CVAnalysisStage> = {
+  name: 'cv_analysis',
+  schema: z.object({
+    strengths: stringList,
+    weaknesses: stringList,
+    relevanceScore: score,
+    missingKeywords: stringList,
+    suggestions: stringList
+  })
+}
+
+export const cvValidationSchema: AISchema<CVValidationStage> = {
+  name: 'cv_validation',
+  schema: z.object({
+    isValid: z.boolean(),
+    errors: stringList,
+    warnings: stringList,
+    qualityScore: score
+  })
+}
+
+const starResponse = z.object({
+  situation: z.string(),
+  task: z.string(),
+  action: z.string(),
+  result: z.string(),
+  fullResponse: z.string()
+})
+
+export const interviewPreparationSchema: AISchema<InterviewPreparation> = {
+  name: 'interview_preparation',
+  schema: z.object({
+    commonQuestions: z.array(z.object({
+      question: z.string(),
+      starResponse,
+      tips: stringList
+    })),
+    technicalQuestions: z.array(z.object({
+      topic: z.string(),
+      question: z.string(),
+      answer: z.string(),
+      followUp: stringList
+    })),
+    behavioralQuestions: z.array(z.object({
+      question: z.string(),
+      starResponse
+    })),
+    companySpecificQuestions: stringList
+  })
+}
+
+const cultureAspect = z.object({
+  score,
+  indicators: stringList
+})
+
+export const cultureAnalysisSchema: AISchema<CultureAnalysis> = {
+  name: 'culture_analysis',
+  schema: z.object({
+    overallScore: score,
+    positiveSignals: stringList,
+    redFlags: z.array(z.object({
+      category: z.enum(['work-life-balance', 'management', 'compensation', 'growth', 'values', 'stability']),
+      severity: z.enum(['low', 'medium', 'high', 'critical']),
+      indicator: z.string(),
+      explanation: z.string(),
+      evidence: z.string()
+    })),
+    workLifeBalance: cultureAspect,
+    growthOpportunities: cultureAspect,
+    managementQuality: cultureAspect,
+    compensationFairness: cultureAspect,
+    recommendation: z.enum(['strongly-recommended', 'recommended', 'proceed-with-caution', 'not-recommended']),
+    reasoning: z.string()
+  })
+}
+
+export const realtimeSuggestionsSchema: AISchema<{ suggestions: AIJobSuggestion[] }> = {
+  name: 'realtime_suggestions',
+  schema: z.object({
+    suggestions: z.array(z.object({
+      type: z.enum(['cv-improvement', 'cover-letter-tip', 'skill-highlight', 'application-timing', 'follow-up']),
+      priority: z.enum(['high', 'medium', 'low']),
+      message: z.string(),
+      actionable: z.boolean(),
+      action: text
+    }))
+  })
+}
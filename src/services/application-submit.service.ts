@@ -0,0 +1,162 @@
+/**
+ * Application submission to HH.ru through Core.
+ * Shared by the submit route and the queue worker.
+ */
+
+import { proxyToCore } from './core.proxy'
+import { validateEmail, validateRussianPhone } from '../utils/validation'
+import { logger } from '../utils/logger'
+import type { CustomizedCV, ApplicationSubmitResult } from '../types'
+
+const REJECTION_MESSAGES: Record<string, string> = {
+  missing_email: 'Your CV is missing an email address. Please add one before submitting.',
+  missing_phone: 'Your CV is missing a phone number. Please add one before submitting.',
+  missing_resume_id: 'We could not determine a resume to submit. Please try again.',
+  resume_not_available: 'Your HH resume is not available to apply. Please publish and verify it on HH (phone verification may be required), then retry.'
+}
+
+export interface SubmitApplicationInput {
+  userId: string
+  jobExternalId: string
+  customizedCV: CustomizedCV
+  coverLetter: string
+  token: string // Core JWT of the user's session
+  sessionId: string
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * Check the CV contact details Core needs to apply
+ *
+ * @returns The failed submission result, or null when they are valid
+ */
+export function validateContactDetails(customizedCV: CustomizedCV): Extract<ApplicationSubmitResult, { success: false }> | null {
+  // Validate email
+  const email = typeof customizedCV.email === 'string' ? customizedCV.email : ''
+  const emailValidation = validateEmail(email)
+  if (!emailValidation.valid) {
+    return { success: false, status: 400, error: emailValidation.error || 'Invalid email address', retryable: false }
+  }
+
+  // Validate phone number
+  const phone = typeof customizedCV.phone === 'string' ? customizedCV.phone : ''
+  const phoneValidation = validateRussianPhone(phone)
+  if (!phoneValidation.valid) {
+    return { success: false, status: 400, error: phoneValidation.error || 'Invalid phone number', retryable: false }
+  }
+  return null
+}
+
+/**
+ * Validate the CV contact details and submit the application via Core
+ */
+export async function submitApplication(input: SubmitApplicationInput): Promise<ApplicationSubmitResult> {
+  const { userId, jobExternalId, customizedCV, coverLetter } = input
+
+  const invalid = validateContactDetails(customizedCV)
+  if (invalid) return invalid
+
+  // Sanitize CV: use formatted phone, drop blank hh_resume_id to avoid short-circuiting with empty id in Core
+  const sanitizedCV = { ...customizedCV } as CustomizedCV & { hh_resume_id?: string }
+  const { formatted } = validateRussianPhone(String(customizedCV.phone))
+  if (formatted) {
+    sanitizedCV.phone = formatted
+  }
+  if (typeof sanitizedCV.hh_resume_id === 'string' && sanitizedCV.hh_resume_id.trim() === '') {
+    delete sanitizedCV.hh_resume_id
+  }
+
+  try {
+    const response = await proxyToCore({
+      path: '/api/applications/submit',
+      method: 'POST',
+      body: {
+        job_external_id: jobExternalId,
+        customized_cv: sanitizedCV,
+        cover_letter: coverLetter
+      },
+      token: input.token,
+      sessionId: input.sessionId,
+      retryOptions: {
+        maxRetries: 2,
+        retryableStatuses: [502, 503, 504],
+        onRetry: (attempt, error) => {
+          logger.warn('Retrying application submission', { attempt, userId, jobExternalId, error: error.message })
+        }
+      }
+    })
+
+    if (!response.ok) {
+      let errorPayload: any = null
+      try {
+        errorPayload = await response.json()
+      } catch {
+        errorPayload = await response.text()
+      }
+      const errorString = typeof errorPayload === 'string' ? errorPayload : errorPayload?.error
+
+      if (response.status === 422 && errorString) {
+        const normalized = String(errorString).replace(/^:/, '')
+
+        // Special-case HH bad_arguments to surface description when available
+        if (normalized === 'bad_arguments') {
+          const description = typeof errorPayload?.details?.description === 'string'
+            ? errorPayload.details.description
+            : undefined
+          logger.warn('HH.ru rejected application', { userId, jobExternalId, reason: 'bad_arguments', description })
+          return {
+            success: false,
+            status: 422,
+            reason: normalized,
+            retryable: false,
+            error: description
+              ? `HH.ru rejected the request: ${description}`
+              : 'HH.ru rejected the request due to invalid arguments.'
+          }
+        }
+
+        logger.warn('Application submission rejected', { userId, jobExternalId, reason: normalized })
+        return {
+          success: false,
+          status: 422,
+          reason: normalized,
+          retryable: false,
+          error: REJECTION_MESSAGES[normalized] || `Phoenix Core rejected the resume: ${normalized}`
+        }
+      }
+
+      logger.error('Application submission failed', undefined, { userId, jobExternalId, status: response.status, error: errorString })
+      return {
+        success: false,
+        status: 502,
+        retryable: response.status >= 500 || response.status === 429,
+        rateLimited: response.status === 429,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        error: `Phoenix Core error: ${response.status} - ${errorString ?? 'Unknown error'}`
+      }
+    }
+
+    const result = await response.json()
+    logger.info('Application submitted successfully', { userId, jobExternalId })
+    return { success: true, result }
+  } catch (error) {
+    // Network failures and an open circuit breaker end up here
+    logger.error('Application submission error', error as Error, { userId, jobExternalId })
+    return {
+      success: false,
+      status: 500,
+      retryable: true,
+      error: error instanceof Error ? error.message : 'Submission failed'
+    }
+  }
+}
@@ -1,9 +1,94 @@
-import { db } from '../db/client'
-import { applications, jobs } from '../db/schema'
-import { eq, and, desc } from 'drizzle-orm'
+import type { DB } from '../db/client'
+import { applications, applicationEvents, customCvs, jobs, parsedCvs } from '../db/schema'
+import { eq, and, asc, desc, inArray, ne, or, sql } from 'drizzle-orm'
+import { submitApplication, validateContactDetails } from './application-submit.service'
+import type { SubmitApplicationInput } from './application-submit.service'
+import { JobDedupService, type JobGroup } from './job-dedup.service'
+import { realtime } from './realtime.service'
+import { logger } from '../utils/logger'
+import type { ApplicationEventType, ApplicationSubmitResult, CustomizedCV } from '../types'
+
+// Applications that can be sent again; submitted and in-flight ones cannot
+const RETRYABLE_STATUSES = ['pending', 'failed', 'rate_limited']
+// Applications that reached the employer or are on their way
+const APPLIED_STATUSES = ['submitting', 'submitted']
+const DEFAULT_RATE_LIMIT_DELAY_MS = 15 * 60 * 1000
+// HH puts new negotiations in the 'response' state until the employer acts
+const INITIAL_HH_STATUS = 'response'
+
+type ApplicationUpdate = Partial<typeof applications.$inferInsert>
+
+/**
+ * Whether a query failed on a unique index, e.g. the one that lets a user
+ * apply to a job only once (Drizzle wraps the pg error in its cause)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false
+  if ('code' in error && error.code === '23505') return true
+  return 'cause' in error && isUniqueViolation(error.cause)
+}
+
+/**
+ * Map a submission result to the columns it sets on the application
+ */
+export function applicationOutcome(submission: ApplicationSubmitResult, now: Date = new Date()): ApplicationUpdate {
+  if (submission.success) {
+    const result = (submission.result ?? {}) as Record<string, any>
+    return {
+      status: 'submitted',
+      submittedAt: now,
+      responseData: result,
+      hhNegotiationId: result.negotiation_id ? String(result.negotiation_id) : null,
+      hhResumeId: result.resume_id ? String(result.resume_id) : null,
+      hhStatus: typeof result.status === 'string' ? result.status : INITIAL_HH_STATUS,
+      errorMessage: null,
+      errorReason: null,
+      rateLimitedUntil: null
+    }
+  }
+
+  if (submission.rateLimited) {
+    return {
+      status: 'rate_limited',
+      errorMessage: submission.error,
+      errorReason: 'rate_limited',
+      rateLimitedUntil: new Date(now.getTime() + (submission.retryAfterMs ?? DEFAULT_RATE_LIMIT_DELAY_MS))
+    }
+  }
+
+  return {
+    status: 'failed',
+    errorMessage: submission.error,
+    errorReason: submission.reason ?? null
+  }
+}
+
+/**
+ * Retry refused before anything was submitted
+ */
+export class ApplicationRetryError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message)
+  }
+}
+
+/**
+ * The user already applied to the vacancy, possibly under another job id
+ */
+export class DuplicateApplicationError extends Error {
+  constructor(public applicationId: string, public jobExternalId: string) {
+    super(`Already applied to this vacancy (job ${jobExternalId})`)
+  }
+}
+
+export type AppliedVacancy = { id: string; jobExternalId: string; status: string | null }
 
 export class ApplicationTrackerService {
-  constructor(private db: typeof db) {}
+  private dedup: JobDedupService
+
+  constructor(private db: DB) {
+    this.dedup = new JobDedupService(db)
+  }
 
   /**
    * Get applications for user with optional filtering
@@ -18,11 +103,17 @@ export class ApplicationTrackerService {
         status: applications.status,
         submittedAt: applications.submittedAt,
         errorMessage: applications.errorMessage,
+        errorReason: applications.errorReason,
+        customCvId: applications.customCvId,
         hhResumeId: applications.hhResumeId,
         hhNegotiationId: applications.hhNegotiationId,
         hhStatus: applications.hhStatus,
         coverLetter: applications.coverLetter,
         responseData: applications.responseData,
+        attempts: applications.attempts,
+        reapply: applications.reapply,
+        lastAttemptAt: applications.lastAttemptAt,
+        rateLimitedUntil: applications.rateLimitedUntil,
         createdAt: applications.createdAt,
         job: {
           id: jobs.id,
@@ -35,14 +126,13 @@ export class ApplicationTrackerService {
       })
       .from(applications)
       .leftJoin(jobs, eq(applications.jobId, jobs.id))
-      .where(eq(applications.userId, userId))
+      .where(and(
+        eq(applications.userId, userId),
+        filters.status ? eq(applications.status, filters.status) : undefined
+      ))
       .orderBy(desc(applications.createdAt))
       .$dynamic()
 
-    if (filters.status) {
-      queryBuilder = queryBuilder.where(eq(applications.status, filters.status))
-    }
-
     if (filters.limit) {
       queryBuilder = queryBuilder.limit(filters.limit)
     }
@@ -75,19 +165,434 @@ export class ApplicationTrackerService {
   }
 
   /**
-   * Retry a failed application
+   * Events of an application in the order they happened
+   *
+   * @returns The application with its events, or null when the user has no such application
+   */
+  async getTimeline(userId: string, applicationId: string) {
+    const [application] = await this.db
+      .select({
+        id: applications.id,
+        status: applications.status,
+        jobExternalId: applications.jobExternalId,
+        hhNegotiationId: applications.hhNegotiationId,
+        hhStatus: applications.hhStatus,
+        hhStatusSyncedAt: applications.hhStatusSyncedAt,
+        submittedAt: applications.submittedAt,
+        job: {
+          id: jobs.id,
+          title: jobs.title,
+          company: jobs.company,
+          url: jobs.url
+        }
+      })
+      .from(applications)
+      .leftJoin(jobs, eq(applications.jobId, jobs.id))
+      .where(and(eq(applications.id, applicationId), eq(applications.userId, userId)))
+      .limit(1)
+
+    if (!application) return null
+
+    const events = await this.db
+      .select({
+        id: applicationEvents.id,
+        type: applicationEvents.type,
+        hhStatus: applicationEvents.hhStatus,
+        data: applicationEvents.data,
+        occurredAt: applicationEvents.occurredAt
+      })
+      .from(applicationEvents)
+      .where(eq(applicationEvents.applicationId, applicationId))
+      .orderBy(asc(applicationEvents.occurredAt), asc(applicationEvents.createdAt))
+
+    return { application, events }
+  }
+
+  /**
+   * Store the HH negotiation status read from Core. A change is added to the
+   * timeline.
+   *
+   * @returns The previous status when it changed, otherwise undefined
    */
-  async retryApplication(applicationId: string) {
-    // Reset status to pending and clear error
+  async updateHhStatus(
+    application: { id: string; hhStatus: string | null },
+    hhStatus: string,
+    data?: Record<string, any>
+  ): Promise<{ previousStatus: string | null } | undefined> {
+    const now = new Date()
+    const changed = application.hhStatus !== hhStatus
+
     await this.db
+      .update(applications)
+      .set(changed
+        ? { hhStatus, hhStatusSyncedAt: now, updatedAt: now }
+        : { hhStatusSyncedAt: now })
+      .where(eq(applications.id, application.id))
+
+    if (!changed) return undefined
+
+    await this.addEvent(application.id, 'hh_status_changed', {
+      hhStatus,
+      data: { previousStatus: application.hhStatus, ...data },
+      occurredAt: now
+    })
+
+    return { previousStatus: application.hhStatus }
+  }
+
+  /**
+   * Check that a custom CV version belongs to one of the user's CVs
+   */
+  async ownsCustomCv(userId: string, customCvId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ id: customCvs.id })
+      .from(customCvs)
+      .innerJoin(parsedCvs, eq(customCvs.parsedCvId, parsedCvs.id))
+      .where(and(eq(customCvs.id, customCvId), eq(parsedCvs.userId, userId)))
+      .limit(1)
+
+    return Boolean(row)
+  }
+
+  /**
+   * The user's submitted (or submitting) applications to the given vacancies,
+   * by canonical job id. An application counts for every job of its group.
+   *
+   * @param excludeApplicationId An application to leave out, e.g. the one being retried
+   */
+  async appliedVacancies(
+    userId: string,
+    groups: JobGroup[],
+    excludeApplicationId?: string
+  ): Promise<Map<string, AppliedVacancy>> {
+    const applied = new Map<string, AppliedVacancy>()
+    const externalIds = groups.flatMap(group => group.externalIds)
+    if (externalIds.length === 0) return applied
+
+    const jobIds = groups.flatMap(group => group.jobIds)
+    const rows = await this.db
+      .select({
+        id: applications.id,
+        jobId: applications.jobId,
+        jobExternalId: applications.jobExternalId,
+        status: applications.status
+      })
+      .from(applications)
+      .where(and(
+        eq(applications.userId, userId),
+        inArray(applications.status, APPLIED_STATUSES),
+        jobIds.length > 0
+          ? or(inArray(applications.jobExternalId, externalIds), inArray(applications.jobId, jobIds))
+          : inArray(applications.jobExternalId, externalIds),
+        ...(excludeApplicationId ? [ne(applications.id, excludeApplicationId)] : [])
+      ))
+      .orderBy(asc(applications.createdAt))
+
+    for (const group of groups) {
+      const row = rows.find(application =>
+        group.externalIds.includes(application.jobExternalId) ||
+        (application.jobId !== null && group.jobIds.includes(application.jobId))
+      )
+      if (row) {
+        applied.set(group.canonicalId, { id: row.id, jobExternalId: row.jobExternalId, status: row.status })
+      }
+    }
+    return applied
+  }
+
+  /**
+   * Submit an application through Core and record the attempt and its outcome.
+   * Passing the id of an earlier attempt records this one on the same row.
+   * A CV with invalid contact details is refused before anything is recorded
+   * (application is null).
+   *
+   * @param input.reapply Apply even though the user already applied to the vacancy
+   * @throws DuplicateApplicationError when the user already applied to the
+   * vacancy, under this job or one of its duplicates
+   */
+  async submitAndRecord(input: SubmitApplicationInput & {
+    jobId?: string | null
+    customCvId?: string | null
+    applicationId?: string
+    reapply?: boolean
+  }) {
+    const invalid = validateContactDetails(input.customizedCV)
+    if (invalid) return { application: null, submission: invalid }
+
+    if (!input.reapply) {
+      await this.refuseDuplicate(input.userId, input.jobId ?? input.jobExternalId, input.applicationId)
+    }
+
+    const application = await this.startAttempt(input)
+    const submission = await submitApplication(input)
+    const updated = await this.recordOutcome(application.id, submission)
+
+    return { application: updated, submission }
+  }
+
+  /**
+   * Resubmit a failed application with its stored custom CV and cover letter
+   *
+   * @returns The updated application and the submission result, or null
+   * when the user has no such application
+   * @throws DuplicateApplicationError when the user applied to the vacancy
+   * with another application in the meantime
+   */
+  async retryApplication(
+    applicationId: string,
+    userId: string,
+    session: { token: string; sessionId: string }
+  ) {
+    const [row] = await this.db
+      .select({
+        application: applications,
+        jobTitle: jobs.title,
+        company: jobs.company
+      })
+      .from(applications)
+      .leftJoin(jobs, eq(applications.jobId, jobs.id))
+      .where(and(eq(applications.id, applicationId), eq(applications.userId, userId)))
+      .limit(1)
+
+    if (!row) return null
+    const { application } = row
+
+    if (!RETRYABLE_STATUSES.includes(application.status ?? 'pending')) {
+      throw new ApplicationRetryError(`Application cannot be retried while ${application.status}`, 409)
+    }
+
+    const now = new Date()
+    if (application.rateLimitedUntil && application.rateLimitedUntil > now) {
+      throw new ApplicationRetryError(
+        'HH.ru rate limit is still active for this application. Please retry later.',
+        429,
+        application.rateLimitedUntil.getTime() - now.getTime()
+      )
+    }
+
+    const [customCv] = application.customCvId
+      ? await this.db
+          .select({ customizedData: customCvs.customizedData, coverLetter: customCvs.coverLetter })
+          .from(customCvs)
+          .where(eq(customCvs.id, application.customCvId))
+          .limit(1)
+      : []
+    if (!customCv?.customizedData) {
+      throw new ApplicationRetryError('The custom CV of this application is no longer available', 400)
+    }
+
+    const invalid = validateContactDetails(customCv.customizedData as CustomizedCV)
+    if (invalid) {
+      throw new ApplicationRetryError(invalid.error, invalid.status)
+    }
+
+    if (!application.reapply) {
+      await this.refuseDuplicate(userId, application.jobId ?? application.jobExternalId, application.id)
+    }
+
+    // Claim the application so concurrent retries cannot submit it twice.
+    // Another request may have applied to the job since refuseDuplicate checked.
+    const [claimed] = await this.db
       .update(applications)
       .set({
-        status: 'pending',
+        status: 'submitting',
+        attempts: sql`${applications.attempts} + 1`,
+        lastAttemptAt: now,
         errorMessage: null,
-        submittedAt: null
+        errorReason: null,
+        updatedAt: now
       })
+      .where(and(
+        eq(applications.id, application.id),
+        inArray(applications.status, RETRYABLE_STATUSES)
+      ))
+      .returning()
+      .catch(async (error) => {
+        if (!isUniqueViolation(error)) throw error
+        throw await this.duplicateOf(userId, application.jobExternalId)
+      })
+
+    if (!claimed) {
+      throw new ApplicationRetryError('Application is already being submitted', 409)
+    }
+
+    logger.info('Retrying application', { applicationId, userId, attempt: claimed.attempts })
+    realtime.sendApplicationProgress(userId, {
+      applicationId,
+      jobExternalId: application.jobExternalId,
+      status: 'submitting',
+      attempt: claimed.attempts
+    })
+
+    const submission = await submitApplication({
+      userId,
+      jobExternalId: application.jobExternalId,
+      customizedCV: customCv.customizedData as CustomizedCV,
+      coverLetter: application.coverLetter ?? customCv.coverLetter ?? '',
+      token: session.token,
+      sessionId: session.sessionId
+    })
+
+    const updated = await this.recordOutcome(application.id, submission)
+
+    realtime.sendApplicationCompleted(userId, {
+      applicationId,
+      jobExternalId: application.jobExternalId,
+      jobTitle: row.jobTitle,
+      company: row.company,
+      status: submission.success ? 'success' : 'failed',
+      errorMessage: submission.success ? undefined : submission.error,
+      rateLimitedUntil: updated.rateLimitedUntil?.toISOString()
+    })
+
+    return { application: updated, submission }
+  }
+
+  /**
+   * @param jobRef Job id, external id or HH vacancy id
+   * @throws DuplicateApplicationError when another application of the user
+   * went to the same vacancy
+   */
+  private async refuseDuplicate(userId: string, jobRef: string, applicationId?: string) {
+    const group = await this.dedup.groupOf(jobRef)
+    const applied = (await this.appliedVacancies(userId, [group], applicationId)).get(group.canonicalId)
+    if (applied) {
+      throw new DuplicateApplicationError(applied.id, applied.jobExternalId)
+    }
+  }
+
+  /**
+   * Mark the application as being submitted, creating it on the first attempt
+   */
+  private async startAttempt(input: {
+    userId: string
+    jobExternalId: string
+    coverLetter: string
+    jobId?: string | null
+    customCvId?: string | null
+    applicationId?: string
+    reapply?: boolean
+  }) {
+    const now = new Date()
+
+    if (input.applicationId) {
+      // Another request may have applied to the job since refuseDuplicate checked
+      const [existing] = await this.db
+        .update(applications)
+        .set({
+          status: 'submitting',
+          customCvId: input.customCvId ?? null,
+          coverLetter: input.coverLetter,
+          attempts: sql`${applications.attempts} + 1`,
+          lastAttemptAt: now,
+          updatedAt: now
+        })
+        .where(and(eq(applications.id, input.applicationId), eq(applications.userId, input.userId)))
+        .returning()
+        .catch(async (error) => {
+          if (!isUniqueViolation(error)) throw error
+          throw await this.duplicateOf(input.userId, input.jobExternalId)
+        })
+
+      if (existing) return existing
+    }
+
+    let jobId = input.jobId ?? null
+    if (!jobId) {
+      const [job] = await this.db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(eq(jobs.externalId, input.jobExternalId))
+        .limit(1)
+      jobId = job?.id ?? null
+    }
+
+    const [application] = await this.db
+      .insert(applications)
+      .values({
+        userId: input.userId,
+        jobId,
+        customCvId: input.customCvId ?? null,
+        jobExternalId: input.jobExternalId,
+        coverLetter: input.coverLetter,
+        status: 'submitting',
+        attempts: 1,
+        lastAttemptAt: now,
+        reapply: input.reapply ?? false,
+        createdAt: now,
+        updatedAt: now
+      })
+      // Another request applied to the job since refuseDuplicate checked
+      .onConflictDoNothing()
+      .returning()
+
+    if (!application) {
+      throw await this.duplicateOf(input.userId, input.jobExternalId)
+    }
+
+    return application
+  }
+
+  /**
+   * The error for applying to a job the user already applied to under the
+   * same external id
+   */
+  private async duplicateOf(userId: string, jobExternalId: string) {
+    const [applied] = await this.db
+      .select({ id: applications.id })
+      .from(applications)
+      .where(and(
+        eq(applications.userId, userId),
+        eq(applications.jobExternalId, jobExternalId),
+        inArray(applications.status, APPLIED_STATUSES)
+      ))
+      .limit(1)
+    return new DuplicateApplicationError(applied?.id ?? '', jobExternalId)
+  }
+
+  private async addEvent(
+    applicationId: string,
+    type: ApplicationEventType,
+    event: { hhStatus?: string | null; data?: Record<string, any>; occurredAt?: Date } = {}
+  ) {
+    await this.db.insert(applicationEvents).values({
+      applicationId,
+      type,
+      hhStatus: event.hhStatus ?? null,
+      data: event.data ?? null,
+      occurredAt: event.occurredAt ?? new Date()
+    })
+  }
+
+  /**
+   * Store the result of a submission attempt on the application
+   */
+  private async recordOutcome(applicationId: string, submission: ApplicationSubmitResult) {
+    const now = new Date()
+    const [updated] = await this.db
+      .update(applications)
+      .set({ ...applicationOutcome(submission, now), updatedAt: now })
       .where(eq(applications.id, applicationId))
+      .returning()
+
+    if (submission.success) {
+      await this.addEvent(applicationId, 'submitted', {
+        hhStatus: updated.hhStatus,
+        data: { attempt: updated.attempts, negotiationId: updated.hhNegotiationId },
+        occurredAt: now
+      })
+    } else {
+      await this.addEvent(applicationId, submission.rateLimited ? 'rate_limited' : 'submission_failed', {
+        data: {
+          attempt: updated.attempts,
+          error: submission.error,
+          reason: updated.errorReason,
+          rateLimitedUntil: updated.rateLimitedUntil?.toISOString()
+        },
+        occurredAt: now
+      })
+    }
 
-    // TODO: Trigger re-submission via Core
+    return updated
   }
 }
@@ -1,8 +1,11 @@
 /**
- * In-memory cache service for API responses
+ * Cache service for API responses with pluggable backends:
+ * process memory, a shared Redis-protocol server, or both (two-tier)
  */
 
+import { env } from '../config/env'
 import { logger } from '../utils/logger'
+import { RespClient } from '../utils/resp'
 
 interface CacheEntry<T> {
   data: T
@@ -10,27 +13,35 @@ interface CacheEntry<T> {
 }
 
 /**
- * Simple in-memory cache with TTL support
+ * Storage behind CacheService. TTLs are in milliseconds.
  */
-export class CacheService {
+export interface CacheStore {
+  readonly name: string
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(key: string, data: T, ttl: number): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+  keys(): Promise<string[]>
+  destroy(): void
+}
+
+/**
+ * Process-local store with a periodic sweep of expired entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory'
   private cache = new Map<string, CacheEntry<any>>()
   private cleanupInterval: NodeJS.Timeout | null = null
 
-  constructor(private defaultTTL: number = 300000) { // 5 minutes default
-    this.startCleanup()
+  constructor(cleanupIntervalMs: number = 300000) { // 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup()
+    }, cleanupIntervalMs)
   }
 
-  /**
-   * Get a value from cache
-   * @param key Cache key
-   * @returns Cached value or null if not found/expired
-   */
-  get<T>(key: string): T | null {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
     const entry = this.cache.get(key)
-
-    if (!entry) {
-      return null
-    }
+    if (!entry) return null
 
     if (Date.now() > entry.expires) {
       this.cache.delete(key)
@@ -38,62 +49,23 @@ export class CacheService {
       return null
     }
 
-    logger.debug('Cache hit', { key })
-    return entry.data as T
+    return entry
   }
 
-  /**
-   * Set a value in cache
-   * @param key Cache key
-   * @param data Data to cache
-   * @param ttl Time to live in milliseconds (default: 5 minutes)
-   */
-  set<T>(key: string, data: T, ttl?: number): void {
-    const expires = Date.now() + (ttl ?? this.defaultTTL)
-
-    this.cache.set(key, {
-      data,
-      expires
-    })
-
-    logger.debug('Cache set', { key, ttl: ttl ?? this.defaultTTL })
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    this.cache.set(key, { data, expires: Date.now() + ttl })
   }
 
-  /**
-   * Delete a value from cache
-   * @param key Cache key
-   */
-  delete(key: string): void {
+  async delete(key: string): Promise<void> {
     this.cache.delete(key)
-    logger.debug('Cache deleted', { key })
   }
 
-  /**
-   * Clear all cache entries
-   */
-  clear(): void {
+  async clear(): Promise<void> {
     this.cache.clear()
-    logger.info('Cache cleared')
-  }
-
-  /**
-   * Get cache statistics
-   */
-  getStats() {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    }
   }
 
-  /**
-   * Start automatic cleanup of expired entries
-   */
-  private startCleanup(): void {
-    // Run cleanup every 5 minutes
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup()
-    }, 300000)
+  async keys(): Promise<string[]> {
+    return Array.from(this.cache.keys())
   }
 
   /**
@@ -115,9 +87,6 @@ export class CacheService {
     }
   }
 
-  /**
-   * Stop cleanup interval
-   */
   destroy(): void {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval)
@@ -126,5 +95,225 @@ export class CacheService {
   }
 }
 
+/**
+ * Shared store on a Redis-protocol server. Keys are namespaced with a prefix
+ * so the cache can share a database with other data; values are JSON.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis'
+
+  constructor(private client: RespClient, private prefix: string = env.CACHE_KEY_PREFIX) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const raw = await this.client.command(['GET', this.prefix + key])
+    if (typeof raw !== 'string') return null
+
+    // Expiry is enforced by the server
+    return JSON.parse(raw) as CacheEntry<T>
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    const ttlMs = Math.max(Math.ceil(ttl), 1)
+    const entry: CacheEntry<T> = { data, expires: Date.now() + ttlMs }
+    await this.client.command(['SET', this.prefix + key, JSON.stringify(entry), 'PX', ttlMs])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(['DEL', this.prefix + key])
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scan()
+    for (let i = 0; i < keys.length; i += 100) {
+      await this.client.command(['DEL', ...keys.slice(i, i + 100)])
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.scan()
+    return keys.map(key => key.slice(this.prefix.length))
+  }
+
+  /**
+   * Full (prefixed) names of all keys under the prefix
+   */
+  private async scan(): Promise<string[]> {
+    const keys: string[] = []
+    let cursor = '0'
+
+    do {
+      const reply = await this.client.command(['SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100])
+      const [nextCursor, batch] = reply as [string, string[]]
+      cursor = nextCursor
+      keys.push(...batch)
+    } while (cursor !== '0')
+
+    return keys
+  }
+
+  destroy(): void {
+    this.client.close()
+  }
+}
+
+/**
+ * Two-tier store: a small memory L1 in front of a shared L2. Reads fill L1
+ * for at most l1TTL so other replicas' changes show up quickly; writes and
+ * deletes go to both tiers.
+ */
+export class TieredCacheStore implements CacheStore {
+  readonly name = 'tiered'
+
+  constructor(
+    private l1: CacheStore,
+    private l2: CacheStore,
+    private l1TTL: number = env.CACHE_L1_TTL_MS
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const local = await this.l1.get<T>(key)
+    if (local) return local
+
+    const shared = await this.l2.get<T>(key)
+    if (shared) {
+      const remaining = shared.expires - Date.now()
+      if (remaining > 0) {
+        await this.l1.set(key, shared.data, Math.min(remaining, this.l1TTL))
+      }
+    }
+    return shared
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    await this.l1.set(key, data, Math.min(ttl, this.l1TTL))
+    await this.l2.set(key, data, ttl)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.l1.delete(key)
+    await this.l2.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    await this.l1.clear()
+    await this.l2.clear()
+  }
+
+  async keys(): Promise<string[]> {
+    return await this.l2.keys()
+  }
+
+  destroy(): void {
+    this.l1.destroy()
+    this.l2.destroy()
+  }
+}
+
+/**
+ * Build the store configured for this environment (CACHE_BACKEND)
+ */
+export function createCacheStore(backend: string = env.CACHE_BACKEND): CacheStore {
+  switch (backend) {
+    case 'memory':
+      return new MemoryCacheStore()
+    case 'redis':
+      return new RedisCacheStore(new RespClient(env.REDIS_URL))
+    case 'tiered':
+      return new TieredCacheStore(new MemoryCacheStore(), new RedisCacheStore(new RespClient(env.REDIS_URL)))
+    default:
+      throw new Error(`Unknown CACHE_BACKEND: ${backend}`)
+  }
+}
+
+/**
+ * Cache with TTL support. Backend failures are logged and treated as misses,
+ * so an unavailable cache server never fails a request.
+ */
+export class CacheService {
+  private store: CacheStore
+
+  constructor(private defaultTTL: number = 300000, store?: CacheStore) { // 5 minutes default
+    this.store = store ?? new MemoryCacheStore()
+  }
+
+  /**
+   * Get a value from cache
+   * @param key Cache key
+   * @returns Cached value or null if not found/expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await this.store.get<T>(key)
+      if (!entry) return null
+
+      logger.debug('Cache hit', { key })
+      return entry.data
+    } catch (error) {
+      logger.warn('Cache read failed', { key, backend: this.store.name, error: (error as Error).message })
+      return null
+    }
+  }
+
+  /**
+   * Set a value in cache
+   * @param key Cache key
+   * @param data Data to cache
+   * @param ttl Time to live in milliseconds (default: 5 minutes)
+   */
+  async set<T>(key: string, data: T, ttl?: number): Promise<void> {
+    try {
+      await this.store.set(key, data, ttl ?? this.defaultTTL)
+      logger.debug('Cache set', { key, ttl: ttl ?? this.defaultTTL })
+    } catch (error) {
+      logger.warn('Cache write failed', { key, backend: this.store.name, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Delete a value from cache
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.store.delete(key)
+      logger.debug('Cache deleted', { key })
+    } catch (error) {
+      logger.warn('Cache delete failed', { key, backend: this.store.name, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.store.clear()
+      logger.info('Cache cleared', { backend: this.store.name })
+    } catch (error) {
+      logger.warn('Cache clear failed', { backend: this.store.name, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Get cache statistics
+   */
+  async getStats() {
+    try {
+      const keys = await this.store.keys()
+      return { backend: this.store.name, size: keys.length, keys }
+    } catch (error) {
+      logger.warn('Cache stats failed', { backend: this.store.name, error: (error as Error).message })
+      return { backend: this.store.name, size: 0, keys: [] as string[] }
+    }
+  }
+
+  /**
+   * Stop background work and close backend connections
+   */
+  destroy(): void {
+    this.store.destroy()
+  }
+}
+
 // Export singleton instance
-export const cache = new CacheService()
+export const cache = new CacheService(300000, createCacheStore())
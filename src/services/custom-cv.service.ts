@@ -0,0 +1,258 @@
+import type { DB } from '../db/client'
+import { customCvs } from '../db/schema'
+import { eq, and, desc, isNull, max, sql } from 'drizzle-orm'
+import type {
+  CustomizedCV,
+  MultiStageCustomizationResult,
+  CustomCvFieldChange,
+  CustomCvVersionDiff
+} from '../types'
+
+const TEXT_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'title', 'summary', 'experience', 'education', 'projects'] as const
+const LIST_FIELDS = ['skills', 'matchedSkills', 'addedKeywords'] as const
+
+/**
+ * Compare two customized CVs field by field
+ */
+export function diffCustomizedCVs(from: CustomizedCV, to: CustomizedCV): CustomCvFieldChange[] {
+  const changes: CustomCvFieldChange[] = []
+
+  for (const field of TEXT_FIELDS) {
+    const before = from[field] ?? ''
+    const after = to[field] ?? ''
+    if (before === after) continue
+
+    changes.push({
+      field,
+      type: !before ? 'added' : !after ? 'removed' : 'changed',
+      before: before || undefined,
+      after: after || undefined
+    })
+  }
+
+  for (const field of LIST_FIELDS) {
+    const before = from[field] ?? []
+    const after = to[field] ?? []
+    const beforeSet = new Set(before.map(s => s.toLowerCase()))
+    const afterSet = new Set(after.map(s => s.toLowerCase()))
+
+    const added = after.filter(s => !beforeSet.has(s.toLowerCase()))
+    const removed = before.filter(s => !afterSet.has(s.toLowerCase()))
+    const reordered = added.length === 0 && removed.length === 0 && before.join('\n') !== after.join('\n')
+
+    if (added.length > 0 || removed.length > 0 || reordered) {
+      changes.push({
+        field,
+        type: reordered ? 'reordered' : 'changed',
+        added,
+        removed
+      })
+    }
+  }
+
+  return changes
+}
+
+export class CustomCvService {
+  constructor(private db: DB) {}
+
+  /**
+   * Store a multi-stage customization run as the next version for its CV/job pair
+   */
+  async saveMultiStageResult(input: {
+    parsedCvId: string
+    jobId?: string | null
+    jobTitle?: string | null
+    result: MultiStageCustomizationResult
+    modelUsed: string
+    promptVersions?: Record<string, string>
+  }) {
+    const { result } = input
+
+    return await this.saveVersion({
+      parsedCvId: input.parsedCvId,
+      jobId: input.jobId,
+      jobTitle: input.jobTitle ?? result.finalCV.title,
+      customizedCV: result.finalCV,
+      coverLetter: result.coverLetterVariations[0] ?? null,
+      aiSuggestions: {
+        analysis: result.analysis,
+        validation: result.validation,
+        changesApplied: result.optimization.changesApplied,
+        metricsAdded: result.optimization.metricsAdded,
+        coverLetterVariations: result.coverLetterVariations
+      },
+      modelUsed: input.modelUsed,
+      promptVersions: input.promptVersions
+    })
+  }
+
+  /**
+   * Store a customized CV as the next version for its CV/job pair
+   */
+  async saveVersion(input: {
+    parsedCvId: string
+    jobId?: string | null
+    jobTitle?: string | null
+    customizedCV: CustomizedCV
+    coverLetter?: string | null
+    aiSuggestions?: Record<string, unknown> | null
+    modelUsed: string
+    promptVersions?: Record<string, string>
+  }) {
+    const { parsedCvId, modelUsed } = input
+    const jobId = input.jobId ?? null
+
+    return await this.db.transaction(async (tx) => {
+      // Concurrent runs for the pair would both pick the same next version
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`custom_cv:${parsedCvId}:${jobId ?? ''}`}))`)
+
+      const [{ latest }] = await tx
+        .select({ latest: max(customCvs.version) })
+        .from(customCvs)
+        .where(this.pairCondition(parsedCvId, jobId))
+
+      const [row] = await tx.insert(customCvs).values({
+        parsedCvId,
+        jobId,
+        jobTitle: input.jobTitle ?? null,
+        customizedData: input.customizedCV,
+        coverLetter: input.coverLetter ?? null,
+        aiSuggestions: input.aiSuggestions ?? null,
+        version: (latest ?? 0) + 1,
+        modelUsed,
+        promptVersions: input.promptVersions ?? null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }).returning()
+
+      return row
+    })
+  }
+
+  /**
+   * List versions of a parsed CV, newest first, optionally for a single job
+   */
+  async listVersions(parsedCvId: string, jobId?: string | null) {
+    const conditions = jobId === undefined
+      ? eq(customCvs.parsedCvId, parsedCvId)
+      : this.pairCondition(parsedCvId, jobId)
+
+    return await this.db
+      .select({
+        id: customCvs.id,
+        jobId: customCvs.jobId,
+        jobTitle: customCvs.jobTitle,
+        version: customCvs.version,
+        isPinned: customCvs.isPinned,
+        modelUsed: customCvs.modelUsed,
+        promptVersions: customCvs.promptVersions,
+        createdAt: customCvs.createdAt
+      })
+      .from(customCvs)
+      .where(conditions)
+      .orderBy(desc(customCvs.createdAt))
+  }
+
+  async getVersion(parsedCvId: string, versionId: string) {
+    const [row] = await this.db
+      .select()
+      .from(customCvs)
+      .where(and(eq(customCvs.id, versionId), eq(customCvs.parsedCvId, parsedCvId)))
+      .limit(1)
+
+    return row
+  }
+
+  /**
+   * Diff two versions of the same parsed CV
+   */
+  async diffVersions(parsedCvId: string, fromId: string, toId: string): Promise<CustomCvVersionDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(parsedCvId, fromId),
+      this.getVersion(parsedCvId, toId)
+    ])
+
+    if (!from || !to) return null
+
+    const fromCV = (from.customizedData ?? {}) as CustomizedCV
+    const toCV = (to.customizedData ?? {}) as CustomizedCV
+    const fromQuality = (from.aiSuggestions as any)?.validation?.qualityScore
+    const toQuality = (to.aiSuggestions as any)?.validation?.qualityScore
+
+    return {
+      from: { id: from.id, version: from.version, modelUsed: from.modelUsed },
+      to: { id: to.id, version: to.version, modelUsed: to.modelUsed },
+      changes: diffCustomizedCVs(fromCV, toCV),
+      coverLetterChanged: (from.coverLetter ?? '') !== (to.coverLetter ?? ''),
+      qualityScoreDelta: typeof fromQuality === 'number' && typeof toQuality === 'number'
+        ? toQuality - fromQuality
+        : undefined
+    }
+  }
+
+  /**
+   * Pin a version as the one used for submission; unpins the rest of its CV/job pair
+   */
+  async pinVersion(parsedCvId: string, versionId: string) {
+    return await this.db.transaction(async (tx) => {
+      const [target] = await tx
+        .select()
+        .from(customCvs)
+        .where(and(eq(customCvs.id, versionId), eq(customCvs.parsedCvId, parsedCvId)))
+        .limit(1)
+
+      if (!target) return null
+
+      await tx
+        .update(customCvs)
+        .set({ isPinned: false, updatedAt: new Date() })
+        .where(and(this.pairCondition(parsedCvId, target.jobId), eq(customCvs.isPinned, true)))
+
+      const [pinned] = await tx
+        .update(customCvs)
+        .set({ isPinned: true, updatedAt: new Date() })
+        .where(eq(customCvs.id, versionId))
+        .returning()
+
+      return pinned
+    })
+  }
+
+  /**
+   * Get the pinned version for a CV/job pair
+   */
+  async getPinnedVersion(parsedCvId: string, jobId: string | null) {
+    const [row] = await this.db
+      .select()
+      .from(customCvs)
+      .where(and(this.pairCondition(parsedCvId, jobId), eq(customCvs.isPinned, true)))
+      .limit(1)
+
+    return row
+  }
+
+  /**
+   * Version to submit for a CV/job pair: the pinned one, otherwise the latest
+   */
+  async getVersionForSubmission(parsedCvId: string, jobId: string | null) {
+    const pinned = await this.getPinnedVersion(parsedCvId, jobId)
+    if (pinned) return pinned
+
+    const [latest] = await this.db
+      .select()
+      .from(customCvs)
+      .where(this.pairCondition(parsedCvId, jobId))
+      .orderBy(desc(customCvs.version))
+      .limit(1)
+
+    return latest
+  }
+
+  private pairCondition(parsedCvId: string, jobId: string | null) {
+    return and(
+      eq(customCvs.parsedCvId, parsedCvId),
+      jobId ? eq(customCvs.jobId, jobId) : isNull(customCvs.jobId)
+    )
+  }
+}
@@ -1,4 +1,15 @@
+import { llmProvider, type LLMProvider } from "./llm.provider";
+import { promptRegistry, type PromptRegistry } from "./prompt-registry.service";
+import { parsedCVSchema } from "./ai.schemas";
+import { detectSkills, normalizeSkills } from "./skill-taxonomy.service";
 import { env } from "../config/env";
+import { logger } from "../utils/logger";
+import {
+  buildRepairPrompt,
+  parseStructuredOutput,
+  StructuredOutputError,
+} from "../utils/structured-output";
+import type { LLMChatMessage } from "../types";
 
 export interface ParsedCV {
   firstName?: string;
@@ -12,18 +23,24 @@ export interface ParsedCV {
   skills?: string[];
   projects?: string;
   fullText: string;
+  promptVersion?: string; // version of the cv_parsing template, when the AI parsed it
 }
 
 export class CVParserService {
-  private openRouterKey = env.OPENROUTER_API_KEY;
-  private baseURL = "https://openrouter.ai/api/v1/chat/completions";
-
-  async parseCV(file: File, onProgress?: (stage: string) => void): Promise<ParsedCV> {
+  constructor(
+    private provider: LLMProvider = llmProvider,
+    private prompts: PromptRegistry = promptRegistry
+  ) {}
+
+  /**
+   * @param userId Owner of the CV, used to assign the prompt template version
+   */
+  async parseCV(file: File, onProgress?: (stage: string) => void, userId?: string | null): Promise<ParsedCV> {
     onProgress?.('Extracting text from file...')
     const rawText = await this.extractRawText(file);
 
     onProgress?.('Analyzing with AI...')
-    const structured = await this.extractStructureWithAI(rawText);
+    const structured = await this.extractStructureWithAI(rawText, userId);
 
     onProgress?.('Complete!')
     return structured;
@@ -54,71 +71,50 @@ export class CVParserService {
     return result.value;
   }
 
-  private async extractStructureWithAI(rawText: string): Promise<ParsedCV> {
-    const prompt = `
-You are a CV/Resume parser. Extract structured information from the following CV text.
-
-Return ONLY valid JSON (no markdown, no explanation) with this exact structure:
-{
-  "firstName": "string or null",
-  "lastName": "string or null", 
-  "email": "string or null",
-  "phone": "string or null",
-  "title": "string (job title/position) or null",
-  "summary": "string (brief professional summary) or null",
-  "experience": "string (work experience, detailed) or null",
-  "education": "string (education background) or null",
-  "skills": ["array", "of", "skills"] or [],
-  "projects": "string (notable projects) or null"
-}
-
-CV Text:
-${rawText}
+  private async extractStructureWithAI(rawText: string, userId?: string | null): Promise<ParsedCV> {
+    const prompt = this.prompts.render("cv_parsing", { cvText: rawText }, userId);
 
-Extract all available information. If something is missing, use null or empty array.
-`;
+    const model = "anthropic/claude-3.5-sonnet";
+    const messages: LLMChatMessage[] = [{ role: "user", content: prompt.text }];
 
     try {
-      const response = await fetch(this.baseURL, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.openRouterKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": "https://ullgetthejob.com",
-          "X-Title": "UllGetTheJob CV Parser",
-        },
-        body: JSON.stringify({
-          model: "anthropic/claude-3.5-sonnet",
-          messages: [{ role: "user", content: prompt }],
-          temperature: 0.1,
-          max_tokens: 2000,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
-        throw new Error("No response from AI");
+      for (let attempt = 0; ; attempt++) {
+        const { content } = await this.provider.chat({
+          model,
+          messages,
+          temperature: attempt === 0 ? 0.1 : 0,
+          maxTokens: 2000,
+          title: "UllGetTheJob CV Parser",
+        });
+
+        const result = parseStructuredOutput(content, parsedCVSchema);
+        if (result.success) {
+          return {
+            ...result.data,
+            skills: normalizeSkills(result.data.skills ?? []),
+            fullText: rawText,
+            promptVersion: prompt.version,
+          };
+        }
+
+        logger.warn("AI output failed schema validation", {
+          schema: parsedCVSchema.name,
+          model,
+          prompt: `${prompt.template}@${prompt.version}`,
+          attempt: attempt + 1,
+          issues: result.issues.slice(0, 10),
+        });
+
+        if (attempt >= env.AI_SCHEMA_REPAIR_ATTEMPTS) {
+          throw new StructuredOutputError(parsedCVSchema.name, model, result.issues);
+        }
+
+        // Ask the model to fix its answer, keeping the conversation so far
+        messages.push(
+          { role: "assistant", content },
+          { role: "user", content: buildRepairPrompt(result.issues) }
+        );
       }
-
-      // Parse JSON from response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error("Invalid AI response:", content);
-        throw new Error("AI returned invalid format");
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      return {
-        ...parsed,
-        fullText: rawText,
-      };
     } catch (error) {
       console.error("AI parsing failed:", error);
       // Fallback to basic extraction
@@ -153,28 +149,7 @@ Extract all available information. If something is missing, use null or empty ar
   }
 
   private extractBasicSkills(text: string): string[] {
-    const commonSkills = [
-      "JavaScript",
-      "TypeScript",
-      "Python",
-      "Java",
-      "C#",
-      "React",
-      "Node.js",
-      "Angular",
-      "Vue",
-      "PostgreSQL",
-      "MongoDB",
-      "Docker",
-      "Kubernetes",
-      "AWS",
-      "Git",
-      "HTML",
-      "CSS",
-    ];
-    return commonSkills.filter((skill) =>
-      text.toLowerCase().includes(skill.toLowerCase())
-    );
+    return detectSkills(text);
   }
 }
 
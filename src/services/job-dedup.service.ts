@@ -0,0 +1,373 @@
+/**
+ * Job deduplication.
+ *
+ * The same vacancy comes back with a new external id when it is reposted,
+ * and again from every board it is published on. Stored jobs are grouped
+ * under a canonical job, the first of them to be grouped: a job is a
+ * duplicate of another when
+ *   - both come from the same employer (employerId on the same board), or
+ *     from companies with the same normalized name, have the same
+ *     normalized title and similar descriptions; without descriptions to
+ *     compare, the same known area is required instead (large employers
+ *     post separate openings with one title), or
+ *   - their descriptions are near-identical (MinHash over word shingles),
+ *     with a lower bar when the company is the same.
+ * Candidates are looked up by the company/title key, the employer and
+ * locality-sensitive hashing bands of the MinHash signature, so a job is
+ * only compared with a handful of others.
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { jobs } from '../db/schema'
+import { and, arrayOverlaps, asc, eq, inArray, isNotNull, isNull, ne, or, sql, type SQL } from 'drizzle-orm'
+import type { DuplicateReason } from '../types'
+
+const SHINGLE_SIZE = 3
+const MINHASH_SIZE = 64
+const BAND_ROWS = 4 // 16 bands of 4: pairs from ~0.5 similarity become candidates
+const MIN_SHINGLES = 10 // shorter descriptions say too little to compare
+const MAX_CANDIDATES = 50
+
+// Description similarity from which two jobs are the same vacancy
+const SAME_TITLE_SIMILARITY = 0.5
+const SAME_COMPANY_SIMILARITY = 0.6
+const SIMILARITY = 0.9
+
+const LEGAL_FORMS = /(?<![\p{L}\d])(?:ооо|оао|зао|пао|ао|ип|нко|гк|llc|inc|ltd|limited|gmbh|corp|corporation|co|company|plc|llp|group|груп+а?)(?![\p{L}\d])/giu
+
+// Words in titles that do not tell vacancies apart
+const TITLE_NOISE = /(?<![\p{L}\d])(?:вакансия|vacancy|remote|удал[её]нно|удал[её]нка|office|офис|hybrid|гибрид|full[\s-]?time|part[\s-]?time|полная занятость|urgent|срочно)(?![\p{L}\d])/giu
+
+const TITLE_SYNONYMS: Array<[RegExp, string]> = [
+  [/front[\s-]?end/g, 'frontend'],
+  [/back[\s-]?end/g, 'backend'],
+  [/full[\s-]?stack/g, 'fullstack'],
+  [/фронт[\s-]?енд|фронтенд/g, 'frontend'],
+  [/бэк[\s-]?енд|бэкенд|бекенд/g, 'backend'],
+  [/фулл?[\s-]?стек/g, 'fullstack'],
+  [/разработчик|программист/g, 'developer'],
+  [/инженер/g, 'engineer'],
+  [/ведущий/g, 'lead'],
+  [/старший/g, 'senior'],
+  [/младший/g, 'junior']
+]
+
+/**
+ * Fields of a job deduplication looks at
+ */
+export interface DedupFields {
+  title: string
+  company: string | null
+  employerId: string | null
+  source: string | null
+  area: string | null
+  minhash: number[] | null
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/<[^>]*>/g, ' ')
+    .split(/[^\p{L}\d+#]+/u)
+    .filter(Boolean)
+}
+
+export function normalizeCompany(company: string | null | undefined): string {
+  if (!company) return ''
+  return words(company.replace(LEGAL_FORMS, ' ')).join(' ')
+}
+
+export function normalizeTitle(title: string | null | undefined): string {
+  if (!title) return ''
+  let normalized = title.toLowerCase().replace(/ё/g, 'е').replace(/\([^)]*\)/g, ' ')
+  for (const [pattern, replacement] of TITLE_SYNONYMS) {
+    normalized = normalized.replace(pattern, replacement)
+  }
+  return words(normalized.replace(TITLE_NOISE, ' ')).join(' ')
+}
+
+/**
+ * Lookup key of jobs with the same company and title; null without a company
+ */
+export function dedupKey(company: string | null | undefined, title: string | null | undefined): string | null {
+  const normalized = normalizeCompany(company)
+  return normalized ? `${normalized}|${normalizeTitle(title)}`.slice(0, 255) : null
+}
+
+// FNV-1a
+function hashString32(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// murmur3 finalizer: spreads the bits of a 32-bit value
+function mix32(value: number): number {
+  let h = value
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+// One seed per hash function; fixed, so signatures stay comparable across runs
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix32(0x9e3779b9 + i * 0x632be5ab))
+
+/**
+ * MinHash signature of a description's word shingles, or null when it is too
+ * short to compare. Values are signed 32-bit so they fit a Postgres integer.
+ */
+export function minhash(description: string | null | undefined): number[] | null {
+  if (!description) return null
+  const tokens = words(description)
+  const shingles = new Set<number>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    shingles.add(hashString32(tokens.slice(i, i + SHINGLE_SIZE).join(' ')))
+  }
+  if (shingles.size < MIN_SHINGLES) return null
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff)
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature.map(value => value | 0)
+}
+
+/**
+ * Estimated Jaccard similarity of the shingles behind two signatures
+ */
+export function minhashSimilarity(a: number[], b: number[]): number {
+  const size = Math.min(a.length, b.length)
+  if (size === 0) return 0
+  let same = 0
+  for (let i = 0; i < size; i++) {
+    if (a[i] === b[i]) same++
+  }
+  return same / size
+}
+
+/**
+ * LSH bands of a signature; jobs sharing a band are compared
+ */
+export function minhashBands(signature: number[] | null): string[] | null {
+  if (!signature) return null
+  const bands: string[] = []
+  for (let start = 0; start + BAND_ROWS <= signature.length; start += BAND_ROWS) {
+    const band = signature.slice(start, start + BAND_ROWS).join(',')
+    bands.push(`${start / BAND_ROWS}:${hashString32(band).toString(36)}`)
+  }
+  return bands
+}
+
+/**
+ * Why two jobs are the same vacancy, or null when they are not
+ */
+export function duplicateReason(a: DedupFields, b: DedupFields): DuplicateReason | null {
+  const similarity = a.minhash && b.minhash ? minhashSimilarity(a.minhash, b.minhash) : null
+  const areaA = a.area?.trim().toLowerCase()
+  const areaB = b.area?.trim().toLowerCase()
+  // The same title is not enough: one employer may have several openings
+  const sameOpening = normalizeTitle(a.title) === normalizeTitle(b.title) && (similarity === null
+    ? Boolean(areaA) && areaA === areaB
+    : similarity >= SAME_TITLE_SIMILARITY && (!areaA || !areaB || areaA === areaB))
+  // Employer ids are per board
+  const sameEmployer = Boolean(a.employerId && a.employerId === b.employerId && a.source === b.source)
+  const company = normalizeCompany(a.company)
+  const sameCompany = company !== '' && company === normalizeCompany(b.company)
+
+  if (sameEmployer && sameOpening) return 'employer_title'
+  if (sameCompany && sameOpening) return 'company_title'
+
+  if (similarity !== null &&
+    (similarity >= SIMILARITY || ((sameEmployer || sameCompany) && similarity >= SAME_COMPANY_SIMILARITY))) {
+    return 'description'
+  }
+  return null
+}
+
+/**
+ * A canonical job and its duplicates
+ */
+export interface JobGroup {
+  canonicalId: string
+  jobIds: string[]
+  externalIds: string[] // external and HH vacancy ids of all jobs in the group
+}
+
+const dedupColumns = {
+  id: jobs.id,
+  title: jobs.title,
+  company: jobs.company,
+  description: jobs.description,
+  employerId: jobs.employerId,
+  source: jobs.source,
+  area: jobs.area,
+  canonicalJobId: jobs.canonicalJobId,
+  createdAt: jobs.createdAt
+}
+
+export class JobDedupService {
+  constructor(private db: DB) {}
+
+  /**
+   * Group stored jobs that are new or changed since they were last grouped.
+   * Each one joins the group of its oldest grouped duplicate; jobs that were
+   * grouped under it follow it.
+   *
+   * @returns The canonical job of each given job that has one
+   */
+  async groupJobs(jobIds: string[]): Promise<Map<string, string>> {
+    const canonical = new Map<string, string>()
+    if (jobIds.length === 0) return canonical
+
+    // Oldest first; jobs of one upsert share created_at and go in the given order
+    const order = new Map(jobIds.map((id, index) => [id, index]))
+    const pending = (await this.db
+      .select(dedupColumns)
+      .from(jobs)
+      .where(and(inArray(jobs.id, jobIds), isNull(jobs.dedupedAt))))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || order.get(a.id)! - order.get(b.id)!)
+
+    for (const job of pending) {
+      const signature = minhash(job.description)
+      const key = dedupKey(job.company, job.title)
+      const bands = minhashBands(signature)
+      const fields = { ...job, minhash: signature }
+
+      const candidates = await this.candidates(job, key, bands)
+      const duplicate = candidates.find(candidate => duplicateReason(fields, candidate))
+      const canonicalJobId = duplicate ? duplicate.canonicalJobId ?? duplicate.id : null
+
+      await this.db
+        .update(jobs)
+        .set({ dedupKey: key, descriptionMinhash: signature, minhashBands: bands, canonicalJobId, dedupedAt: new Date() })
+        .where(eq(jobs.id, job.id))
+
+      if (canonicalJobId) {
+        await this.db
+          .update(jobs)
+          .set({ canonicalJobId })
+          .where(eq(jobs.canonicalJobId, job.id))
+        canonical.set(job.id, canonicalJobId)
+      }
+    }
+    return canonical
+  }
+
+  /**
+   * The group of each given job; jobs that are not stored are left out
+   */
+  async groups(jobIds: string[]): Promise<Map<string, JobGroup>> {
+    const result = new Map<string, JobGroup>()
+    if (jobIds.length === 0) return result
+
+    const given = await this.db
+      .select({ id: jobs.id, canonicalJobId: jobs.canonicalJobId })
+      .from(jobs)
+      .where(inArray(jobs.id, jobIds))
+    const canonicalIds = [...new Set(given.map(job => job.canonicalJobId ?? job.id))]
+
+    const members = await this.db
+      .select({ id: jobs.id, externalId: jobs.externalId, hhVacancyId: jobs.hhVacancyId, canonicalJobId: jobs.canonicalJobId })
+      .from(jobs)
+      .where(or(inArray(jobs.id, canonicalIds), inArray(jobs.canonicalJobId, canonicalIds)))
+
+    const byCanonical = new Map<string, JobGroup>()
+    for (const member of members) {
+      const canonicalId = member.canonicalJobId ?? member.id
+      const group = byCanonical.get(canonicalId) ?? { canonicalId, jobIds: [], externalIds: [] }
+      group.jobIds.push(member.id)
+      group.externalIds.push(member.externalId, ...(member.hhVacancyId && member.hhVacancyId !== member.externalId ? [member.hhVacancyId] : []))
+      byCanonical.set(canonicalId, group)
+    }
+
+    for (const job of given) {
+      result.set(job.id, byCanonical.get(job.canonicalJobId ?? job.id)!)
+    }
+    return result
+  }
+
+  /**
+   * The group of a job given by id, external id or HH vacancy id. A job that
+   * is not stored is a group of its own.
+   */
+  async groupOf(ref: string): Promise<JobGroup> {
+    const byId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(ref) ? [eq(jobs.id, ref)] : []
+    const [job] = await this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(or(...byId, eq(jobs.externalId, ref), eq(jobs.hhVacancyId, ref)))
+      .limit(1)
+
+    const group = job ? (await this.groups([job.id])).get(job.id) : undefined
+    return group ?? { canonicalId: ref, jobIds: [], externalIds: [ref] }
+  }
+
+  /**
+   * The jobs of a vacancy, the canonical one first
+   *
+   * @param ref Id, external id or HH vacancy id of any of them
+   * @returns The jobs, or null when no such job is stored
+   */
+  async duplicatesOf(ref: string) {
+    const group = await this.groupOf(ref)
+    if (group.jobIds.length === 0) return null
+
+    return await this.db
+      .select({
+        id: jobs.id,
+        externalId: jobs.externalId,
+        title: jobs.title,
+        company: jobs.company,
+        area: jobs.area,
+        url: jobs.url,
+        source: jobs.source,
+        canonicalJobId: jobs.canonicalJobId,
+        createdAt: jobs.createdAt
+      })
+      .from(jobs)
+      .where(inArray(jobs.id, group.jobIds))
+      .orderBy(sql`${jobs.canonicalJobId} is not null`, asc(jobs.createdAt), asc(jobs.id))
+  }
+
+  /**
+   * Grouped jobs that may be duplicates of the given one, oldest first
+   */
+  private async candidates(
+    job: { id: string; employerId: string | null; source: string | null },
+    key: string | null,
+    bands: string[] | null
+  ) {
+    const lookups: SQL[] = []
+    if (key) lookups.push(eq(jobs.dedupKey, key))
+    if (job.employerId) lookups.push(and(eq(jobs.employerId, job.employerId), eq(jobs.source, job.source ?? 'hh.ru'))!)
+    if (bands) lookups.push(arrayOverlaps(jobs.minhashBands, bands))
+    if (lookups.length === 0) return []
+
+    const rows = await this.db
+      .select({ ...dedupColumns, minhash: jobs.descriptionMinhash })
+      .from(jobs)
+      .where(and(
+        or(...lookups),
+        isNotNull(jobs.dedupedAt),
+        // Never the job itself or its own duplicates, so groups cannot form a cycle
+        ne(sql`coalesce(${jobs.canonicalJobId}, ${jobs.id})`, job.id)
+      ))
+      .orderBy(asc(jobs.createdAt), asc(jobs.id))
+      .limit(MAX_CANDIDATES)
+
+    return rows
+  }
+}
+
+export const jobDedup = new JobDedupService(db)
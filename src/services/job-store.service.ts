@@ -0,0 +1,452 @@
+/**
+ * Local job store.
+ *
+ * Every job Core returns (search results, job details) or pushes through the
+ * broadcast endpoint is upserted into the jobs table, and searches are served
+ * from it with Postgres full-text search (Russian and English, see migration
+ * 0013). Core is only asked when a search has not been sent to it within
+ * JOB_SEARCH_CACHE_TTL_MS, or when a job is not stored (or is stale).
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { jobs } from '../db/schema'
+import { and, arrayContains, count, desc, eq, gte, ilike, inArray, isNotNull, ne, or, sql, type SQL } from 'drizzle-orm'
+import { env } from '../config/env'
+import { proxyToCore } from './core.proxy'
+import { cache } from './cache.service'
+import { normalizeSkills } from './skill-taxonomy.service'
+import { parseSalary, parseSalaryObject } from './salary.service'
+import { JobDedupService } from './job-dedup.service'
+import { hashString } from '../utils/crypto'
+import { logger } from '../utils/logger'
+import type { JobSearchRequest, ParsedSalary } from '../types'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+/**
+ * Core could not answer and nothing was stored to answer from
+ */
+export class CoreJobsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export const jobColumns = {
+  id: jobs.id,
+  externalId: jobs.externalId,
+  hhVacancyId: jobs.hhVacancyId,
+  title: jobs.title,
+  company: jobs.company,
+  salary: jobs.salary,
+  salaryMin: jobs.salaryMin,
+  salaryMax: jobs.salaryMax,
+  salaryCurrency: jobs.salaryCurrency,
+  salaryGross: jobs.salaryGross,
+  salaryPeriod: jobs.salaryPeriod,
+  salaryMinBase: jobs.salaryMinBase,
+  salaryMaxBase: jobs.salaryMaxBase,
+  area: jobs.area,
+  url: jobs.url,
+  description: jobs.description,
+  skills: jobs.skills,
+  source: jobs.source,
+  hasTest: jobs.hasTest,
+  testRequired: jobs.testRequired,
+  employerId: jobs.employerId,
+  publishedAt: jobs.publishedAt,
+  fetchedAt: jobs.fetchedAt,
+  canonicalJobId: jobs.canonicalJobId
+}
+
+type JobRow = typeof jobs.$inferInsert
+
+function text(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null
+  if (typeof value === 'number') return String(value)
+  return null
+}
+
+function date(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? null : parsed
+}
+
+/**
+ * Salary text and parsed columns from a salary as Core sends it: text, or
+ * HH's { from, to, currency, gross } object
+ */
+function salaryColumns(value: unknown) {
+  let salary = text(value)
+  let parsed: ParsedSalary | null = null
+  if (value && typeof value === 'object') {
+    const fromObject = parseSalaryObject(value as Record<string, any>)
+    salary = fromObject?.text ?? null
+    parsed = fromObject?.parsed ?? null
+  } else {
+    parsed = parseSalary(salary)
+  }
+
+  return {
+    salary: salary?.slice(0, 255) ?? null,
+    salaryMin: parsed?.min ?? null,
+    salaryMax: parsed?.max ?? null,
+    salaryCurrency: parsed?.currency ?? null,
+    salaryGross: parsed?.gross ?? null,
+    salaryPeriod: parsed?.period ?? null,
+    salaryMinBase: parsed?.minBase ?? null,
+    salaryMaxBase: parsed?.maxBase ?? null
+  }
+}
+
+/**
+ * A jobs row from a job as Core sends it. Search results and details use
+ * snake_case, broadcasts camelCase; fields Core leaves out are null so an
+ * upsert keeps what is already stored (the test flags are always sent).
+ * Jobs without an id or title are skipped.
+ */
+export function parseCoreJob(raw: any, searchQuery?: string): JobRow | null {
+  if (!raw || typeof raw !== 'object') return null
+
+  const hhVacancyId = text(raw.hh_vacancy_id ?? raw.hhVacancyId)
+  const externalId = text(raw.external_id ?? raw.externalId) ?? hhVacancyId ?? text(raw.id)
+  const title = text(raw.title ?? raw.name)
+  if (!externalId || !title) return null
+
+  const skills = raw.skills ?? raw.key_skills
+
+  return {
+    externalId,
+    hhVacancyId,
+    title: title.slice(0, 255),
+    company: text(raw.company ?? raw.employer?.name)?.slice(0, 255) ?? null,
+    ...salaryColumns(raw.salary),
+    area: text(typeof raw.area === 'object' ? raw.area?.name : raw.area)?.slice(0, 255) ?? null,
+    url: text(raw.url ?? raw.alternate_url),
+    description: text(raw.description),
+    source: text(raw.source) ?? 'hh.ru',
+    employerId: text(raw.employer_id ?? raw.employerId ?? raw.employer?.id),
+    skills: Array.isArray(skills)
+      ? normalizeSkills(skills.map((s: any) => (s?.name ?? s).toString()))
+      : null,
+    hasTest: (raw.has_test ?? raw.hasTest) === true,
+    testRequired: (raw.test_required ?? raw.testRequired) === true,
+    publishedAt: date(raw.published_at ?? raw.publishedAt),
+    searchQuery: searchQuery?.slice(0, 255) ?? null,
+    fetchedAt: new Date()
+  }
+}
+
+/**
+ * Search parameters Core filters on; a search with the same ones is answered locally
+ */
+function coreParams(request: JobSearchRequest) {
+  const { text, area, experience, employment, schedule } = request
+  return { text, area, experience, employment, schedule }
+}
+
+// HH area ids are only known to Core; area names are matched locally
+const isAreaId = (area: string) => /^\d+$/.test(area)
+
+/**
+ * Whether a search filters on something only Core can check
+ */
+export function hasCoreOnlyFilters(request: Partial<JobSearchRequest>) {
+  return Boolean(request.experience || request.employment || request.schedule || (request.area && isAreaId(request.area)))
+}
+
+const searchVector = sql`"jobs"."search_vector"`
+const freshness = sql`coalesce(${jobs.publishedAt}, ${jobs.fetchedAt}, ${jobs.createdAt})`
+
+function textQuery(text: string | undefined): SQL | null {
+  const query = text?.trim()
+  return query
+    ? sql`(websearch_to_tsquery('russian', ${query}) || websearch_to_tsquery('english', ${query}) || websearch_to_tsquery('simple', ${query}))`
+    : null
+}
+
+/**
+ * Conditions of the filters the local store checks itself
+ */
+function localFilters(request: JobSearchRequest): SQL[] {
+  const conditions: SQL[] = []
+  if (request.area && !isAreaId(request.area)) {
+    conditions.push(ilike(jobs.area, `%${request.area}%`))
+  }
+  if (request.onlyWithSalary) {
+    conditions.push(and(isNotNull(jobs.salary), ne(jobs.salary, ''))!)
+  }
+  // Jobs whose salary range overlaps the requested one; "от 200 000" counts as 200 000
+  if (request.salaryFrom !== undefined) {
+    conditions.push(sql`coalesce(${jobs.salaryMaxBase}, ${jobs.salaryMinBase}) >= ${request.salaryFrom}`)
+  }
+  if (request.salaryTo !== undefined) {
+    conditions.push(sql`coalesce(${jobs.salaryMinBase}, ${jobs.salaryMaxBase}) <= ${request.salaryTo}`)
+  }
+  const skills = normalizeSkills(request.skills ?? [])
+  if (skills.length > 0) {
+    conditions.push(arrayContains(jobs.skills, skills))
+  }
+  if (request.hasTest !== undefined) {
+    conditions.push(eq(jobs.hasTest, request.hasTest))
+  }
+  if (request.publishedWithinDays) {
+    conditions.push(sql`${freshness} >= now() - make_interval(days => ${request.publishedWithinDays})`)
+  }
+  return conditions
+}
+
+// A job is grouped again when what deduplication compares changes
+const regroup = sql.raw(`case when ${['title', 'company', 'description', 'employer_id', 'area']
+  .map(column => `coalesce(excluded."${column}", "jobs"."${column}") is distinct from "jobs"."${column}"`)
+  .join(' or ')} then null else "jobs"."deduped_at" end`)
+
+export class JobStoreService {
+  private dedup: JobDedupService
+
+  constructor(private db: DB) {
+    this.dedup = new JobDedupService(db)
+  }
+
+  /**
+   * Insert or update jobs by external id and group new or changed ones with
+   * their duplicates. Returns the stored jobs.
+   */
+  async upsertJobs(rawJobs: unknown[], searchQuery?: string) {
+    // One row per external id: Postgres refuses to update a row twice in one statement
+    const rows = new Map<string, JobRow>()
+    for (const raw of rawJobs) {
+      const row = parseCoreJob(raw, searchQuery)
+      if (row) rows.set(row.externalId, row)
+    }
+    if (rows.size === 0) return []
+
+    const keep = (column: keyof typeof jobs.$inferSelect) =>
+      sql.raw(`coalesce(excluded."${jobs[column].name}", "jobs"."${jobs[column].name}")`)
+    // The parsed salary columns follow the salary text, even where a new text did not parse
+    const withSalary = (column: keyof typeof jobs.$inferSelect) =>
+      sql.raw(`case when excluded."salary" is null then "jobs"."${jobs[column].name}" else excluded."${jobs[column].name}" end`)
+
+    const stored = await this.db
+      .insert(jobs)
+      .values([...rows.values()])
+      .onConflictDoUpdate({
+        target: jobs.externalId,
+        set: {
+          title: sql.raw('excluded."title"'),
+          hhVacancyId: keep('hhVacancyId'),
+          company: keep('company'),
+          salary: keep('salary'),
+          salaryMin: withSalary('salaryMin'),
+          salaryMax: withSalary('salaryMax'),
+          salaryCurrency: withSalary('salaryCurrency'),
+          salaryGross: withSalary('salaryGross'),
+          salaryPeriod: withSalary('salaryPeriod'),
+          salaryMinBase: withSalary('salaryMinBase'),
+          salaryMaxBase: withSalary('salaryMaxBase'),
+          area: keep('area'),
+          url: keep('url'),
+          description: keep('description'),
+          source: keep('source'),
+          employerId: keep('employerId'),
+          skills: keep('skills'),
+          hasTest: sql.raw('excluded."has_test"'),
+          testRequired: sql.raw('excluded."test_required"'),
+          publishedAt: keep('publishedAt'),
+          searchQuery: keep('searchQuery'),
+          fetchedAt: sql.raw('excluded."fetched_at"'),
+          dedupedAt: regroup,
+          updatedAt: new Date()
+        }
+      })
+      .returning(jobColumns)
+
+    // Stored jobs are served even when grouping fails; they are grouped next time
+    try {
+      const canonical = await this.dedup.groupJobs(stored.map(job => job.id))
+      for (const job of stored) {
+        if (canonical.has(job.id)) job.canonicalJobId = canonical.get(job.id)!
+      }
+    } catch (error) {
+      logger.warn('Job deduplication failed', { error: (error as Error).message })
+    }
+    return stored
+  }
+
+  /**
+   * Search stored jobs, asking Core first when it has not seen this search lately.
+   * Jobs Core returned for the search are included even if the full-text index
+   * would not match them, so the local store never finds fewer jobs than Core.
+   */
+  async search(request: JobSearchRequest) {
+    const cacheKey = `jobs:search:${hashString(JSON.stringify(coreParams(request)))}`
+    let fromCore = await cache.get<string[]>(cacheKey)
+    let stale = false
+
+    if (!fromCore) {
+      try {
+        const coreJobs = await this.searchCore(request)
+        const stored = await this.upsertJobs(coreJobs, request.text)
+        fromCore = stored.map(job => job.externalId)
+        await cache.set(cacheKey, fromCore, env.JOB_SEARCH_CACHE_TTL_MS)
+      } catch (error) {
+        logger.warn('Core job search failed, searching stored jobs only', { error: (error as Error).message })
+        stale = true
+      }
+    }
+
+    const { jobs: found, total } = await this.searchLocal(request, fromCore ?? [])
+
+    if (stale && total === 0) {
+      throw new CoreJobsError('Job search is unavailable: Core did not respond and no stored jobs match', 502)
+    }
+    return { jobs: found, total, stale }
+  }
+
+  /**
+   * Full-text search over stored jobs with the local filters. Filters only
+   * Core knows (experience, employment, schedule, area ids) are applied by
+   * restricting the results to the jobs Core returned for them.
+   */
+  async searchLocal(request: JobSearchRequest, fromCore: string[] = []) {
+    const tsQuery = textQuery(request.text)
+    const returnedByCore = inArray(jobs.externalId, fromCore)
+
+    const conditions: SQL[] = []
+    if (hasCoreOnlyFilters(request)) {
+      conditions.push(returnedByCore)
+    } else if (tsQuery) {
+      conditions.push(or(sql`${searchVector} @@ ${tsQuery}`, returnedByCore)!)
+    }
+    conditions.push(...localFilters(request))
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined
+    const sort = request.sort ?? (tsQuery ? 'relevance' : 'date')
+    const orderBy = sort === 'salary'
+      ? [sql`coalesce(${jobs.salaryMaxBase}, ${jobs.salaryMinBase}) desc nulls last`, desc(freshness)]
+      : sort === 'relevance' && tsQuery
+        ? [desc(sql`coalesce(ts_rank(${searchVector}, ${tsQuery}), 0)`), desc(freshness)]
+        : [desc(freshness)]
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+
+    const [found, [{ total }]] = await Promise.all([
+      this.db
+        .select(jobColumns)
+        .from(jobs)
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(limit)
+        .offset(Math.max(request.offset ?? 0, 0)),
+      this.db.select({ total: count() }).from(jobs).where(where)
+    ])
+
+    return { jobs: found, total }
+  }
+
+  /**
+   * The given stored jobs that match a search's text and local filters,
+   * newest first. Filters only Core knows are not checked here.
+   *
+   * @param since Only jobs published at or after this time (first stored,
+   *   for jobs without a publication date)
+   */
+  async filterJobs(request: JobSearchRequest, externalIds: string[], since?: Date) {
+    if (externalIds.length === 0) return []
+
+    const tsQuery = textQuery(request.text)
+    const conditions: SQL[] = [inArray(jobs.externalId, externalIds), ...localFilters(request)]
+    if (tsQuery) {
+      conditions.push(sql`${searchVector} @@ ${tsQuery}`)
+    }
+    if (since) {
+      conditions.push(gte(sql`coalesce(${jobs.publishedAt}, ${jobs.createdAt})`, since))
+    }
+
+    return await this.db
+      .select(jobColumns)
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(freshness))
+  }
+
+  /**
+   * A stored job by id, external id or HH vacancy id
+   */
+  async getJob(id: string) {
+    const byId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) ? [eq(jobs.id, id)] : []
+    const [job] = await this.db
+      .select(jobColumns)
+      .from(jobs)
+      .where(or(...byId, eq(jobs.externalId, id), eq(jobs.hhVacancyId, id)))
+      .limit(1)
+    return job ?? null
+  }
+
+  /**
+   * Job details: stored ones while they are complete and fresh, otherwise from
+   * Core (and stored). A stale stored job is still served when Core is down.
+   */
+  async findJob(id: string) {
+    const stored = await this.getJob(id)
+    const fresh = stored?.description && stored.fetchedAt &&
+      Date.now() - stored.fetchedAt.getTime() < env.JOB_DETAILS_TTL_MS
+    if (stored && fresh) return stored
+
+    try {
+      const [job] = await this.upsertJobs([await this.fetchCoreJob(stored?.hhVacancyId ?? stored?.externalId ?? id)])
+      return job ?? stored
+    } catch (error) {
+      if (stored) {
+        logger.warn('Core job fetch failed, serving the stored job', { jobId: id, error: (error as Error).message })
+        return stored
+      }
+      throw error
+    }
+  }
+
+  private async searchCore(request: JobSearchRequest): Promise<unknown[]> {
+    const response = await proxyToCore({
+      path: '/api/jobs/search',
+      method: 'POST',
+      body: coreParams(request),
+      retryOptions: {
+        maxRetries: 3,
+        retryableStatuses: [502, 503, 504],
+        onRetry: (attempt, error) => {
+          logger.warn('Retrying job search', { attempt, error: error.message })
+        }
+      }
+    })
+
+    if (!response.ok) {
+      throw new CoreJobsError(`Phoenix Core error: ${response.status} - ${await response.text()}`, 502)
+    }
+    const data = await response.json()
+    return Array.isArray(data.jobs) ? data.jobs : []
+  }
+
+  private async fetchCoreJob(id: string): Promise<unknown> {
+    const response = await proxyToCore({
+      path: `/api/jobs/${encodeURIComponent(id)}`,
+      method: 'GET',
+      retryOptions: {
+        maxRetries: 3,
+        retryableStatuses: [502, 503, 504],
+        onRetry: (attempt, error) => {
+          logger.warn('Retrying job fetch', { attempt, jobId: id, error: error.message })
+        }
+      }
+    })
+
+    if (!response.ok) {
+      throw new CoreJobsError(`Phoenix Core error: ${response.status} - ${await response.text()}`, response.status === 404 ? 404 : 502)
+    }
+    const data = await response.json()
+    return data.job
+  }
+}
+
+export const jobStore = new JobStoreService(db)
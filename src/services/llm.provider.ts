@@ -0,0 +1,387 @@
+/**
+ * LLM provider layer - one chat interface over OpenRouter, a local
+ * OpenAI-compatible endpoint and a deterministic fake for offline runs
+ */
+
+import { env } from '../config/env'
+import { hashString } from '../utils/crypto'
+import { logger } from '../utils/logger'
+import type { LLMChatRequest, LLMChatResponse, LLMModel, LLMUsage } from '../types'
+
+export type LLMDeltaHandler = (delta: string) => void
+
+export interface LLMProvider {
+  readonly name: string
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>
+  /**
+   * Same as chat, but calls onDelta for every content token as it arrives
+   */
+  chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse>
+  listModels(): Promise<LLMModel[]>
+}
+
+/**
+ * Map an OpenAI-style `usage` object to our shape
+ */
+function parseUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined
+  const promptTokens = Number(usage.prompt_tokens ?? 0)
+  const completionTokens = Number(usage.completion_tokens ?? 0)
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(usage.total_tokens ?? promptTokens + completionTokens)
+  }
+}
+
+/**
+ * Shared request/response handling for OpenAI-compatible chat endpoints
+ */
+async function postChatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  request: LLMChatRequest,
+  providerLabel: string
+): Promise<LLMChatResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`${providerLabel} API error: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  const content = data.choices?.[0]?.message?.content
+
+  if (!content) {
+    throw new Error('No response from AI service')
+  }
+
+  return {
+    content,
+    model: data.model || request.model,
+    usage: parseUsage(data.usage)
+  }
+}
+
+/**
+ * Streaming variant: reads the server-sent events of an OpenAI-compatible
+ * endpoint and returns the accumulated content once the stream ends
+ */
+async function streamChatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  request: LLMChatRequest,
+  providerLabel: string,
+  onDelta: LLMDeltaHandler
+): Promise<LLMChatResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...headers
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true }
+    })
+  })
+
+  if (!response.ok || !response.body) {
+    throw new Error(`${providerLabel} API error: ${response.statusText}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+  let model = request.model
+  let usage: LLMUsage | undefined
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('data:')) return
+
+    const payload = trimmed.slice(5).trim()
+    if (!payload || payload === '[DONE]') return
+
+    try {
+      const chunk = JSON.parse(payload)
+      const delta = chunk.choices?.[0]?.delta?.content
+      if (chunk.model) model = chunk.model
+      if (chunk.usage) usage = parseUsage(chunk.usage)
+      if (typeof delta === 'string' && delta.length > 0) {
+        content += delta
+        onDelta(delta)
+      }
+    } catch {
+      // Comments and keep-alive payloads are not JSON
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    lines.forEach(handleLine)
+  }
+  handleLine(buffer)
+
+  if (!content) {
+    throw new Error('No response from AI service')
+  }
+
+  return { content, model, usage }
+}
+
+/**
+ * OpenRouter (https://openrouter.ai)
+ */
+export class OpenRouterProvider implements LLMProvider {
+  readonly name = 'openrouter'
+  constructor(
+    private apiKey: string = env.OPENROUTER_API_KEY,
+    private baseURL: string = env.OPENROUTER_BASE_URL
+  ) {}
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return postChatCompletion(`${this.baseURL}/chat/completions`, {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'HTTP-Referer': 'https://ullgetthejob.com',
+      'X-Title': request.title || 'UllGetTheJob'
+    }, request, 'OpenRouter')
+  }
+
+  async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+    return streamChatCompletion(`${this.baseURL}/chat/completions`, {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'HTTP-Referer': 'https://ullgetthejob.com',
+      'X-Title': request.title || 'UllGetTheJob'
+    }, request, 'OpenRouter', onDelta)
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    const response = await fetch(`${this.baseURL}/models`, {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` }
+    })
+    if (!response.ok) {
+      return []
+    }
+    const data = await response.json()
+
+    return (data.data || [])
+      .filter((m: any) =>
+        m.id?.includes('claude') ||
+        m.id?.includes('gpt') ||
+        m.id?.includes('gemini') ||
+        m.id?.includes('llama')
+      )
+      .map((m: any) => ({
+        id: m.id,
+        name: m.name,
+        provider: String(m.id).split('/')[0],
+        description: m.description,
+        pricing: m.pricing
+      }))
+  }
+}
+
+/**
+ * OpenAI-compatible local endpoint (llama.cpp server, Ollama, vLLM, ...)
+ *
+ * Requested model ids are OpenRouter ids (e.g. anthropic/claude-3.5-sonnet),
+ * so when LLM_LOCAL_MODEL is set every request is served by that model.
+ */
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local'
+
+  constructor(
+    private baseURL: string = env.LLM_LOCAL_URL,
+    private modelOverride: string = env.LLM_LOCAL_MODEL,
+    private apiKey: string = env.LLM_LOCAL_API_KEY
+  ) {}
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return postChatCompletion(`${this.baseURL.replace(/\/$/, '')}/chat/completions`, this.headers(), {
+      ...request,
+      model: this.modelOverride || request.model
+    }, 'Local LLM')
+  }
+
+  async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+    return streamChatCompletion(`${this.baseURL.replace(/\/$/, '')}/chat/completions`, this.headers(), {
+      ...request,
+      model: this.modelOverride || request.model
+    }, 'Local LLM', onDelta)
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    try {
+      const response = await fetch(`${this.baseURL.replace(/\/$/, '')}/models`)
+      if (!response.ok) {
+        return []
+      }
+      const data = await response.json()
+
+      return (data.data || []).map((m: any) => ({
+        id: m.id,
+        name: m.id,
+        provider: 'local',
+        description: m.owned_by ? `Served by ${m.owned_by}` : undefined
+      }))
+    } catch (error) {
+      logger.warn('Failed to list local LLM models', { baseURL: this.baseURL, error: (error as Error).message })
+      return []
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}
+  }
+}
+
+type FakeResponder = (request: LLMChatRequest) => string | undefined
+
+/**
+ * Deterministic fake provider for tests, CI and air-gapped environments.
+ *
+ * Registered responders are tried in order. Otherwise, prompts that ask for
+ * JSON are answered with the shape they describe (placeholders like `0-100` are
+ * filled in) and all other prompts get a stable text derived from the prompt hash.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake'
+  private responders: FakeResponder[] = []
+
+  /**
+   * Answer prompts containing `match` with a fixed content
+   */
+  respondTo(match: string | RegExp, content: string): this {
+    this.responders.push((request) => {
+      const prompt = request.messages.map(m => m.content).join('\n')
+      const matched = typeof match === 'string' ? prompt.includes(match) : match.test(prompt)
+      return matched ? content : undefined
+    })
+    return this
+  }
+
+  /**
+   * Register a custom responder; return undefined to fall through
+   */
+  use(responder: FakeResponder): this {
+    this.responders.push(responder)
+    return this
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const prompt = request.messages.map(m => m.content).join('\n')
+
+    let content: string | undefined
+    for (const responder of this.responders) {
+      content = responder(request)
+      if (content !== undefined) break
+    }
+
+    content ??= this.defaultResponse(prompt, request.title)
+
+    const promptTokens = Math.ceil(prompt.length / 4)
+    const completionTokens = Math.ceil(content.length / 4)
+
+    return {
+      content,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+
+  /**
+   * Emits the deterministic response in fixed-size chunks
+   */
+  async chatStream(request: LLMChatRequest, onDelta: LLMDeltaHandler): Promise<LLMChatResponse> {
+    const response = await this.chat(request)
+    for (let i = 0; i < response.content.length; i += 16) {
+      onDelta(response.content.slice(i, i + 16))
+    }
+    return response
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    return [{ id: 'fake/deterministic', name: 'Fake deterministic model', provider: 'fake' }]
+  }
+
+  private defaultResponse(prompt: string, title?: string): string {
+    const skeleton = this.extractJSONSkeleton(prompt)
+    if (skeleton) return skeleton
+
+    return `Fake response for ${title || 'prompt'} (${hashString(prompt).slice(0, 12)})`
+  }
+
+  /**
+   * Take the first balanced {...} block after the last "JSON" mention and make it valid JSON
+   */
+  private extractJSONSkeleton(prompt: string): string | undefined {
+    const marker = prompt.lastIndexOf('JSON')
+    if (marker === -1) return undefined
+
+    const start = prompt.indexOf('{', marker)
+    if (start === -1) return undefined
+
+    let depth = 0
+    for (let i = start; i < prompt.length; i++) {
+      if (prompt[i] === '{') depth++
+      if (prompt[i] === '}') depth--
+      if (depth === 0) {
+        const candidate = prompt.slice(start, i + 1)
+          .replace(/:\s*0-100/g, ': 50')
+          .replace(/:\s*true\/false/g, ': true')
+          .replace(/\]\s+or\s+\[\]/g, ']')
+          .replace(/"([\w-]+)(\|[\w-]+)+"/g, '"$1"') // "a|b|c" enums take their first option
+        try {
+          return JSON.stringify(JSON.parse(candidate))
+        } catch {
+          return undefined
+        }
+      }
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Build the provider configured for this environment (LLM_PROVIDER)
+ */
+export function createLLMProvider(name: string = env.LLM_PROVIDER): LLMProvider {
+  switch (name) {
+    case 'local':
+      return new LocalLLMProvider()
+    case 'fake':
+      return new FakeLLMProvider()
+    case 'openrouter':
+      return new OpenRouterProvider()
+    default:
+      logger.warn('Unknown LLM_PROVIDER, falling back to openrouter', { provider: name })
+      return new OpenRouterProvider()
+  }
+}
+
+export const llmProvider = createLLMProvider()
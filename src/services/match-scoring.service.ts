@@ -0,0 +1,260 @@
+/**
+ * CV-to-job match scoring.
+ *
+ * Skills are compared after normalization ("React.js" and "ReactJS" are
+ * "react", "Postgres" is "postgresql"), so naming differences do not count
+ * against a candidate. A more specific skill partly covers a general one
+ * (Next.js for React), and so does a skill of the same family (MySQL for
+ * PostgreSQL). Required skills weigh twice as much as preferred ones, and
+ * seniority (level and years of experience) makes up the rest of the score.
+ */
+
+import { ancestorSkills, findSkillMention, relatedSkills, skillId } from './skill-taxonomy.service'
+import type { JobSkills, MatchJobInput, MatchScore, ParsedCV, SeniorityLevel, SeniorityMatch, SkillMatch } from '../types'
+
+const SKILLS_WEIGHT = 0.8
+const SENIORITY_WEIGHT = 0.2
+
+const IMPORTANCE_WEIGHTS: Record<SkillMatch['importance'], number> = { required: 1, preferred: 0.5 }
+
+const CREDITS: Record<SkillMatch['kind'], number> = {
+  exact: 1,
+  alias: 1,
+  implied: 0.8, // the CV has a more specific skill, e.g. Next.js for React
+  mentioned: 0.7, // not in the skill list, but named in the CV text
+  related: 0.5, // same family, e.g. MySQL for PostgreSQL
+  missing: 0
+}
+
+interface CVSkillIndex {
+  skills: Map<string, string> // canonical -> as written in the CV
+  implied: Map<string, string> // canonical -> CV skill that implies it
+  text: string
+}
+
+function indexCV(cv: ParsedCV): CVSkillIndex {
+  const skills = new Map<string, string>()
+  for (const skill of cv.skills ?? []) {
+    const canonical = skillId(skill)
+    if (canonical && !skills.has(canonical)) skills.set(canonical, skill)
+  }
+
+  const implied = new Map<string, string>()
+  for (const [canonical, original] of skills) {
+    for (const general of ancestorSkills(canonical)) {
+      if (!implied.has(general)) implied.set(general, original)
+    }
+  }
+
+  const text = [cv.title, cv.summary, cv.experience, cv.projects].filter(Boolean).join('\n')
+  return { skills, implied, text }
+}
+
+function matchSkill(skill: string, importance: SkillMatch['importance'], cv: CVSkillIndex): SkillMatch {
+  const canonical = skillId(skill)
+  const result = (kind: SkillMatch['kind'], matchedBy?: string): SkillMatch =>
+    ({ skill, importance, kind, credit: CREDITS[kind], ...(matchedBy !== undefined ? { matchedBy } : {}) })
+
+  const own = cv.skills.get(canonical)
+  if (own !== undefined) {
+    return result(own.trim().toLowerCase() === skill.trim().toLowerCase() ? 'exact' : 'alias', own)
+  }
+
+  const implying = cv.implied.get(canonical)
+  if (implying !== undefined) return result('implied', implying)
+
+  const term = findSkillMention(cv.text, canonical)
+  if (term) return result('mentioned', term)
+
+  for (const related of relatedSkills(canonical)) {
+    const cvSkill = cv.skills.get(related)
+    if (cvSkill !== undefined) return result('related', cvSkill)
+  }
+
+  return result('missing')
+}
+
+/**
+ * Skills of a job with their importance, each skill once: listed key skills
+ * and AI-extracted required skills are required, other extracted skills preferred
+ */
+function jobSkillList(job: MatchJobInput): Array<{ skill: string, importance: SkillMatch['importance'] }> {
+  const extracted: JobSkills | undefined = job.jobSkills
+  const entries: Array<{ skill: string, importance: SkillMatch['importance'] }> = [
+    ...(job.skills ?? []).map(skill => ({ skill, importance: 'required' as const })),
+    ...(extracted?.required ?? []).map(skill => ({ skill, importance: 'required' as const })),
+    ...[...(extracted?.preferred ?? []), ...(extracted?.frameworks ?? []), ...(extracted?.tools ?? [])]
+      .map(skill => ({ skill, importance: 'preferred' as const }))
+  ]
+
+  const seen = new Set<string>()
+  return entries.filter(({ skill }) => {
+    const canonical = skillId(skill)
+    if (!canonical || seen.has(canonical)) return false
+    seen.add(canonical)
+    return true
+  })
+}
+
+// ============================================================================
+// Seniority
+// ============================================================================
+
+const LEVELS: SeniorityLevel[] = ['intern', 'junior', 'middle', 'senior', 'lead']
+
+// Checked from the highest level down, so "Senior Team Lead" is a lead
+const LEVEL_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ['lead', /(?<![\p{L}])(lead|team ?lead|tech ?lead|principal|staff|head of|architect|cto|тимлид|техлид|руководитель|архитектор)(?![\p{L}])/iu],
+  ['senior', /(?<![\p{L}])(senior|sr\.?|старший|ведущий|сеньор)(?![\p{L}])/iu],
+  ['middle', /(?<![\p{L}])(middle|mid|mid-level|мидл)(?![\p{L}])/iu],
+  ['junior', /(?<![\p{L}])(junior|jr\.?|младший|джуниор|начинающий)(?![\p{L}])/iu],
+  ['intern', /(?<![\p{L}])(intern|internship|trainee|стаж[её]р|стажировка)(?![\p{L}])/iu]
+]
+
+export function detectSeniority(text: string | null | undefined): SeniorityLevel | null {
+  if (!text) return null
+  return LEVEL_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null
+}
+
+/**
+ * Years of experience a job asks for: "3+ years", "at least 2 years",
+ * "опыт работы от 3 лет", "не менее 2 лет"
+ */
+export function parseRequiredYears(text: string | null | undefined): number | null {
+  if (!text) return null
+  const patterns = [
+    /(\d{1,2})\s*\+?\s*(?:-|–|to)?\s*(?:\d{1,2}\s*)?(?:years?|yrs?)(?:\s+of)?\s+(?:\w+\s+){0,3}?experience/i,
+    /(?:at least|minimum(?: of)?|min\.?)\s*(\d{1,2})\s*(?:years?|yrs?)/i,
+    /опыт[^.\n]{0,40}?(\d{1,2})\s*\+?\s*(?:лет|года?)/i,
+    /(?:от|не менее|более)\s*(\d{1,2})(?:-х|-ти)?\s*(?:лет|года?)\s+(?:\p{L}+\s+)?опыта/iu
+  ]
+  for (const pattern of patterns) {
+    const match = pattern.exec(text)
+    if (match) return Number(match[1])
+  }
+  return null
+}
+
+const PRESENT = /^(present|now|current|today|н\.?\s?в\.?|(?:по )?настоящее время|сейчас)$/i
+
+/**
+ * Years of experience in a CV: the union of date ranges like "2019-2023" or
+ * "2021 – present" in the experience section, or a stated "5 years" in the
+ * summary, whichever is longer
+ */
+export function estimateCVYears(cv: ParsedCV, now = new Date()): number | null {
+  const currentYear = now.getFullYear()
+  const ranges: Array<[number, number]> = []
+
+  const rangePattern = /((?:19|20)\d{2})\s*(?:-|–|—|to|по)\s*((?:19|20)\d{2}|present|now|current|today|н\.?\s?в\.?|(?:по )?настоящее время|сейчас)/giu
+  for (const [, from, to] of (cv.experience ?? '').matchAll(rangePattern)) {
+    const start = Number(from)
+    const end = PRESENT.test(to.trim()) ? currentYear : Number(to)
+    if (start <= end && end <= currentYear) ranges.push([start, end])
+  }
+
+  // Merge overlapping ranges so parallel jobs are not counted twice
+  ranges.sort((a, b) => a[0] - b[0])
+  let fromRanges = 0
+  let covered = -Infinity
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, covered)
+    if (end > from) fromRanges += end - from
+    covered = Math.max(covered, end)
+  }
+
+  const stated = /(\d{1,2})\+?\s*(?:years?|yrs?|лет|года?)/i.exec(cv.summary ?? '')
+  const years = Math.max(fromRanges, stated ? Number(stated[1]) : 0)
+  return years > 0 ? years : null
+}
+
+function levelFromYears(years: number): SeniorityLevel {
+  if (years < 1) return 'intern'
+  if (years < 2) return 'junior'
+  if (years < 5) return 'middle'
+  return 'senior'
+}
+
+const LEVEL_GAP_SCORES: Record<number, number> = { [-2]: 20, [-1]: 60, 0: 100, 1: 85, 2: 60 }
+
+export function scoreSeniority(cv: ParsedCV, job: MatchJobInput, now = new Date()): SeniorityMatch {
+  const jobLevel = detectSeniority(job.title)
+  const requiredYears = parseRequiredYears(job.description)
+  const cvYears = estimateCVYears(cv, now)
+  const cvLevel = detectSeniority(cv.title) ?? (cvYears !== null ? levelFromYears(cvYears) : null)
+
+  const signals: number[] = []
+  if (jobLevel && cvLevel) {
+    const gap = Math.max(-2, Math.min(2, LEVELS.indexOf(cvLevel) - LEVELS.indexOf(jobLevel)))
+    signals.push(LEVEL_GAP_SCORES[gap])
+  }
+  if (requiredYears && cvYears !== null) {
+    signals.push(Math.min(cvYears / requiredYears, 1) * 100)
+  }
+
+  return {
+    score: signals.length > 0 ? Math.round(signals.reduce((a, b) => a + b, 0) / signals.length) : null,
+    jobLevel,
+    cvLevel,
+    requiredYears,
+    cvYears
+  }
+}
+
+// ============================================================================
+// Match
+// ============================================================================
+
+function explain(matches: SkillMatch[], seniority: SeniorityMatch): string[] {
+  const reasons: string[] = []
+  const names = (items: SkillMatch[]) => items.map(m => m.matchedBy && m.kind !== 'exact' ? `${m.skill} (${m.matchedBy})` : m.skill).join(', ')
+
+  const covered = matches.filter(m => m.kind === 'exact' || m.kind === 'alias')
+  const partial = matches.filter(m => m.kind === 'implied' || m.kind === 'related' || m.kind === 'mentioned')
+  const missingRequired = matches.filter(m => m.kind === 'missing' && m.importance === 'required')
+  const missingPreferred = matches.filter(m => m.kind === 'missing' && m.importance === 'preferred')
+
+  if (matches.length === 0) reasons.push('The job lists no skills to compare')
+  if (covered.length > 0) reasons.push(`Has ${names(covered)}`)
+  if (partial.length > 0) reasons.push(`Partly covers ${names(partial)}`)
+  if (missingRequired.length > 0) reasons.push(`Missing required ${names(missingRequired)}`)
+  if (missingPreferred.length > 0) reasons.push(`Missing preferred ${names(missingPreferred)}`)
+
+  if (seniority.jobLevel && seniority.cvLevel && seniority.jobLevel !== seniority.cvLevel) {
+    reasons.push(`Job is ${seniority.jobLevel} level, CV reads as ${seniority.cvLevel}`)
+  }
+  if (seniority.requiredYears && seniority.cvYears !== null && seniority.cvYears < seniority.requiredYears) {
+    reasons.push(`Job asks for ${seniority.requiredYears}+ years of experience, CV shows ${seniority.cvYears}`)
+  }
+  return reasons
+}
+
+/**
+ * Score how well a CV matches a job, 0-100, with the breakdown behind it
+ */
+export function scoreMatch(cv: ParsedCV, job: MatchJobInput, now = new Date()): MatchScore {
+  const index = indexCV(cv)
+  const matches = jobSkillList(job).map(({ skill, importance }) => matchSkill(skill, importance, index))
+
+  const totalWeight = matches.reduce((sum, m) => sum + IMPORTANCE_WEIGHTS[m.importance], 0)
+  const skillsScore = totalWeight > 0
+    ? Math.round(matches.reduce((sum, m) => sum + IMPORTANCE_WEIGHTS[m.importance] * m.credit, 0) / totalWeight * 100)
+    : null
+
+  const seniority = scoreSeniority(cv, job, now)
+
+  // Without seniority signals the skills decide alone; without skills there is nothing to match on
+  let score = 0
+  if (skillsScore !== null) {
+    score = seniority.score !== null
+      ? Math.round(skillsScore * SKILLS_WEIGHT + seniority.score * SENIORITY_WEIGHT)
+      : skillsScore
+  }
+
+  return {
+    score,
+    skills: { score: skillsScore, matches },
+    seniority,
+    reasons: explain(matches, seniority)
+  }
+}
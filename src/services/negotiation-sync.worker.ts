@@ -0,0 +1,236 @@
+/**
+ * Periodic refresh of HH negotiation status for submitted applications.
+ *
+ * Applications with a negotiation id are checked through Core, least recently
+ * synced first, until they reach a final status. Changes are stored on the
+ * application, appended to its timeline and pushed to the owner over /ws.
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { applications, jobs } from '../db/schema'
+import { and, eq, isNotNull, isNull, lt, notInArray, or, inArray, sql } from 'drizzle-orm'
+import { env } from '../config/env'
+import { proxyToCore } from './core.proxy'
+import { ApplicationTrackerService } from './application-tracker.service'
+import { realtime } from './realtime.service'
+import { userService } from './user.service'
+import { logger } from '../utils/logger'
+import type { HHNegotiationStatus } from '../types'
+
+export interface NegotiationSyncOptions {
+  pollIntervalMs: number
+  batchSize: number
+  staleMs: number
+}
+
+// Negotiations that will not change any more
+const FINAL_STATUSES: HHNegotiationStatus[] = ['discard', 'hired']
+
+type SyncRow = {
+  id: string
+  userId: string
+  jobId: string | null
+  jobExternalId: string
+  hhNegotiationId: string | null
+  hhStatus: string | null
+}
+
+/**
+ * Read the status of an HH negotiation as returned by Core
+ *
+ * @returns The status, or null when the payload has none
+ */
+export function parseNegotiationStatus(payload: unknown): HHNegotiationStatus | null {
+  const body = (payload ?? {}) as Record<string, any>
+  const negotiation = (body.negotiation ?? body) as Record<string, any>
+  const state = typeof negotiation.state === 'string' ? negotiation.state : negotiation.state?.id
+
+  if (typeof state !== 'string' || state === '') return null
+
+  // HH keeps unanswered responses in 'response'; tell apart the ones the employer opened
+  if (state === 'response' && negotiation.viewed_by_opponent === true) {
+    return 'viewed'
+  }
+
+  return state
+}
+
+export class NegotiationSyncWorker {
+  private applicationTracker: ApplicationTrackerService
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private currentTick: Promise<unknown> | null = null
+
+  constructor(
+    private db: DB,
+    private options: NegotiationSyncOptions = {
+      pollIntervalMs: env.HH_SYNC_POLL_INTERVAL_MS,
+      batchSize: env.HH_SYNC_BATCH_SIZE,
+      staleMs: env.HH_SYNC_STALE_MS
+    }
+  ) {
+    this.applicationTracker = new ApplicationTrackerService(db)
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    logger.info('Negotiation sync started', { ...this.options })
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop() {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.currentTick
+    logger.info('Negotiation sync stopped')
+  }
+
+  /**
+   * Sync a batch of applications that have not been checked recently
+   *
+   * @returns Number of applications checked
+   */
+  async tick(): Promise<number> {
+    const due = await this.claim(this.options.batchSize)
+
+    // One at a time to stay gentle on Core and the HH API
+    for (const application of due) {
+      await this.sync(application)
+    }
+
+    return due.length
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return
+
+    this.timer = setTimeout(async () => {
+      let checked = 0
+      try {
+        this.currentTick = this.tick()
+        checked = await (this.currentTick as Promise<number>)
+      } catch (error) {
+        logger.error('Negotiation sync tick failed', error as Error)
+      } finally {
+        this.currentTick = null
+      }
+
+      this.schedule(checked >= this.options.batchSize ? 0 : this.options.pollIntervalMs)
+    }, delayMs)
+  }
+
+  /**
+   * Pick applications due for a check and mark them synced, so other
+   * instances skip them
+   */
+  private async claim(limit: number): Promise<SyncRow[]> {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - this.options.staleMs)
+
+    return await this.db.transaction(async (tx) => {
+      const due = await tx
+        .select({
+          id: applications.id,
+          userId: applications.userId,
+          jobId: applications.jobId,
+          jobExternalId: applications.jobExternalId,
+          hhNegotiationId: applications.hhNegotiationId,
+          hhStatus: applications.hhStatus
+        })
+        .from(applications)
+        .where(and(
+          eq(applications.status, 'submitted'),
+          isNotNull(applications.hhNegotiationId),
+          or(isNull(applications.hhStatus), notInArray(applications.hhStatus, FINAL_STATUSES)),
+          or(isNull(applications.hhStatusSyncedAt), lt(applications.hhStatusSyncedAt, staleBefore))
+        ))
+        .orderBy(sql`${applications.hhStatusSyncedAt} asc nulls first`)
+        .limit(limit)
+        .for('update', { skipLocked: true })
+
+      if (due.length > 0) {
+        await tx
+          .update(applications)
+          .set({ hhStatusSyncedAt: now })
+          .where(inArray(applications.id, due.map(a => a.id)))
+      }
+
+      return due
+    })
+  }
+
+  private async sync(application: SyncRow) {
+    try {
+      const session = await userService.getActiveSession(application.userId)
+      if (!session) {
+        // Checked again once the user signs in and the application is stale
+        return
+      }
+
+      const response = await proxyToCore({
+        path: `/api/hh/negotiations/${encodeURIComponent(application.hhNegotiationId ?? '')}`,
+        token: session.token,
+        sessionId: session.sessionId
+      })
+
+      if (!response.ok) {
+        logger.warn('Failed to fetch HH negotiation', {
+          applicationId: application.id,
+          negotiationId: application.hhNegotiationId,
+          status: response.status
+        })
+        return
+      }
+
+      const payload = await response.json()
+      const status = parseNegotiationStatus(payload)
+      if (!status) {
+        logger.warn('HH negotiation has no status', { applicationId: application.id })
+        return
+      }
+
+      const change = await this.applicationTracker.updateHhStatus(application, status, {
+        negotiationId: application.hhNegotiationId
+      })
+      if (!change) return
+
+      logger.info('HH negotiation status changed', {
+        applicationId: application.id,
+        previousStatus: change.previousStatus,
+        status
+      })
+
+      const [job] = application.jobId
+        ? await this.db
+            .select({ title: jobs.title, company: jobs.company })
+            .from(jobs)
+            .where(eq(jobs.id, application.jobId))
+            .limit(1)
+        : []
+
+      realtime.sendApplicationStatusChanged(application.userId, {
+        applicationId: application.id,
+        jobExternalId: application.jobExternalId,
+        jobTitle: job?.title,
+        company: job?.company,
+        previousStatus: change.previousStatus,
+        status
+      })
+    } catch (error) {
+      logger.warn('HH negotiation sync failed', {
+        applicationId: application.id,
+        error: (error as Error).message
+      })
+    }
+  }
+}
+
+export const negotiationSyncWorker = new NegotiationSyncWorker(db)
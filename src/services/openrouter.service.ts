@@ -1,30 +1,10 @@
-import { env } from '../config/env'
+import { llmProvider, type LLMProvider } from './llm.provider'
+import type { LLMModel } from '../types'
 
 export class OpenRouterService {
-  async getAvailableModels() {
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: { 'Authorization': `Bearer ${env.OPENROUTER_API_KEY}` }
-    })
-    if (!response.ok) {
-      return []
-    }
-    const data = await response.json()
+  constructor(private provider: LLMProvider = llmProvider) {}
 
-    return (data.data || [])
-      .filter((m: any) =>
-        m.id?.includes('claude') ||
-        m.id?.includes('gpt') ||
-        m.id?.includes('gemini') ||
-        m.id?.includes('llama')
-      )
-      .map((m: any) => ({
-        id: m.id,
-        name: m.name,
-        provider: String(m.id).split('/')[0],
-        description: m.description,
-        pricing: m.pricing
-      }))
+  async getAvailableModels(): Promise<LLMModel[]> {
+    return this.provider.listModels()
   }
 }
-
-
@@ -0,0 +1,171 @@
+/**
+ * Registry of versioned prompt templates loaded from src/prompts.
+ *
+ * Each file `<template>.<version>.md` starts with a frontmatter block:
+ *
+ *   ---
+ *   template: job_skills
+ *   version: v2
+ *   weight: 50           # share of users assigned to this version; 0 = retired
+ *   variables: jobDescription, company
+ *   system: optional one-line system message
+ *   ---
+ *
+ * followed by the prompt text with `{{variable}}` placeholders. When several
+ * versions of a template have a weight, users are split between them by a
+ * hash of their id, so each user always gets the same version.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { hashString } from '../utils/crypto'
+import type { PromptTemplateName, PromptVariables, RenderedPrompt } from '../types'
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g
+
+export interface PromptTemplate {
+  template: string
+  version: string
+  weight: number
+  variables: string[]
+  system?: string
+  body: string
+}
+
+/**
+ * Parse a template file, checking that its placeholders match the declared variables
+ */
+export function parsePromptTemplate(source: string, file: string = 'template'): PromptTemplate {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/)
+  if (!match) {
+    throw new Error(`Prompt ${file}: missing frontmatter`)
+  }
+
+  const meta: Record<string, string> = {}
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+    meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+
+  if (!meta.template || !meta.version) {
+    throw new Error(`Prompt ${file}: template and version are required`)
+  }
+
+  const weight = Number(meta.weight ?? 0)
+  if (!Number.isFinite(weight) || weight < 0) {
+    throw new Error(`Prompt ${file}: invalid weight "${meta.weight}"`)
+  }
+
+  const variables = (meta.variables ?? '').split(',').map(v => v.trim()).filter(Boolean)
+  const body = match[2].trim()
+  const used = new Set([...body.matchAll(PLACEHOLDER)].map(m => m[1]))
+
+  const undeclared = [...used].filter(v => !variables.includes(v))
+  const unused = variables.filter(v => !used.has(v))
+  if (undeclared.length > 0 || unused.length > 0) {
+    throw new Error(
+      `Prompt ${file}: placeholders do not match variables` +
+      (undeclared.length ? ` (undeclared: ${undeclared.join(', ')})` : '') +
+      (unused.length ? ` (unused: ${unused.join(', ')})` : '')
+    )
+  }
+
+  return {
+    template: meta.template,
+    version: meta.version,
+    weight,
+    variables,
+    system: meta.system || undefined,
+    body
+  }
+}
+
+/**
+ * Pick the version for a user among weighted versions. Without a user the
+ * version with the highest weight is used.
+ */
+export function assignVersion(versions: PromptTemplate[], userId?: string | null): PromptTemplate | undefined {
+  const candidates = versions.filter(v => v.weight > 0)
+  if (candidates.length === 0) return undefined
+
+  if (!userId) {
+    return candidates.reduce((best, v) => (v.weight > best.weight ? v : best))
+  }
+
+  const total = candidates.reduce((sum, v) => sum + v.weight, 0)
+  const bucket = (parseInt(hashString(`${candidates[0].template}:${userId}`).slice(0, 8), 16) / 0x100000000) * total
+
+  let cumulative = 0
+  for (const version of candidates) {
+    cumulative += version.weight
+    if (bucket < cumulative) return version
+  }
+  return candidates[candidates.length - 1]
+}
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate[]>()
+
+  constructor(templates: PromptTemplate[]) {
+    for (const template of templates) {
+      const versions = this.templates.get(template.template) ?? []
+      if (versions.some(v => v.version === template.version)) {
+        throw new Error(`Prompt ${template.template}: duplicate version ${template.version}`)
+      }
+      versions.push(template)
+      versions.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }))
+      this.templates.set(template.template, versions)
+    }
+  }
+
+  /**
+   * Load every `<template>.<version>.md` file of a directory
+   */
+  static fromDirectory(dir: string): PromptRegistry {
+    const files = readdirSync(dir).filter(file => /^[\w-]+\.[\w-]+\.md$/.test(file))
+    return new PromptRegistry(files.map(file => parsePromptTemplate(readFileSync(join(dir, file), 'utf8'), file)))
+  }
+
+  /**
+   * Render the version of a template assigned to the user
+   *
+   * @param version Use this version instead of the assigned one (e.g. to reproduce a stored output)
+   */
+  render<K extends PromptTemplateName>(
+    name: K,
+    variables: PromptVariables[K],
+    userId?: string | null,
+    version?: string
+  ): RenderedPrompt {
+    const versions = this.templates.get(name) ?? []
+    const template = version
+      ? versions.find(v => v.version === version)
+      : assignVersion(versions, userId)
+
+    if (!template) {
+      throw new Error(`No ${version ? `version ${version} of ` : 'active version of '}prompt template ${name}`)
+    }
+
+    const values = variables as Record<string, string | number>
+    return {
+      template: name,
+      version: template.version,
+      system: template.system,
+      text: template.body.replace(PLACEHOLDER, (_, key: string) => String(values[key] ?? ''))
+    }
+  }
+
+  /**
+   * All templates with their versions and weights
+   */
+  list() {
+    return [...this.templates.entries()].map(([name, versions]) => ({
+      template: name,
+      versions: versions.map(({ version, weight, variables }) => ({ version, weight, variables }))
+    }))
+  }
+}
+
+export const promptRegistry = PromptRegistry.fromDirectory(fileURLToPath(new URL('../prompts/', import.meta.url)))
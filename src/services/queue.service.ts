@@ -1,29 +1,141 @@
-import { db } from '../db/client'
-import { applicationQueue, jobs, customCvs } from '../db/schema'
-import { eq, and, inArray } from 'drizzle-orm'
+import type { DB } from '../db/client'
+import { applicationQueue, jobs, customCvs, parsedCvs } from '../db/schema'
+import { eq, and, asc, inArray, or, sql } from 'drizzle-orm'
 import { v4 as uuidv4 } from 'uuid'
 import { env } from '../config/env'
-import type { ParsedCV, JobItem } from '../types'
+import { realtime } from './realtime.service'
+import { scoreMatch } from './match-scoring.service'
+import { normalizeSkills } from './skill-taxonomy.service'
+import { JobDedupService, type JobGroup } from './job-dedup.service'
+import { ApplicationTrackerService, type AppliedVacancy } from './application-tracker.service'
+import type { ParsedCV, QueueSkip, QueuedJobStatus, WorkflowProgress, WorkflowState } from '../types'
+
+// Items being submitted are left alone so a submission is never interrupted
+const PAUSABLE_STATUSES: QueuedJobStatus[] = ['pending', 'customizing', 'ready', 'rate_limited']
+const CANCELLABLE_STATUSES: QueuedJobStatus[] = [...PAUSABLE_STATUSES, 'paused']
+const TERMINAL_STATUSES: QueuedJobStatus[] = ['submitted', 'failed', 'cancelled']
+// Items that hold their job: a user has one of them per job unless reapplying
+const ACTIVE_STATUSES: QueuedJobStatus[] = [...CANCELLABLE_STATUSES, 'submitting']
+
+export type QueuedVacancy = { id: string; workflowId: string; status: string | null }
+
+export class WorkflowNotFoundError extends Error {
+  constructor(workflowId: string) {
+    super(`Workflow ${workflowId} not found`)
+  }
+}
+
+export class CvNotFoundError extends Error {
+  constructor(cvId: string) {
+    super(`CV ${cvId} not found`)
+  }
+}
+
+/**
+ * Summarize queue items of a workflow as a WorkflowProgress event
+ */
+export function summarizeWorkflow(
+  workflowId: string,
+  items: Array<{ status: string | null; payload: unknown; nextRunAt: Date | null }>
+): WorkflowProgress {
+  const counts: Partial<Record<QueuedJobStatus, number>> = {}
+  for (const item of items) {
+    const status = (item.status ?? 'pending') as QueuedJobStatus
+    counts[status] = (counts[status] ?? 0) + 1
+  }
+
+  const completed = TERMINAL_STATUSES.reduce((sum, status) => sum + (counts[status] ?? 0), 0)
+  const active = items.find(i => i.status === 'customizing' || i.status === 'submitting')
+  // Waiting items with a due date will be picked up by the worker; the rest are parked
+  const scheduled = items.some(i =>
+    i.nextRunAt !== null && (i.status === 'pending' || i.status === 'ready' || i.status === 'rate_limited')
+  )
+
+  let state: WorkflowState = 'idle'
+  if (completed === items.length) {
+    state = 'completed'
+  } else if (active) {
+    state = 'running'
+  } else if (counts.paused) {
+    state = 'paused'
+  } else if (scheduled) {
+    state = 'running'
+  }
+
+  return {
+    workflowId,
+    completed,
+    total: items.length,
+    currentJob: (active?.payload as Record<string, any> | null)?.jobTitle,
+    state,
+    counts
+  }
+}
 
 export class QueueService {
-  constructor(private db: typeof db) {}
+  private dedup: JobDedupService
+  private applicationTracker: ApplicationTrackerService
+
+  constructor(private db: DB) {
+    this.dedup = new JobDedupService(db)
+    this.applicationTracker = new ApplicationTrackerService(db)
+  }
 
   /**
-   * Add multiple jobs to application queue
+   * Add multiple jobs to application queue. Jobs of vacancies the user
+   * already applied to or has queued in any workflow, under any of their job
+   * ids, are skipped, as are all but the first job of the same vacancy in
+   * the request.
+   *
+   * @param options.reapply Queue jobs the user applied to or queued before
+   * @throws CvNotFoundError when the user has no such CV
    */
-  async addJobsToQueue(userId: string, cvId: string, jobIds: string[]) {
+  async addJobsToQueue(userId: string, cvId: string, jobIds: string[], { reapply = false }: { reapply?: boolean } = {}) {
+    await this.assertOwnCvs(userId, [cvId])
     const workflowId = uuidv4()
 
     // Fetch job details
-    const jobDetails = await this.db
+    const found = await this.db
       .select()
       .from(jobs)
       .where(inArray(jobs.id, jobIds))
 
-    if (jobDetails.length === 0) {
+    if (found.length === 0) {
       throw new Error('No valid jobs found')
     }
 
+    const byId = new Map(found.map(job => [job.id, job]))
+    const groups = await this.dedup.groups(found.map(job => job.id))
+    const vacancies = [...new Set(groups.values())]
+    const applied = reapply ? new Map<string, AppliedVacancy>() : await this.applicationTracker.appliedVacancies(userId, vacancies)
+    const queued = reapply ? new Map<string, QueuedVacancy>() : await this.queuedVacancies(userId, vacancies)
+
+    const skipped: QueueSkip[] = []
+    const jobDetails: typeof found = []
+    const queuedVacancies = new Map<string, string>() // canonical job id -> queued job id
+    for (const jobId of new Set(jobIds)) {
+      const job = byId.get(jobId)
+      if (!job) {
+        skipped.push({ jobId, reason: 'not_found' })
+        continue
+      }
+
+      const jobExternalId = job.hhVacancyId || job.externalId
+      const canonicalId = groups.get(job.id)?.canonicalId ?? job.id
+      const application = applied.get(canonicalId)
+      const item = queued.get(canonicalId)
+      if (application) {
+        skipped.push({ jobId, jobExternalId, reason: 'already_applied', applicationId: application.id })
+      } else if (item) {
+        skipped.push({ jobId, jobExternalId, reason: 'already_queued', queueItemId: item.id, workflowId: item.workflowId })
+      } else if (queuedVacancies.has(canonicalId)) {
+        skipped.push({ jobId, jobExternalId, reason: 'duplicate_vacancy', duplicateOf: queuedVacancies.get(canonicalId) })
+      } else {
+        queuedVacancies.set(canonicalId, job.id)
+        jobDetails.push(job)
+      }
+    }
+
     // Create queue items
     const queueItems = jobDetails.map(job => ({
       workflowId,
@@ -34,6 +146,8 @@ export class QueueService {
       status: 'pending',
       priority: 0,
       attempts: 0,
+      nextRunAt: null, // parked until the workflow is started
+      reapply,
       payload: {
         jobTitle: job.title,
         company: job.company,
@@ -41,15 +155,71 @@ export class QueueService {
       }
     }))
 
-    // Insert into database
-    await this.db.insert(applicationQueue).values(queueItems)
+    // Insert into database; items another request queued meanwhile are left out
+    const inserted = queueItems.length > 0
+      ? await this.db
+          .insert(applicationQueue)
+          .values(queueItems)
+          .onConflictDoNothing()
+          .returning({ jobId: applicationQueue.jobId })
+      : []
+
+    const insertedJobIds = new Set(inserted.map(item => item.jobId))
+    for (const item of queueItems) {
+      if (!insertedJobIds.has(item.jobId)) {
+        skipped.push({ jobId: item.jobId, jobExternalId: item.jobExternalId, reason: 'already_queued' })
+      }
+    }
 
     return {
       workflowId,
-      queuedCount: queueItems.length
+      queuedCount: inserted.length,
+      skipped
     }
   }
 
+  /**
+   * The user's active queue items (not finished, failed or cancelled) for
+   * the given vacancies, by canonical job id. Items queued as reapplications
+   * do not count.
+   */
+  async queuedVacancies(userId: string, groups: JobGroup[]): Promise<Map<string, QueuedVacancy>> {
+    const queued = new Map<string, QueuedVacancy>()
+    const externalIds = groups.flatMap(group => group.externalIds)
+    if (externalIds.length === 0) return queued
+
+    const jobIds = groups.flatMap(group => group.jobIds)
+    const rows = await this.db
+      .select({
+        id: applicationQueue.id,
+        workflowId: applicationQueue.workflowId,
+        jobId: applicationQueue.jobId,
+        jobExternalId: applicationQueue.jobExternalId,
+        status: applicationQueue.status
+      })
+      .from(applicationQueue)
+      .where(and(
+        eq(applicationQueue.userId, userId),
+        inArray(applicationQueue.status, ACTIVE_STATUSES),
+        eq(applicationQueue.reapply, false),
+        jobIds.length > 0
+          ? or(inArray(applicationQueue.jobExternalId, externalIds), inArray(applicationQueue.jobId, jobIds))
+          : inArray(applicationQueue.jobExternalId, externalIds)
+      ))
+      .orderBy(asc(applicationQueue.createdAt))
+
+    for (const group of groups) {
+      const row = rows.find(item =>
+        group.externalIds.includes(item.jobExternalId) ||
+        (item.jobId !== null && group.jobIds.includes(item.jobId))
+      )
+      if (row) {
+        queued.set(group.canonicalId, { id: row.id, workflowId: row.workflowId, status: row.status })
+      }
+    }
+    return queued
+  }
+
   /**
    * Get queue items for user
    */
@@ -76,6 +246,7 @@ export class QueueService {
         attempts: applicationQueue.attempts,
         nextRunAt: applicationQueue.nextRunAt,
         lastError: applicationQueue.lastError,
+        reapply: applicationQueue.reapply,
         createdAt: applicationQueue.createdAt,
         payload: applicationQueue.payload,
         job: {
@@ -92,26 +263,226 @@ export class QueueService {
           id: customCvs.id,
           customizedData: customCvs.customizedData,
           coverLetter: customCvs.coverLetter
+        },
+        cv: {
+          title: parsedCvs.title,
+          summary: parsedCvs.summary,
+          experience: parsedCvs.experience,
+          projects: parsedCvs.projects,
+          skills: parsedCvs.skills
         }
       })
       .from(applicationQueue)
       .leftJoin(jobs, eq(applicationQueue.jobId, jobs.id))
-      .leftJoin(customCvs, and(
-        eq(customCvs.cvId, applicationQueue.cvId),
-        eq(customCvs.jobId, applicationQueue.jobId)
-      ))
+      // The custom CV version produced for this item by the queue worker
+      .leftJoin(customCvs, eq(customCvs.id, sql`(${applicationQueue.payload}->>'customCvId')::uuid`))
+      .leftJoin(parsedCvs, and(eq(parsedCvs.id, applicationQueue.cvId), eq(parsedCvs.userId, applicationQueue.userId)))
       .where(and(...conditions))
 
-    return results
+    // Core stores job skills as HH lists them; how well the queued CV matches each job
+    return results.map(({ cv, job, ...item }) => ({
+      ...item,
+      job: job && { ...job, skills: normalizeSkills(job.skills ?? []) },
+      match: cv && job ? scoreMatch(cv as ParsedCV, job) : null
+    }))
   }
 
   /**
    * Remove item from queue
    */
-  async removeFromQueue(itemId: string) {
-    await this.db
+  async removeFromQueue(userId: string, itemId: string) {
+    const removed = await this.db
       .delete(applicationQueue)
-      .where(eq(applicationQueue.id, itemId))
+      .where(and(
+        eq(applicationQueue.id, itemId),
+        eq(applicationQueue.userId, userId)
+      ))
+      .returning({ id: applicationQueue.id, workflowId: applicationQueue.workflowId })
+
+    return removed[0] ?? null
+  }
+
+  /**
+   * Pause a workflow. Items being submitted finish; everything else waits.
+   */
+  async pauseWorkflow(workflowId: string, userId: string) {
+    return await this.db.transaction(async (tx) => {
+      const items = await this.lockWorkflow(tx, workflowId, userId)
+      const pausable = items.filter(i => PAUSABLE_STATUSES.includes(i.status as QueuedJobStatus))
+
+      for (const item of pausable) {
+        await tx
+          .update(applicationQueue)
+          .set({
+            status: 'paused',
+            nextRunAt: null,
+            payload: {
+              ...(item.payload as Record<string, any> ?? {}),
+              // An interrupted customization starts over on resume
+              pausedFrom: item.status === 'customizing' ? 'pending' : item.status,
+              pausedWhileScheduled: item.nextRunAt !== null
+            },
+            updatedAt: new Date()
+          })
+          .where(eq(applicationQueue.id, item.id))
+      }
+
+      return { workflowId, affected: pausable.length }
+    })
+  }
+
+  /**
+   * Resume a paused workflow where each item left off
+   */
+  async resumeWorkflow(workflowId: string, userId: string) {
+    return await this.db.transaction(async (tx) => {
+      const items = await this.lockWorkflow(tx, workflowId, userId)
+      const paused = items.filter(i => i.status === 'paused')
+
+      for (const item of paused) {
+        const { pausedFrom, pausedWhileScheduled, ...payload } = (item.payload ?? {}) as Record<string, any>
+        await tx
+          .update(applicationQueue)
+          .set({
+            status: pausedFrom || 'pending',
+            nextRunAt: pausedWhileScheduled ? new Date() : null,
+            payload,
+            updatedAt: new Date()
+          })
+          .where(eq(applicationQueue.id, item.id))
+      }
+
+      return { workflowId, affected: paused.length }
+    })
+  }
+
+  /**
+   * Cancel every item that has not been submitted yet
+   */
+  async cancelWorkflow(workflowId: string, userId: string) {
+    return await this.db.transaction(async (tx) => {
+      const items = await this.lockWorkflow(tx, workflowId, userId)
+      const cancellable = items.filter(i => CANCELLABLE_STATUSES.includes(i.status as QueuedJobStatus))
+
+      if (cancellable.length > 0) {
+        await tx
+          .update(applicationQueue)
+          .set({ status: 'cancelled', nextRunAt: null, updatedAt: new Date() })
+          .where(inArray(applicationQueue.id, cancellable.map(i => i.id)))
+      }
+
+      return { workflowId, affected: cancellable.length }
+    })
+  }
+
+  /**
+   * Set the priority of a workflow. When itemIds are given, those items are
+   * ordered first to last on top of that priority.
+   */
+  async reprioritizeWorkflow(
+    workflowId: string,
+    userId: string,
+    options: { priority?: number; itemIds?: string[] }
+  ) {
+    const base = options.priority ?? 0
+
+    return await this.db.transaction(async (tx) => {
+      const items = await this.lockWorkflow(tx, workflowId, userId)
+      const known = new Set(items.map(i => i.id))
+
+      const unknownItemIds = (options.itemIds ?? []).filter(id => !known.has(id))
+      if (unknownItemIds.length > 0) {
+        return { workflowId, affected: 0, unknownItemIds }
+      }
+
+      if (options.priority !== undefined) {
+        await tx
+          .update(applicationQueue)
+          .set({ priority: base, updatedAt: new Date() })
+          .where(inArray(applicationQueue.id, [...known]))
+      }
+
+      const ordered = options.itemIds ?? []
+      for (const [index, id] of ordered.entries()) {
+        await tx
+          .update(applicationQueue)
+          .set({ priority: base + ordered.length - index, updatedAt: new Date() })
+          .where(eq(applicationQueue.id, id))
+      }
+
+      return {
+        workflowId,
+        affected: options.priority !== undefined ? items.length : ordered.length,
+        unknownItemIds
+      }
+    })
+  }
+
+  /**
+   * Current progress of a workflow
+   */
+  async getWorkflowProgress(workflowId: string, userId: string): Promise<WorkflowProgress | null> {
+    const items = await this.db
+      .select({
+        status: applicationQueue.status,
+        payload: applicationQueue.payload,
+        nextRunAt: applicationQueue.nextRunAt
+      })
+      .from(applicationQueue)
+      .where(and(
+        eq(applicationQueue.workflowId, workflowId),
+        eq(applicationQueue.userId, userId)
+      ))
+
+    if (items.length === 0) return null
+    return summarizeWorkflow(workflowId, items)
+  }
+
+  /**
+   * Push the current progress of a workflow to its owner over /ws
+   */
+  async publishWorkflowProgress(workflowId: string, userId: string) {
+    const progress = await this.getWorkflowProgress(workflowId, userId)
+    if (progress) {
+      realtime.sendWorkflowProgress(userId, progress)
+    }
+    return progress
+  }
+
+  /**
+   * Lock the rows of a workflow owned by the user; throws when there are none
+   */
+  private async lockWorkflow(tx: Parameters<Parameters<DB['transaction']>[0]>[0], workflowId: string, userId: string) {
+    const items = await tx
+      .select()
+      .from(applicationQueue)
+      .where(and(
+        eq(applicationQueue.workflowId, workflowId),
+        eq(applicationQueue.userId, userId)
+      ))
+      .for('update')
+
+    if (items.length === 0) {
+      throw new WorkflowNotFoundError(workflowId)
+    }
+
+    return items
+  }
+
+  /**
+   * Throw unless every CV belongs to the user, so nobody applies with a CV of another user
+   */
+  private async assertOwnCvs(userId: string, cvIds: string[]) {
+    const ids = [...new Set(cvIds)]
+    const owned = await this.db
+      .select({ id: parsedCvs.id })
+      .from(parsedCvs)
+      .where(and(inArray(parsedCvs.id, ids), eq(parsedCvs.userId, userId)))
+
+    const missing = ids.find(id => !owned.some(cv => cv.id === id))
+    if (missing) {
+      throw new CvNotFoundError(missing)
+    }
   }
 
   /**
@@ -136,6 +507,19 @@ export class QueueService {
       throw new Error('No pending jobs in workflow')
     }
 
+    if (env.QUEUE_WORKER_ENABLED) {
+      // Make the pending items due; the local worker picks them up
+      await this.db
+        .update(applicationQueue)
+        .set({ nextRunAt: new Date(), updatedAt: new Date() })
+        .where(inArray(applicationQueue.id, items.map(i => i.queueItem.id)))
+
+      return {
+        workflowId,
+        jobCount: items.length
+      }
+    }
+
     // Call Core to trigger batch customization
     const response = await fetch(`${env.CORE_URL}/api/queue/batch-customize`, {
       method: 'POST',
@@ -162,6 +546,8 @@ export class QueueService {
 
   /**
    * Start auto-apply workflow
+   *
+   * @throws CvNotFoundError when an item was queued with a CV the user does not own
    */
   async startAutoApply(workflowId: string, userId: string) {
     // Verify all jobs are in workflow
@@ -184,12 +570,18 @@ export class QueueService {
       throw new Error('No valid job IDs in workflow')
     }
 
+    await this.assertOwnCvs(userId, items.map(i => i.cvId))
+
+    if (env.QUEUE_WORKER_ENABLED) {
+      return await this.scheduleAutoApply(workflowId, items)
+    }
+
     // Verify customization exists
     const customizedCount = await this.db
       .select()
       .from(customCvs)
       .where(and(
-        eq(customCvs.cvId, items[0].cvId),
+        eq(customCvs.parsedCvId, items[0].cvId),
         inArray(customCvs.jobId, jobIds)
       ))
 
@@ -223,19 +615,31 @@ export class QueueService {
   }
 
   /**
-   * Calculate match score between CV and job
+   * Run the workflow on the local worker: pending items are customized first,
+   * then every item continues to submission
    */
-  async calculateMatchScore(cv: ParsedCV, job: JobItem): Promise<number> {
-    const cvSkills = new Set((cv.skills || []).map(s => s.toLowerCase()))
-    const jobSkills = new Set((job.skills || []).map(s => s.toLowerCase()))
+  private async scheduleAutoApply(workflowId: string, items: Array<typeof applicationQueue.$inferSelect>) {
+    const runnable = items.filter(i => i.status === 'pending' || i.status === 'ready')
+
+    if (runnable.length > 0) {
+      await this.db
+        .update(applicationQueue)
+        .set({
+          payload: sql`coalesce(${applicationQueue.payload}, '{}'::jsonb) || '{"autoSubmit": true}'::jsonb`,
+          nextRunAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(inArray(applicationQueue.id, runnable.map(i => i.id)))
+    }
 
-    if (jobSkills.size === 0) return 0
+    // Rough estimate: one minute per item for customization and submission
+    const estimatedCompletion = new Date(
+      Date.now() + (runnable.length / Math.max(env.QUEUE_CONCURRENCY, 1)) * 60_000
+    ).toISOString()
 
-    let matches = 0
-    for (const skill of jobSkills) {
-      if (cvSkills.has(skill)) matches++
+    return {
+      workflowId,
+      estimatedCompletion
     }
-
-    return Math.round((matches / jobSkills.size) * 100)
   }
 }
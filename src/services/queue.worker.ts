@@ -0,0 +1,440 @@
+/**
+ * In-process worker for application_queue.
+ *
+ * Items move through the QueuedJob states:
+ *   pending -> customizing -> ready -> submitting -> submitted
+ * with failed as the terminal error state and rate_limited while HH/Core
+ * asks us to slow down. Due rows are leased with FOR UPDATE SKIP LOCKED so
+ * several API instances can share the queue; next_run_at carries both the
+ * retry backoff and the lease deadline of an item in progress.
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { applicationQueue, jobs, parsedCvs } from '../db/schema'
+import { and, asc, desc, eq, inArray, isNull, lte, sql } from 'drizzle-orm'
+import { env } from '../config/env'
+import { aiService } from './ai.service'
+import { AIQuotaService } from './ai-quota.service'
+import { CustomCvService } from './custom-cv.service'
+import { QueueService } from './queue.service'
+import { ApplicationTrackerService, DuplicateApplicationError } from './application-tracker.service'
+import { userService } from './user.service'
+import { logger } from '../utils/logger'
+import type { CustomizedCV, ParsedCV, QueuedJobStatus } from '../types'
+
+type QueueRow = typeof applicationQueue.$inferSelect
+
+export interface QueueWorkerOptions {
+  pollIntervalMs: number
+  concurrency: number
+  maxAttempts: number
+  retryBaseMs: number
+  leaseMs: number
+}
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+const DEFAULT_RATE_LIMIT_DELAY_MS = 15 * 60 * 1000
+const DEFAULT_MODEL = 'anthropic/claude-3.5-sonnet'
+
+// States the worker picks up once next_run_at is due; in-progress states are
+// only due again when their lease expired (e.g. the process crashed)
+const LEASABLE_STATUSES: QueuedJobStatus[] = ['pending', 'customizing', 'ready', 'submitting', 'rate_limited']
+
+/**
+ * Step an item enters when leased
+ */
+export function leasedStatus(status: string | null): 'customizing' | 'submitting' {
+  return status === 'pending' || status === 'customizing' || status === null ? 'customizing' : 'submitting'
+}
+
+/**
+ * Exponential backoff for the given attempt number (1-based), capped at one hour
+ */
+export function computeBackoff(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Error from a queue step. Non-retryable errors fail the item right away.
+ */
+class QueueStepError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message)
+  }
+}
+
+export class QueueWorker {
+  private customCvService: CustomCvService
+  private queueService: QueueService
+  private applicationTracker: ApplicationTrackerService
+  private aiQuota: AIQuotaService
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private currentTick: Promise<unknown> | null = null
+
+  constructor(
+    private db: DB,
+    private options: QueueWorkerOptions = {
+      pollIntervalMs: env.QUEUE_POLL_INTERVAL_MS,
+      concurrency: env.QUEUE_CONCURRENCY,
+      maxAttempts: env.QUEUE_MAX_ATTEMPTS,
+      retryBaseMs: env.QUEUE_RETRY_BASE_MS,
+      leaseMs: env.QUEUE_LEASE_MS
+    }
+  ) {
+    this.customCvService = new CustomCvService(db)
+    this.queueService = new QueueService(db)
+    this.applicationTracker = new ApplicationTrackerService(db)
+    this.aiQuota = new AIQuotaService(db)
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    logger.info('Queue worker started', { ...this.options })
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for items in progress to finish
+   */
+  async stop() {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.currentTick
+    logger.info('Queue worker stopped')
+  }
+
+  /**
+   * Lease a batch of due items and process them
+   *
+   * @returns Number of items processed
+   */
+  async tick(): Promise<number> {
+    const items = await this.lease(this.options.concurrency)
+    if (items.length === 0) return 0
+
+    await Promise.allSettled(items.map(item => this.process(item)))
+    return items.length
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return
+
+    this.timer = setTimeout(async () => {
+      let processed = 0
+      try {
+        this.currentTick = this.tick()
+        processed = await (this.currentTick as Promise<number>)
+      } catch (error) {
+        logger.error('Queue worker tick failed', error as Error)
+      } finally {
+        this.currentTick = null
+      }
+
+      // Keep draining while the queue is busy
+      this.schedule(processed >= this.options.concurrency ? 0 : this.options.pollIntervalMs)
+    }, delayMs)
+  }
+
+  /**
+   * Claim due rows and move them to their in-progress state
+   */
+  private async lease(limit: number): Promise<QueueRow[]> {
+    const now = new Date()
+    const leaseUntil = new Date(now.getTime() + this.options.leaseMs)
+
+    return await this.db.transaction(async (tx) => {
+      const due = await tx
+        .select()
+        .from(applicationQueue)
+        .where(and(
+          inArray(applicationQueue.status, LEASABLE_STATUSES),
+          lte(applicationQueue.nextRunAt, now)
+        ))
+        .orderBy(desc(applicationQueue.priority), asc(applicationQueue.nextRunAt))
+        .limit(limit)
+        .for('update', { skipLocked: true })
+
+      const leased: QueueRow[] = []
+      for (const item of due) {
+        const [row] = await tx
+          .update(applicationQueue)
+          .set({
+            status: leasedStatus(item.status),
+            attempts: sql`coalesce(${applicationQueue.attempts}, 0) + 1`,
+            nextRunAt: leaseUntil,
+            updatedAt: now
+          })
+          .where(eq(applicationQueue.id, item.id))
+          .returning()
+        leased.push(row)
+      }
+
+      return leased
+    })
+  }
+
+  private async process(item: QueueRow) {
+    const step = item.status as 'customizing' | 'submitting'
+    logger.info('Processing queue item', {
+      itemId: item.id,
+      workflowId: item.workflowId,
+      step,
+      attempt: item.attempts
+    })
+
+    await this.publishProgress(item)
+
+    try {
+      if (step === 'customizing') {
+        await this.customize(item)
+      } else {
+        await this.submit(item)
+      }
+    } catch (error) {
+      const retryable = error instanceof QueueStepError ? error.retryable : true
+      await this.handleFailure(item, error as Error, retryable)
+    }
+
+    await this.publishProgress(item)
+  }
+
+  /**
+   * Matches the item only while it is still in the state it was leased in,
+   * so a workflow paused or cancelled mid-step keeps its new state, and under
+   * this lease: a step that outlived it may have been leased again by another
+   * worker, which then owns the item
+   */
+  private stillLeased(item: QueueRow) {
+    return and(
+      eq(applicationQueue.id, item.id),
+      eq(applicationQueue.status, item.status ?? 'pending'),
+      item.nextRunAt ? eq(applicationQueue.nextRunAt, item.nextRunAt) : isNull(applicationQueue.nextRunAt)
+    )
+  }
+
+  private async publishProgress(item: QueueRow) {
+    try {
+      await this.queueService.publishWorkflowProgress(item.workflowId, item.userId)
+    } catch (error) {
+      logger.warn('Failed to publish workflow progress', { workflowId: item.workflowId, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Tailor the CV and cover letter for the job and store them as a custom CV version
+   */
+  private async customize(item: QueueRow) {
+    const [cv] = await this.db
+      .select()
+      .from(parsedCvs)
+      .where(and(eq(parsedCvs.id, item.cvId), eq(parsedCvs.userId, item.userId)))
+      .limit(1)
+    if (!cv) {
+      throw new QueueStepError('CV not found', false)
+    }
+
+    const [job] = item.jobId
+      ? await this.db.select().from(jobs).where(eq(jobs.id, item.jobId)).limit(1)
+      : []
+    if (!job?.description) {
+      throw new QueueStepError('Job description is not available', false)
+    }
+
+    if (await this.deferOverAIQuota(item)) return
+
+    const payload = (item.payload ?? {}) as Record<string, any>
+    const model: string | undefined = payload.model
+
+    const ai = aiService.withUsage({ userId: item.userId, feature: 'queue_customization' })
+    const customizedCV = await ai.customizeCV(cv as ParsedCV, job.description, model)
+    const coverLetter = await ai.generateCoverLetter(customizedCV, job.description, job.company ?? '', model)
+
+    const version = await this.customCvService.saveVersion({
+      parsedCvId: cv.id,
+      jobId: job.id,
+      jobTitle: job.title,
+      customizedCV,
+      coverLetter,
+      modelUsed: model || DEFAULT_MODEL,
+      promptVersions: ai.promptVersions
+    })
+
+    await this.db
+      .update(applicationQueue)
+      .set({
+        status: 'ready',
+        attempts: 0,
+        lastError: null,
+        // Auto-apply workflows continue straight to submission
+        nextRunAt: payload.autoSubmit ? new Date() : null,
+        payload: { ...payload, customCvId: version.id },
+        updatedAt: new Date()
+      })
+      .where(this.stillLeased(item))
+
+    logger.info('Queue item customized', { itemId: item.id, customCvId: version.id, version: version.version })
+  }
+
+  /**
+   * Put the item back until the user's daily AI quota resets when customizing
+   * it would exceed the quota, as the /api/ai routes refuse such requests
+   *
+   * @returns Whether the item was deferred
+   */
+  private async deferOverAIQuota(item: QueueRow) {
+    let check
+    try {
+      check = await this.aiQuota.check(item.userId, 'queue_customization')
+    } catch (error) {
+      // Quota lookups must not stop the queue with the database
+      logger.warn('AI quota check failed, customizing anyway', { itemId: item.id, error: (error as Error).message })
+      return false
+    }
+    if (check.allowed) return false
+
+    const lastError = check.exceeded === 'requests' ? 'Daily AI request limit reached' : 'Daily AI token budget reached'
+    await this.db
+      .update(applicationQueue)
+      .set({
+        status: 'pending',
+        // Waiting for the quota is not a failed attempt
+        attempts: sql`greatest(coalesce(${applicationQueue.attempts}, 1) - 1, 0)`,
+        lastError,
+        nextRunAt: new Date(check.state.resetsAt),
+        updatedAt: new Date()
+      })
+      .where(this.stillLeased(item))
+
+    logger.warn('Queue item deferred over the AI quota', { itemId: item.id, userId: item.userId, exceeded: check.exceeded })
+    return true
+  }
+
+  /**
+   * Submit the pinned (or latest) custom CV version through Core
+   */
+  private async submit(item: QueueRow) {
+    const payload = (item.payload ?? {}) as Record<string, any>
+    const version = await this.customCvService.getVersionForSubmission(item.cvId, item.jobId)
+
+    if (!version) {
+      // Nothing to submit yet: go back through customization
+      await this.db
+        .update(applicationQueue)
+        .set({ status: 'pending', attempts: 0, nextRunAt: new Date(), updatedAt: new Date() })
+        .where(this.stillLeased(item))
+      return
+    }
+
+    const session = await userService.getActiveSession(item.userId)
+    if (!session) {
+      throw new QueueStepError('No active HH session. Sign in again and restart the workflow.', false)
+    }
+
+    const { application, submission } = await this.applicationTracker.submitAndRecord({
+      userId: item.userId,
+      jobId: item.jobId,
+      customCvId: version.id,
+      // Later attempts of the item are recorded on the same application
+      applicationId: payload.applicationId,
+      reapply: item.reapply,
+      jobExternalId: item.jobExternalId,
+      customizedCV: (version.customizedData ?? {}) as CustomizedCV,
+      coverLetter: version.coverLetter ?? '',
+      token: session.token,
+      sessionId: session.sessionId
+    }).catch(error => {
+      // Applied to the vacancy since it was queued, e.g. under a repost
+      if (error instanceof DuplicateApplicationError) throw new QueueStepError(error.message, false)
+      throw error
+    })
+
+    // The CV cannot be submitted as it is; nothing was sent or recorded
+    if (!application) {
+      throw new QueueStepError(submission.error, false)
+    }
+
+    const nextPayload = { ...payload, customCvId: version.id, applicationId: application.id }
+
+    if (!submission.success) {
+      if (submission.rateLimited) {
+        await this.db
+          .update(applicationQueue)
+          .set({
+            status: 'rate_limited',
+            // Waiting out a rate limit is not a failed attempt
+            attempts: sql`greatest(coalesce(${applicationQueue.attempts}, 1) - 1, 0)`,
+            lastError: submission.error,
+            nextRunAt: new Date(Date.now() + (submission.retryAfterMs ?? DEFAULT_RATE_LIMIT_DELAY_MS)),
+            payload: nextPayload,
+            updatedAt: new Date()
+          })
+          .where(this.stillLeased(item))
+
+        logger.warn('Queue item rate limited', { itemId: item.id, retryAfterMs: submission.retryAfterMs })
+        return
+      }
+
+      if (payload.applicationId !== application.id) {
+        await this.db
+          .update(applicationQueue)
+          .set({ payload: nextPayload, updatedAt: new Date() })
+          .where(this.stillLeased(item))
+      }
+
+      throw new QueueStepError(submission.error, submission.retryable)
+    }
+
+    await this.db
+      .update(applicationQueue)
+      .set({
+        status: 'submitted',
+        lastError: null,
+        nextRunAt: null,
+        payload: { ...nextPayload, submittedAt: new Date().toISOString() },
+        updatedAt: new Date()
+      })
+      .where(this.stillLeased(item))
+
+    logger.info('Queue item submitted', { itemId: item.id, jobExternalId: item.jobExternalId })
+  }
+
+  /**
+   * Schedule a retry with backoff, or fail the item when out of attempts
+   */
+  private async handleFailure(item: QueueRow, error: Error, retryable: boolean) {
+    const attempts = item.attempts ?? 1
+    const exhausted = attempts >= this.options.maxAttempts
+
+    if (!retryable || exhausted) {
+      await this.db
+        .update(applicationQueue)
+        .set({ status: 'failed', lastError: error.message, nextRunAt: null, updatedAt: new Date() })
+        .where(this.stillLeased(item))
+
+      logger.error('Queue item failed', error, { itemId: item.id, attempts, retryable })
+      return
+    }
+
+    const delayMs = computeBackoff(attempts, this.options.retryBaseMs)
+    await this.db
+      .update(applicationQueue)
+      .set({
+        // Retry the step that failed
+        status: item.status === 'customizing' ? 'pending' : 'ready',
+        lastError: error.message,
+        nextRunAt: new Date(Date.now() + delayMs),
+        updatedAt: new Date()
+      })
+      .where(this.stillLeased(item))
+
+    logger.warn('Queue item will be retried', { itemId: item.id, attempts, delayMs, error: error.message })
+  }
+}
+
+export const queueWorker = new QueueWorker(db)
@@ -0,0 +1,201 @@
+/**
+ * Sliding-window rate limiting for the public API, with a process-local
+ * store or a shared Redis-protocol store for multi-replica deployments
+ */
+
+import { env } from '../config/env'
+import { logger } from '../utils/logger'
+import { RespClient } from '../utils/resp'
+
+/**
+ * Request counts of the current and previous fixed window of one key
+ */
+export interface WindowCounts {
+  current: number
+  previous: number
+}
+
+/**
+ * Storage behind RateLimiter. Windows are numbered by Math.floor(now / windowMs).
+ */
+export interface RateLimitStore {
+  readonly name: string
+  increment(key: string, window: number, windowMs: number): Promise<WindowCounts>
+  decrement(key: string, window: number): Promise<void>
+  destroy(): void
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetSeconds: number // until the current window ends
+  retryAfterSeconds: number // 0 when allowed
+}
+
+/**
+ * Sliding-window estimate: the previous window's count weighted by how much
+ * of it still overlaps the sliding window, plus the current window's count
+ */
+export function slidingWindowCount(counts: WindowCounts, elapsedMs: number, windowMs: number): number {
+  const overlap = Math.max(1 - elapsedMs / windowMs, 0)
+  return Math.floor(counts.previous * overlap) + counts.current
+}
+
+/**
+ * Seconds until enough of the previous window has slid out for one more request
+ */
+export function retryAfterSeconds(counts: WindowCounts, elapsedMs: number, windowMs: number, limit: number): number {
+  const untilWindowEnd = Math.ceil((windowMs - elapsedMs) / 1000)
+  if (counts.current >= limit || counts.previous === 0) return Math.max(untilWindowEnd, 1)
+
+  // Solve previous * (1 - t / windowMs) < limit - current for t
+  const waitMs = ((counts.current + counts.previous - limit) / counts.previous) * windowMs - elapsedMs
+  return Math.min(Math.max(Math.floor(waitMs / 1000) + 1, 1), Math.max(untilWindowEnd, 1))
+}
+
+/**
+ * Process-local store; counters of finished windows are swept periodically
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private windows = new Map<string, { window: number; current: number; previous: number; expires: number }>()
+  private cleanupInterval: NodeJS.Timeout | null = null
+
+  constructor(cleanupIntervalMs: number = 60000) {
+    this.cleanupInterval = setInterval(() => this.cleanup(), cleanupIntervalMs)
+  }
+
+  async increment(key: string, window: number, windowMs: number): Promise<WindowCounts> {
+    const entry = this.windows.get(key)
+    const expires = (window + 2) * windowMs
+
+    if (!entry || entry.window < window - 1) {
+      this.windows.set(key, { window, current: 1, previous: 0, expires })
+      return { current: 1, previous: 0 }
+    }
+
+    if (entry.window === window - 1) {
+      entry.previous = entry.current
+      entry.current = 0
+      entry.window = window
+    }
+
+    entry.current++
+    entry.expires = expires
+    return { current: entry.current, previous: entry.previous }
+  }
+
+  async decrement(key: string, window: number): Promise<void> {
+    const entry = this.windows.get(key)
+    if (entry && entry.window === window && entry.current > 0) {
+      entry.current--
+    }
+  }
+
+  private cleanup(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.windows.entries()) {
+      if (now > entry.expires) this.windows.delete(key)
+    }
+  }
+
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval)
+      this.cleanupInterval = null
+    }
+  }
+}
+
+/**
+ * Shared store on a Redis-protocol server: one counter per key and window,
+ * kept for two windows so the next window can still read it
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis'
+
+  constructor(private client: RespClient, private prefix: string = env.RATE_LIMIT_KEY_PREFIX) {}
+
+  async increment(key: string, window: number, windowMs: number): Promise<WindowCounts> {
+    const currentKey = `${this.prefix}${key}:${window}`
+
+    // Sent together; the client pipelines them on one connection
+    const [current, , previous] = await Promise.all([
+      this.client.command(['INCR', currentKey]),
+      this.client.command(['PEXPIRE', currentKey, windowMs * 2]),
+      this.client.command(['GET', `${this.prefix}${key}:${window - 1}`])
+    ])
+
+    return { current: Number(current), previous: Number(previous ?? 0) }
+  }
+
+  async decrement(key: string, window: number): Promise<void> {
+    await this.client.command(['DECR', `${this.prefix}${key}:${window}`])
+  }
+
+  destroy(): void {
+    this.client.close()
+  }
+}
+
+/**
+ * Build the store configured for this environment (RATE_LIMIT_BACKEND)
+ */
+export function createRateLimitStore(backend: string = env.RATE_LIMIT_BACKEND): RateLimitStore {
+  switch (backend) {
+    case 'memory':
+      return new MemoryRateLimitStore()
+    case 'redis':
+      return new RedisRateLimitStore(new RespClient(env.REDIS_URL, { commandTimeoutMs: 500 }))
+    default:
+      throw new Error(`Unknown RATE_LIMIT_BACKEND: ${backend}`)
+  }
+}
+
+/**
+ * Sliding-window limiter. Refused requests are not counted, so a client that
+ * keeps retrying gets through again as soon as the window allows it.
+ */
+export class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  get backend() {
+    return this.store.name
+  }
+
+  /**
+   * Count one request of a client against a limit
+   *
+   * @param key Client and rule, e.g. `cv-upload:session:<id>`
+   */
+  async hit(key: string, limit: number, windowMs: number, now: number = Date.now()): Promise<RateLimitResult> {
+    const window = Math.floor(now / windowMs)
+    const elapsedMs = now - window * windowMs
+    const resetSeconds = Math.max(Math.ceil((windowMs - elapsedMs) / 1000), 1)
+
+    const counts = await this.store.increment(key, window, windowMs)
+    const count = slidingWindowCount(counts, elapsedMs, windowMs)
+
+    if (count <= limit) {
+      return { allowed: true, limit, remaining: limit - count, resetSeconds, retryAfterSeconds: 0 }
+    }
+
+    await this.store.decrement(key, window).catch((error: Error) => {
+      logger.debug('Rate limit decrement failed', { key, error: error.message })
+    })
+
+    const refused = { current: counts.current - 1, previous: counts.previous }
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetSeconds,
+      retryAfterSeconds: retryAfterSeconds(refused, elapsedMs, windowMs, limit)
+    }
+  }
+
+  destroy(): void {
+    this.store.destroy()
+  }
+}
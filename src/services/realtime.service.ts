@@ -1,4 +1,4 @@
-import type { RealtimeAISuggestions } from '../types'
+import type { RealtimeAISuggestions, CustomizationDelta, CustomizedCV, WorkflowProgress } from '../types'
 
 type WSLike = { send: (data: string) => void }
 
@@ -115,6 +115,111 @@ class RealtimeRegistry {
     })
   }
 
+  /**
+   * Stream a token delta of a CV customization to the user
+   */
+  sendCustomizationDelta(userId: string, streamId: string, event: CustomizationDelta) {
+    return this.sendToUser(userId, {
+      type: 'customization_delta',
+      streamId,
+      stage: event.stage,
+      delta: event.delta,
+      partial: event.partial,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Send the final, reconciled CV once a streamed customization has finished
+   */
+  sendCustomizationComplete(userId: string, streamId: string, customizedCV: CustomizedCV) {
+    return this.sendToUser(userId, {
+      type: 'customization_complete',
+      streamId,
+      customizedCV,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Send the state of an application queue workflow to its owner
+   */
+  sendWorkflowProgress(userId: string, progress: WorkflowProgress) {
+    return this.sendToUser(userId, {
+      type: 'workflow_progress',
+      ...progress,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Notify the owner that an application is being submitted
+   */
+  sendApplicationProgress(
+    userId: string,
+    data: { applicationId: string; jobExternalId: string; status: string; attempt: number }
+  ) {
+    return this.sendToUser(userId, {
+      type: 'application_progress',
+      ...data,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Notify the owner of the outcome of an application submission
+   */
+  sendApplicationCompleted(
+    userId: string,
+    data: {
+      applicationId: string
+      jobExternalId: string
+      jobTitle?: string | null
+      company?: string | null
+      status: 'success' | 'failed'
+      errorMessage?: string
+      rateLimitedUntil?: string
+    }
+  ) {
+    return this.sendToUser(userId, {
+      type: 'application_completed',
+      ...data,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Notify the owner that the HH negotiation status of an application changed
+   */
+  sendApplicationStatusChanged(
+    userId: string,
+    data: {
+      applicationId: string
+      jobExternalId: string
+      jobTitle?: string | null
+      company?: string | null
+      previousStatus: string | null
+      status: string
+    }
+  ) {
+    return this.sendToUser(userId, {
+      type: 'application_status_changed',
+      ...data,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Send new matches of the user's saved searches, live or from the inbox
+   */
+  sendSavedSearchMatches(userId: string, matches: unknown[]) {
+    return this.sendToUser(userId, {
+      type: 'saved_search_matches',
+      matches,
+      timestamp: new Date().toISOString()
+    })
+  }
+
   /**
    * Broadcast interview preparation ready notification
    */
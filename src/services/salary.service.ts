@@ -0,0 +1,225 @@
+/**
+ * Salary parsing and normalization.
+ *
+ * Job boards give salaries as text ("от 200 000 до 300 000 руб.", "$4k–6k
+ * gross", "1 500 ₽/час на руки"). They are parsed into a range, currency,
+ * gross/net and period, and converted to a monthly amount in
+ * SALARY_BASE_CURRENCY so jobs can be filtered and sorted by pay.
+ *
+ * Conversion uses a local rates table: the defaults below, overridden by
+ * SALARY_RATES. Rates are not fetched from anywhere, so keep them current
+ * through the environment.
+ */
+
+import { env } from '../config/env'
+import { logger } from '../utils/logger'
+import type { ParsedSalary, SalaryPeriod } from '../types'
+
+/**
+ * Rubles per unit of each currency
+ */
+const DEFAULT_RUB_RATES: Record<string, number> = {
+  RUB: 1,
+  USD: 90,
+  EUR: 98,
+  GBP: 114,
+  KZT: 0.18,
+  BYN: 27.5,
+  UAH: 2.2,
+  UZS: 0.0071,
+  KGS: 1.03,
+  GEL: 33,
+  AZN: 53,
+  AMD: 0.23
+}
+
+// Currency markers in salary text; checked in order, so "бел. руб" wins over "руб".
+// (?<!\p{L}) and (?!\p{L}) are word boundaries that also work for Cyrillic.
+const CURRENCY_PATTERNS: Array<[string, RegExp]> = [
+  ['BYN', /(?<!\p{L})(?:byn|byr|бел\.?\s*руб)/iu],
+  ['RUB', /₽|(?<!\p{L})(?:руб|р\.|rub(?!\p{L})|rur(?!\p{L}))/iu],
+  ['USD', /\$|(?<!\p{L})(?:usd|долл|dollar)/iu],
+  ['EUR', /€|(?<!\p{L})(?:eur|евро)/iu],
+  ['GBP', /£|(?<!\p{L})gbp(?!\p{L})/iu],
+  ['KZT', /₸|(?<!\p{L})(?:kzt|тенге|тг(?!\p{L}))/iu],
+  ['UAH', /₴|(?<!\p{L})(?:uah|грн|гривн)/iu],
+  ['UZS', /(?<!\p{L})(?:uzs|сум|сўм)(?!\p{L})/iu],
+  ['KGS', /(?<!\p{L})(?:kgs|сом)(?!\p{L})/iu],
+  ['GEL', /₾|(?<!\p{L})(?:gel|лари)(?!\p{L})/iu],
+  ['AZN', /₼|(?<!\p{L})(?:azn|манат)/iu],
+  ['AMD', /֏|(?<!\p{L})(?:amd|драм)(?!\p{L})/iu]
+]
+
+const GROSS = /(?<!\p{L})gross(?!\p{L})|before tax|до вычета|до уплаты|брутто|с учетом ндфл|включая ндфл/iu
+const NET = /(?<!\p{L})net(?!\p{L})|after tax|на руки|после вычета|нетто|чистыми/iu
+
+const PERIOD_PATTERNS: Array<[SalaryPeriod, RegExp]> = [
+  ['hour', /per hour|hourly|\/\s*(?:h|hr|hour|ч|час)(?!\p{L})|(?:в|за) час(?!\p{L})/iu],
+  ['day', /per (?:day|shift)|daily|\/\s*(?:day|день|смен)|(?:в|за) (?:день|смену)(?!\p{L})/iu],
+  ['week', /per week|weekly|\/\s*(?:week|wk|нед)|(?:в|за) неделю(?!\p{L})/iu],
+  ['year', /per (?:year|annum)|annual|yearly|\/\s*(?:year|yr|год)|(?:в|за) год(?!\p{L})|годовой/iu]
+]
+
+// Working hours and days in a month, as HH counts them
+const MONTHLY_FACTORS: Record<SalaryPeriod, number> = {
+  hour: 168,
+  day: 21,
+  week: 52 / 12,
+  month: 1,
+  year: 1 / 12
+}
+
+const NO_SALARY = /не указан|по договор|договорн|negotiable|competitive|not specified/iu
+
+/**
+ * Rates into the base currency: the defaults rebased onto SALARY_BASE_CURRENCY,
+ * with SALARY_RATES (a JSON object of units of the base currency per unit)
+ * on top
+ */
+export function loadRates(
+  baseCurrency = env.SALARY_BASE_CURRENCY,
+  overrides = env.SALARY_RATES
+): Record<string, number> {
+  const base = baseCurrency.toUpperCase()
+  const rates: Record<string, number> = {}
+  const baseInRub = DEFAULT_RUB_RATES[base]
+  if (baseInRub) {
+    for (const [currency, rate] of Object.entries(DEFAULT_RUB_RATES)) {
+      rates[currency] = rate / baseInRub
+    }
+  }
+  rates[base] = 1
+
+  if (overrides) {
+    try {
+      for (const [currency, rate] of Object.entries(JSON.parse(overrides) as Record<string, unknown>)) {
+        if (typeof rate === 'number' && rate > 0) rates[currency.toUpperCase()] = rate
+      }
+    } catch (error) {
+      logger.warn('Ignoring invalid SALARY_RATES', { error: (error as Error).message })
+    }
+  }
+  return rates
+}
+
+const rates = loadRates()
+
+/**
+ * Monthly amount in the base currency, or null without a rate for the currency
+ */
+export function toBaseMonthly(amount: number | null, currency: string, period: SalaryPeriod, table = rates): number | null {
+  const rate = table[currency]
+  if (amount === null || !rate) return null
+  return Math.round(amount * rate * MONTHLY_FACTORS[period])
+}
+
+const MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(?:k|к|тыс\.?|тысяч\p{L}*|thousand)$/iu, 1000],
+  [/^(?:m|mln|млн\.?|million)$/iu, 1000000]
+]
+
+// "200 000", "60,000", "4.5", "1,5", optionally followed by "k", "тыс.", "млн"
+const AMOUNT = /(\d{1,3}(?:[\s.,]\d{3})+(?!\d)|\d+(?:[.,]\d+)?)(?:\s*(k|к|тыс\.?|тысяч\p{L}*|thousand|mln|млн\.?|million|m)(?!\p{L}))?/giu
+
+interface Amount {
+  value: number
+  multiplier: number
+  index: number
+  end: number
+}
+
+function readAmounts(text: string): Amount[] {
+  const amounts: Amount[] = []
+  for (const match of text.matchAll(AMOUNT)) {
+    const [whole, digits, suffix] = match
+    const grouped = /^\d{1,3}(?:[\s.,]\d{3})+$/.test(digits)
+    const value = grouped ? Number(digits.replace(/[\s.,]/g, '')) : Number(digits.replace(',', '.'))
+    const multiplier = suffix ? MULTIPLIERS.find(([pattern]) => pattern.test(suffix))?.[1] ?? 1 : 1
+    amounts.push({ value: value * multiplier, multiplier, index: match.index!, end: match.index! + whole.length })
+  }
+
+  // "4–6k", "от 150 до 200 тыс.": a bare number shares the multiplier of the other one
+  const multiplied = amounts.find(amount => amount.multiplier > 1)
+  if (multiplied) {
+    for (const amount of amounts) {
+      if (amount.multiplier === 1 && amount.value < 1000) amount.value *= multiplied.multiplier
+    }
+  }
+  return amounts
+}
+
+/**
+ * Parse a salary text; null when it names no amount ("по договорённости")
+ */
+export function parseSalary(text: string | null | undefined, table = rates): ParsedSalary | null {
+  if (!text) return null
+  const cleaned = text.replace(/[\u00a0\u2009\u202f]/g, ' ').replace(/ё/gi, 'е')
+  if (NO_SALARY.test(cleaned)) return null
+
+  const amounts = readAmounts(cleaned).filter(amount => amount.value > 0)
+  if (amounts.length === 0) return null
+
+  let min: number | null = null
+  let max: number | null = null
+  const [first, second] = amounts
+  const before = (amount: Amount) => cleaned.slice(0, amount.index).toLowerCase()
+
+  if (second) {
+    min = Math.min(first.value, second.value)
+    max = Math.max(first.value, second.value)
+  } else if (/(?:^|\s)(?:до|up to|max(?:imum)?|не более)\s*[^\d\s]?\s*$/iu.test(before(first))) {
+    max = first.value
+  } else if (/(?:^|\s)(?:от|from|min(?:imum)?|не менее)\s*[^\d\s]?\s*$/iu.test(before(first)) || /\+\s*$/.test(cleaned.slice(first.end, first.end + 2))) {
+    min = first.value
+  } else {
+    min = first.value
+    max = first.value
+  }
+
+  // HH is a Russian board: without a currency marker the amount is in rubles
+  const currency = CURRENCY_PATTERNS.find(([, pattern]) => pattern.test(cleaned))?.[0] ?? 'RUB'
+  const gross = GROSS.test(cleaned) ? true : NET.test(cleaned) ? false : null
+  const period = PERIOD_PATTERNS.find(([, pattern]) => pattern.test(cleaned))?.[0] ?? 'month'
+
+  return {
+    min,
+    max,
+    currency,
+    gross,
+    period,
+    minBase: toBaseMonthly(min, currency, period, table),
+    maxBase: toBaseMonthly(max, currency, period, table)
+  }
+}
+
+/**
+ * A salary as HH's API gives it ({ from, to, currency, gross }), with the
+ * display text for it
+ */
+export function parseSalaryObject(
+  salary: { from?: number | null, to?: number | null, currency?: string | null, gross?: boolean | null },
+  table = rates
+): { text: string, parsed: ParsedSalary } | null {
+  const min = typeof salary.from === 'number' && salary.from > 0 ? salary.from : null
+  const max = typeof salary.to === 'number' && salary.to > 0 ? salary.to : null
+  if (min === null && max === null) return null
+
+  // HH still uses the pre-1998 code for rubles
+  const currency = (salary.currency ?? 'RUB').toUpperCase().replace(/^RUR$/, 'RUB')
+  const gross = typeof salary.gross === 'boolean' ? salary.gross : null
+  const range = min !== null && max !== null ? `${min}-${max}` : min !== null ? `от ${min}` : `до ${max}`
+  const tax = gross === null ? '' : gross ? ' gross' : ' net'
+
+  return {
+    text: `${range} ${currency}${tax}`,
+    parsed: {
+      min,
+      max,
+      currency,
+      gross,
+      period: 'month',
+      minBase: toBaseMonthly(min, currency, 'month', table),
+      maxBase: toBaseMonthly(max, currency, 'month', table)
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Saved job searches and their alerts.
+ *
+ * Users save searches (text, area, experience, employment, schedule, salary
+ * range, skills). Jobs are matched against the ones with alerts in two ways:
+ * jobs Core broadcasts are matched as they are stored, and the saved search
+ * worker runs each search against Core periodically. Only jobs published
+ * after a search was saved count as new. A match is recorded once per search
+ * and job and pushed to the owner over /ws; matches that could not be pushed
+ * stay in the owner's inbox and are sent when they reconnect.
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { jobs, savedSearches, savedSearchMatches } from '../db/schema'
+import { and, count, desc, eq, inArray, isNull } from 'drizzle-orm'
+import { JobStoreService, hasCoreOnlyFilters, jobColumns } from './job-store.service'
+import { normalizeSkills } from './skill-taxonomy.service'
+import { realtime } from './realtime.service'
+import { logger } from '../utils/logger'
+import type { JobSearchRequest, SavedSearchFilters, SavedSearchInput } from '../types'
+
+export const MAX_SAVED_SEARCHES = 20
+const INBOX_LIMIT = 100
+
+export class SavedSearchLimitError extends Error {
+  constructor() {
+    super(`A user can save up to ${MAX_SAVED_SEARCHES} searches`)
+  }
+}
+
+export type SavedSearch = typeof savedSearches.$inferSelect
+
+type StoredJob = Awaited<ReturnType<JobStoreService['filterJobs']>>[number]
+
+/**
+ * The job search a saved search stands for
+ */
+export function toSearchRequest(search: SavedSearch): JobSearchRequest {
+  return {
+    text: search.text ?? '',
+    area: search.area ?? undefined,
+    experience: search.experience ?? undefined,
+    employment: search.employment ?? undefined,
+    schedule: search.schedule ?? undefined,
+    salaryFrom: search.salaryFrom ?? undefined,
+    salaryTo: search.salaryTo ?? undefined,
+    skills: search.skills?.length ? search.skills : undefined
+  }
+}
+
+const FILTER_KEYS: Array<keyof SavedSearchFilters> = [
+  'text', 'area', 'experience', 'employment', 'schedule', 'salaryFrom', 'salaryTo', 'skills'
+]
+
+/**
+ * Column values for the filters present in the input; empty ones are cleared
+ */
+function filterValues(input: SavedSearchInput): Partial<SavedSearch> {
+  const values: Partial<SavedSearch> = {}
+  for (const key of FILTER_KEYS) {
+    if (!(key in input)) continue
+    const value = input[key]
+    if (key === 'skills') {
+      values.skills = normalizeSkills((value as string[] | undefined) ?? [])
+    } else if (typeof value === 'string') {
+      (values as Record<string, unknown>)[key] = value.trim().slice(0, 255) || null
+    } else {
+      (values as Record<string, unknown>)[key] = value ?? null
+    }
+  }
+  return values
+}
+
+export class SavedSearchService {
+  private jobStore: JobStoreService
+  private matching: Promise<void> = Promise.resolve()
+
+  constructor(private db: DB) {
+    this.jobStore = new JobStoreService(db)
+  }
+
+  async list(userId: string) {
+    return await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt))
+  }
+
+  async get(userId: string, id: string) {
+    const [search] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .limit(1)
+    return search ?? null
+  }
+
+  /**
+   * @throws SavedSearchLimitError when the user already has MAX_SAVED_SEARCHES
+   */
+  async create(userId: string, input: SavedSearchInput) {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+    if (total >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchLimitError()
+    }
+
+    const values = filterValues(input)
+    const [search] = await this.db
+      .insert(savedSearches)
+      .values({
+        ...values,
+        userId,
+        name: (input.name?.trim() || values.text || 'Saved search').slice(0, 255),
+        alertsEnabled: input.alertsEnabled ?? true
+      })
+      .returning()
+    return search
+  }
+
+  /**
+   * Change the name, filters or alerts of a search; filters left out are kept
+   */
+  async update(userId: string, id: string, input: SavedSearchInput) {
+    const [search] = await this.db
+      .update(savedSearches)
+      .set({
+        ...filterValues(input),
+        ...(input.name?.trim() ? { name: input.name.trim().slice(0, 255) } : {}),
+        ...(input.alertsEnabled !== undefined ? { alertsEnabled: input.alertsEnabled } : {}),
+        updatedAt: new Date()
+      })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning()
+    return search ?? null
+  }
+
+  async remove(userId: string, id: string) {
+    const removed = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id })
+    return removed.length > 0
+  }
+
+  /**
+   * Match newly stored jobs in the background, one batch after another, so a
+   * Core broadcast is answered without waiting for every user's searches
+   */
+  matchJobsLater(externalIds: string[]) {
+    this.matching = this.matching
+      .then(async () => {
+        const matched = await this.matchJobs(externalIds)
+        if (matched > 0) logger.info('Broadcast jobs matched saved searches', { jobs: externalIds.length, matched })
+      })
+      .catch(error => {
+        logger.error('Failed to match broadcast jobs', error as Error, { count: externalIds.length })
+      })
+  }
+
+  /**
+   * Wait until the jobs passed to matchJobsLater so far are matched
+   */
+  async whenMatched() {
+    await this.matching
+  }
+
+  /**
+   * Match newly stored jobs (a Core broadcast) against every search with
+   * alerts. Searches filtering on what only Core knows (experience,
+   * employment, schedule, area ids) are left to their scheduled run.
+   *
+   * @returns Number of matches recorded
+   */
+  async matchJobs(externalIds: string[]): Promise<number> {
+    if (externalIds.length === 0) return 0
+
+    const searches = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.alertsEnabled, true))
+
+    let matched = 0
+    for (const search of searches) {
+      const request = toSearchRequest(search)
+      if (hasCoreOnlyFilters(request)) continue
+
+      const found = await this.jobStore.filterJobs(request, externalIds, search.createdAt)
+      matched += (await this.record(search, found)).length
+    }
+    return matched
+  }
+
+  /**
+   * Run a search through the job store (asking Core when it has not seen the
+   * search lately) and record the jobs published since the search was saved
+   *
+   * @returns Number of matches recorded
+   */
+  async run(search: SavedSearch): Promise<number> {
+    const request = toSearchRequest(search)
+    const { jobs: found } = await this.jobStore.search({ ...request, sort: 'date', limit: 100 })
+
+    // The results already match the search; only their age is left to check
+    const fresh = await this.jobStore.filterJobs(
+      { text: '' },
+      found.map(job => job.externalId),
+      search.createdAt
+    )
+    return (await this.record(search, fresh)).length
+  }
+
+  /**
+   * Matches of the user's searches, newest first
+   *
+   * @param pending Only the ones not pushed or acknowledged yet
+   */
+  async inbox(userId: string, { pending = true, limit = INBOX_LIMIT }: { pending?: boolean; limit?: number } = {}) {
+    return await this.db
+      .select({
+        id: savedSearchMatches.id,
+        savedSearchId: savedSearchMatches.savedSearchId,
+        savedSearchName: savedSearches.name,
+        matchedAt: savedSearchMatches.createdAt,
+        deliveredAt: savedSearchMatches.deliveredAt,
+        job: jobColumns
+      })
+      .from(savedSearchMatches)
+      .innerJoin(savedSearches, eq(savedSearches.id, savedSearchMatches.savedSearchId))
+      .innerJoin(jobs, eq(jobs.id, savedSearchMatches.jobId))
+      .where(and(
+        eq(savedSearchMatches.userId, userId),
+        ...(pending ? [isNull(savedSearchMatches.deliveredAt)] : [])
+      ))
+      .orderBy(desc(savedSearchMatches.createdAt))
+      .limit(limit)
+  }
+
+  /**
+   * Mark matches as delivered so they leave the inbox; all pending ones without ids
+   *
+   * @returns Number of matches marked
+   */
+  async acknowledge(userId: string, ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0
+
+    const marked = await this.db
+      .update(savedSearchMatches)
+      .set({ deliveredAt: new Date() })
+      .where(and(
+        eq(savedSearchMatches.userId, userId),
+        isNull(savedSearchMatches.deliveredAt),
+        ...(ids ? [inArray(savedSearchMatches.id, ids)] : [])
+      ))
+      .returning({ id: savedSearchMatches.id })
+    return marked.length
+  }
+
+  /**
+   * Push the user's pending matches, once they have a connected client
+   *
+   * @returns Number of matches sent
+   */
+  async deliverInbox(userId: string): Promise<number> {
+    const pending = await this.inbox(userId)
+    if (pending.length === 0 || !realtime.sendSavedSearchMatches(userId, pending)) return 0
+
+    await this.acknowledge(userId, pending.map(match => match.id))
+    return pending.length
+  }
+
+  /**
+   * Record matches of a search, once per job, and push the new ones to the
+   * owner; they stay pending when the owner is not connected
+   */
+  private async record(search: SavedSearch, found: StoredJob[]) {
+    if (found.length === 0) return []
+
+    const inserted = await this.db
+      .insert(savedSearchMatches)
+      .values(found.map(job => ({ savedSearchId: search.id, userId: search.userId, jobId: job.id })))
+      .onConflictDoNothing()
+      .returning({ id: savedSearchMatches.id, jobId: savedSearchMatches.jobId, matchedAt: savedSearchMatches.createdAt })
+    if (inserted.length === 0) return []
+
+    await this.db
+      .update(savedSearches)
+      .set({ lastMatchedAt: new Date() })
+      .where(eq(savedSearches.id, search.id))
+
+    const byId = new Map(found.map(job => [job.id, job]))
+    const matches = inserted.map(match => ({
+      id: match.id,
+      savedSearchId: search.id,
+      savedSearchName: search.name,
+      matchedAt: match.matchedAt,
+      deliveredAt: null,
+      job: byId.get(match.jobId)!
+    }))
+
+    if (realtime.sendSavedSearchMatches(search.userId, matches)) {
+      await this.acknowledge(search.userId, matches.map(match => match.id))
+    }
+    logger.info('Saved search matched new jobs', { savedSearchId: search.id, userId: search.userId, count: matches.length })
+    return matches
+  }
+}
+
+export const savedSearchService = new SavedSearchService(db)
@@ -0,0 +1,130 @@
+/**
+ * Periodic run of saved searches.
+ *
+ * Core broadcasts only some new jobs, so each saved search with alerts is also
+ * run through the job store (and so against Core) at most once per
+ * SAVED_SEARCH_RUN_INTERVAL_MS, least recently run first. New matches are
+ * recorded and pushed by SavedSearchService.
+ */
+
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { savedSearches } from '../db/schema'
+import { and, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm'
+import { env } from '../config/env'
+import { SavedSearchService, type SavedSearch } from './saved-search.service'
+import { logger } from '../utils/logger'
+
+export interface SavedSearchWorkerOptions {
+  pollIntervalMs: number
+  batchSize: number
+  runIntervalMs: number
+}
+
+export class SavedSearchWorker {
+  private savedSearchService: SavedSearchService
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private currentTick: Promise<unknown> | null = null
+
+  constructor(
+    private db: DB,
+    private options: SavedSearchWorkerOptions = {
+      pollIntervalMs: env.SAVED_SEARCH_POLL_INTERVAL_MS,
+      batchSize: env.SAVED_SEARCH_BATCH_SIZE,
+      runIntervalMs: env.SAVED_SEARCH_RUN_INTERVAL_MS
+    }
+  ) {
+    this.savedSearchService = new SavedSearchService(db)
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    logger.info('Saved search worker started', { ...this.options })
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop() {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.currentTick
+    logger.info('Saved search worker stopped')
+  }
+
+  /**
+   * Run a batch of searches that are due
+   *
+   * @returns Number of searches run
+   */
+  async tick(): Promise<number> {
+    const due = await this.claim(this.options.batchSize)
+
+    // One at a time; most runs are answered by the job store without Core
+    for (const search of due) {
+      try {
+        await this.savedSearchService.run(search)
+      } catch (error) {
+        logger.warn('Saved search run failed', { savedSearchId: search.id, error: (error as Error).message })
+      }
+    }
+
+    return due.length
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return
+
+    this.timer = setTimeout(async () => {
+      let ran = 0
+      try {
+        this.currentTick = this.tick()
+        ran = await (this.currentTick as Promise<number>)
+      } catch (error) {
+        logger.error('Saved search tick failed', error as Error)
+      } finally {
+        this.currentTick = null
+      }
+
+      this.schedule(ran >= this.options.batchSize ? 0 : this.options.pollIntervalMs)
+    }, delayMs)
+  }
+
+  /**
+   * Pick searches due for a run and mark them run, so other instances skip them
+   */
+  private async claim(limit: number): Promise<SavedSearch[]> {
+    const now = new Date()
+    const runBefore = new Date(now.getTime() - this.options.runIntervalMs)
+
+    return await this.db.transaction(async (tx) => {
+      const due = await tx
+        .select()
+        .from(savedSearches)
+        .where(and(
+          eq(savedSearches.alertsEnabled, true),
+          or(isNull(savedSearches.lastRunAt), lt(savedSearches.lastRunAt, runBefore))
+        ))
+        .orderBy(sql`${savedSearches.lastRunAt} asc nulls first`)
+        .limit(limit)
+        .for('update', { skipLocked: true })
+
+      if (due.length > 0) {
+        await tx
+          .update(savedSearches)
+          .set({ lastRunAt: now })
+          .where(inArray(savedSearches.id, due.map(search => search.id)))
+      }
+
+      return due
+    })
+  }
+}
+
+export const savedSearchWorker = new SavedSearchWorker(db)
@@ -0,0 +1,408 @@
+/**
+ * Canonical skill taxonomy.
+ *
+ * Skills arrive as free text from CV parsing, HH resumes, AI extraction and
+ * Core's jobs, spelled every which way ("ReactJS", "React 18", "реакт").
+ * Every skill is normalized to its canonical name here before it is stored
+ * or compared, so "Postgres" and "PostgreSQL" are one skill everywhere.
+ * Skills not in the taxonomy are kept as written.
+ *
+ * A skill's parents are the more general skills it includes: knowing Next.js
+ * means knowing React, which means knowing JavaScript.
+ */
+
+import type { JobSkills, SkillDefinition, SkillInfo, SkillSuggestion } from '../types'
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  // Programming languages
+  { name: 'JavaScript', category: 'languages', aliases: ['js', 'ecmascript', 'es6', 'es2015', 'vanilla js', 'джаваскрипт'] },
+  { name: 'TypeScript', category: 'languages', aliases: ['ts', 'тайпскрипт'], parents: ['JavaScript'] },
+  { name: 'Python', category: 'languages', aliases: ['py', 'питон'] },
+  { name: 'Java', category: 'languages', aliases: ['джава'] },
+  { name: 'Kotlin', category: 'languages', aliases: ['котлин'] },
+  { name: 'C#', category: 'languages', aliases: ['csharp', 'c sharp'] },
+  { name: 'C++', category: 'languages', aliases: ['cpp'] },
+  { name: 'C', category: 'languages' },
+  { name: 'Go', category: 'languages', aliases: ['golang'] },
+  { name: 'Rust', category: 'languages' },
+  { name: 'PHP', category: 'languages' },
+  { name: 'Ruby', category: 'languages' },
+  { name: 'Swift', category: 'languages' },
+  { name: 'Dart', category: 'languages' },
+  { name: 'Scala', category: 'languages' },
+  { name: 'Bash', category: 'languages', aliases: ['shell', 'shell scripting'] },
+  { name: '1C', category: 'languages', aliases: ['1с', '1с:предприятие', '1c:enterprise'] },
+
+  // Frontend
+  { name: 'HTML', category: 'frontend', aliases: ['html5'] },
+  { name: 'CSS', category: 'frontend', aliases: ['css3'] },
+  { name: 'Sass', category: 'frontend', aliases: ['scss'], parents: ['CSS'] },
+  { name: 'Less', category: 'frontend', parents: ['CSS'] },
+  { name: 'Tailwind CSS', category: 'frontend', aliases: ['tailwind', 'tailwindcss'], parents: ['CSS'] },
+  { name: 'React', category: 'frontend', aliases: ['react.js', 'reactjs', 'react js', 'реакт'], parents: ['JavaScript'] },
+  { name: 'Redux', category: 'frontend', aliases: ['redux toolkit', 'rtk'], parents: ['React'] },
+  { name: 'MobX', category: 'frontend' },
+  { name: 'Zustand', category: 'frontend' },
+  { name: 'Next.js', category: 'frontend', aliases: ['nextjs', 'next'], parents: ['React'] },
+  { name: 'Vue', category: 'frontend', aliases: ['vue.js', 'vuejs', 'vue js'], parents: ['JavaScript'] },
+  { name: 'Nuxt', category: 'frontend', aliases: ['nuxt.js', 'nuxtjs'], parents: ['Vue'] },
+  { name: 'Angular', category: 'frontend', aliases: ['angular2', 'angular 2+'], parents: ['TypeScript'] },
+  { name: 'Svelte', category: 'frontend', parents: ['JavaScript'] },
+  { name: 'jQuery', category: 'frontend', parents: ['JavaScript'] },
+  { name: 'Webpack', category: 'frontend' },
+  { name: 'Vite', category: 'frontend' },
+  { name: 'Rollup', category: 'frontend' },
+  { name: 'esbuild', category: 'frontend' },
+
+  // Mobile
+  { name: 'React Native', category: 'mobile', aliases: ['react-native', 'reactnative'], parents: ['React'] },
+  { name: 'Flutter', category: 'mobile', parents: ['Dart'] },
+  { name: 'iOS', category: 'mobile' },
+  { name: 'Android', category: 'mobile' },
+
+  // Backend
+  { name: 'Node.js', category: 'backend', aliases: ['node', 'nodejs', 'node js', 'нода'], parents: ['JavaScript'] },
+  { name: 'NestJS', category: 'backend', aliases: ['nest.js', 'nest'], parents: ['Node.js', 'TypeScript'] },
+  { name: 'Express', category: 'backend', aliases: ['express.js', 'expressjs'], parents: ['Node.js'] },
+  { name: 'Fastify', category: 'backend', parents: ['Node.js'] },
+  { name: 'Koa', category: 'backend', parents: ['Node.js'] },
+  { name: 'Django', category: 'backend', parents: ['Python'] },
+  { name: 'Flask', category: 'backend', parents: ['Python'] },
+  { name: 'FastAPI', category: 'backend', parents: ['Python'] },
+  { name: 'Spring', category: 'backend', aliases: ['spring boot', 'spring framework'], parents: ['Java'] },
+  { name: '.NET', category: 'backend', aliases: ['dotnet', '.net core', 'asp.net', 'asp.net core'], parents: ['C#'] },
+  { name: 'Laravel', category: 'backend', parents: ['PHP'] },
+  { name: 'Ruby on Rails', category: 'backend', aliases: ['rails', 'ror'], parents: ['Ruby'] },
+  { name: 'REST API', category: 'backend', aliases: ['rest', 'restful', 'restful api', 'rest apis'] },
+  { name: 'GraphQL', category: 'backend', aliases: ['gql'] },
+  { name: 'gRPC', category: 'backend' },
+  { name: 'Microservices', category: 'backend', aliases: ['microservice architecture', 'микросервисы', 'микросервисная архитектура'] },
+  { name: 'Kafka', category: 'backend', aliases: ['apache kafka'] },
+  { name: 'RabbitMQ', category: 'backend', aliases: ['rabbit mq', 'rabbit'] },
+  { name: 'NATS', category: 'backend' },
+
+  // Databases
+  { name: 'SQL', category: 'databases' },
+  { name: 'PostgreSQL', category: 'databases', aliases: ['postgres', 'postgre', 'psql', 'pg', 'постгрес'], parents: ['SQL'] },
+  { name: 'MySQL', category: 'databases', parents: ['SQL'] },
+  { name: 'MS SQL', category: 'databases', aliases: ['mssql', 'sql server', 'microsoft sql server', 't-sql', 'tsql'], parents: ['SQL'] },
+  { name: 'Oracle', category: 'databases', aliases: ['oracle db', 'pl/sql'], parents: ['SQL'] },
+  { name: 'SQLite', category: 'databases', parents: ['SQL'] },
+  { name: 'MariaDB', category: 'databases', parents: ['SQL'] },
+  { name: 'MongoDB', category: 'databases', aliases: ['mongo'] },
+  { name: 'Redis', category: 'databases' },
+  { name: 'Elasticsearch', category: 'databases', aliases: ['elastic search', 'elastic'] },
+  { name: 'ClickHouse', category: 'databases', aliases: ['click house'] },
+
+  // DevOps
+  { name: 'Docker', category: 'devops', aliases: ['докер'] },
+  { name: 'Kubernetes', category: 'devops', aliases: ['k8s', 'kube'], parents: ['Docker'] },
+  { name: 'CI/CD', category: 'devops', aliases: ['ci', 'cicd', 'ci cd', 'continuous integration'] },
+  { name: 'GitLab CI', category: 'devops', aliases: ['gitlab ci/cd', 'gitlab-ci'], parents: ['CI/CD'] },
+  { name: 'GitHub Actions', category: 'devops', parents: ['CI/CD'] },
+  { name: 'Jenkins', category: 'devops', parents: ['CI/CD'] },
+  { name: 'Terraform', category: 'devops' },
+  { name: 'Ansible', category: 'devops' },
+  { name: 'Nginx', category: 'devops' },
+  { name: 'Linux', category: 'devops', aliases: ['линукс'] },
+  { name: 'Prometheus', category: 'devops' },
+  { name: 'Grafana', category: 'devops' },
+
+  // Cloud
+  { name: 'AWS', category: 'cloud', aliases: ['amazon web services'] },
+  { name: 'GCP', category: 'cloud', aliases: ['google cloud', 'google cloud platform'] },
+  { name: 'Azure', category: 'cloud', aliases: ['microsoft azure'] },
+  { name: 'Yandex Cloud', category: 'cloud', aliases: ['yandex.cloud', 'яндекс облако', 'яндекс.облако'] },
+
+  // Data
+  { name: 'Machine Learning', category: 'data', aliases: ['ml', 'машинное обучение'] },
+  { name: 'Data Analysis', category: 'data', aliases: ['data analytics', 'анализ данных'] },
+  { name: 'Pandas', category: 'data', parents: ['Python'] },
+  { name: 'NumPy', category: 'data', parents: ['Python'] },
+  { name: 'PyTorch', category: 'data', parents: ['Python', 'Machine Learning'] },
+  { name: 'TensorFlow', category: 'data', parents: ['Python', 'Machine Learning'] },
+  { name: 'Spark', category: 'data', aliases: ['apache spark', 'pyspark'] },
+  { name: 'Airflow', category: 'data', aliases: ['apache airflow'] },
+
+  // Testing
+  { name: 'Unit Testing', category: 'testing', aliases: ['unit tests', 'юнит-тесты', 'модульное тестирование'] },
+  { name: 'QA Automation', category: 'testing', aliases: ['test automation', 'автоматизация тестирования', 'автотесты'] },
+  { name: 'Jest', category: 'testing', parents: ['Unit Testing'] },
+  { name: 'Vitest', category: 'testing', parents: ['Unit Testing'] },
+  { name: 'Mocha', category: 'testing', parents: ['Unit Testing'] },
+  { name: 'Pytest', category: 'testing', parents: ['Python', 'Unit Testing'] },
+  { name: 'Cypress', category: 'testing', parents: ['QA Automation'] },
+  { name: 'Playwright', category: 'testing', parents: ['QA Automation'] },
+  { name: 'Selenium', category: 'testing', parents: ['QA Automation'] },
+
+  // Tools
+  { name: 'Git', category: 'tools', aliases: ['гит'] },
+  { name: 'GitHub', category: 'tools', parents: ['Git'] },
+  { name: 'GitLab', category: 'tools', parents: ['Git'] },
+  { name: 'Bitbucket', category: 'tools', parents: ['Git'] },
+  { name: 'Jira', category: 'tools', aliases: ['джира'] },
+  { name: 'Figma', category: 'tools', aliases: ['фигма'] },
+
+  // Methodologies
+  { name: 'Agile', category: 'methodologies', aliases: ['аджайл'] },
+  { name: 'Scrum', category: 'methodologies', aliases: ['скрам'], parents: ['Agile'] },
+  { name: 'Kanban', category: 'methodologies', aliases: ['канбан'], parents: ['Agile'] },
+  { name: 'OOP', category: 'methodologies', aliases: ['object-oriented programming', 'ооп'] },
+  { name: 'SOLID', category: 'methodologies' },
+
+  // Spoken languages
+  { name: 'English', category: 'spoken_languages', aliases: ['английский', 'английский язык', 'english language'] },
+  { name: 'Russian', category: 'spoken_languages', aliases: ['русский', 'русский язык', 'russian language'] }
+]
+
+/**
+ * Families of interchangeable skills, by name; one member partly covers another
+ */
+export const SKILL_FAMILIES: string[][] = [
+  ['PostgreSQL', 'MySQL', 'MS SQL', 'Oracle', 'SQLite', 'MariaDB'],
+  ['React', 'Vue', 'Angular', 'Svelte'],
+  ['AWS', 'GCP', 'Azure', 'Yandex Cloud'],
+  ['Kafka', 'RabbitMQ', 'NATS'],
+  ['Jest', 'Vitest', 'Mocha'],
+  ['Cypress', 'Playwright', 'Selenium'],
+  ['Webpack', 'Vite', 'Rollup', 'esbuild'],
+  ['Redux', 'MobX', 'Zustand'],
+  ['Sass', 'Less'],
+  ['Django', 'Flask', 'FastAPI'],
+  ['Express', 'NestJS', 'Fastify', 'Koa'],
+  ['GitLab CI', 'GitHub Actions', 'Jenkins'],
+  ['Git', 'GitHub', 'GitLab', 'Bitbucket'],
+  ['Scrum', 'Agile', 'Kanban']
+]
+
+function clean(name: string): string {
+  return name.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim()
+}
+
+const SKILLS = new Map<string, SkillDefinition>(SKILL_TAXONOMY.map(skill => [clean(skill.name), skill]))
+
+const NAME_LOOKUP = new Map<string, string>(
+  SKILL_TAXONOMY.flatMap(skill =>
+    [skill.name, ...(skill.aliases ?? [])].map(name => [clean(name), clean(skill.name)] as [string, string])
+  )
+)
+
+const CHILDREN = new Map<string, string[]>()
+for (const skill of SKILL_TAXONOMY) {
+  for (const parent of skill.parents ?? []) {
+    const id = clean(parent)
+    CHILDREN.set(id, [...(CHILDREN.get(id) ?? []), skill.name])
+  }
+}
+
+const RELATED = new Map<string, Set<string>>()
+for (const family of SKILL_FAMILIES) {
+  const ids = family.map(clean)
+  for (const id of ids) {
+    const related = RELATED.get(id) ?? new Set<string>()
+    ids.filter(other => other !== id).forEach(other => related.add(other))
+    RELATED.set(id, related)
+  }
+}
+
+/**
+ * Key skills are compared by: the lowercase canonical name, without version
+ * numbers ("Python 3", "Vue 3") and with aliases resolved. Unknown skills
+ * keep their (lowercase) name.
+ */
+export function skillId(name: string): string {
+  const cleaned = clean(name)
+  const unversioned = cleaned.replace(/\s*v?\d+(\.\d+)*\+?$/, '') || cleaned
+  for (const candidate of [cleaned, unversioned, unversioned.replace(/[.\s-]?js$/, '')]) {
+    const id = NAME_LOOKUP.get(candidate)
+    if (id) return id
+  }
+  return unversioned
+}
+
+/**
+ * The taxonomy entry of a skill under any of its names
+ */
+export function findSkill(name: string): SkillDefinition | undefined {
+  return SKILLS.get(skillId(name))
+}
+
+/**
+ * Canonical spelling of a skill, or the name as written (trimmed) when the
+ * taxonomy does not know it
+ */
+export function normalizeSkill(name: string): string {
+  return findSkill(name)?.name ?? name.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Canonical spellings of a skill list, each skill once, in the original order
+ */
+export function normalizeSkills(names: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const name of names) {
+    if (typeof name !== 'string') continue
+    const normalized = normalizeSkill(name)
+    const id = skillId(normalized)
+    if (!normalized || seen.has(id)) continue
+    seen.add(id)
+    result.push(normalized)
+  }
+  return result
+}
+
+/**
+ * Normalize AI-extracted job skills. Known skills are filed under their
+ * taxonomy category; unknown ones stay in the category the model chose.
+ */
+export function normalizeJobSkills(skills: JobSkills): JobSkills {
+  const normalized: JobSkills = {
+    required: normalizeSkills(skills.required ?? []),
+    preferred: normalizeSkills(skills.preferred ?? []),
+    tools: normalizeSkills(skills.tools ?? []),
+    frameworks: normalizeSkills(skills.frameworks ?? []),
+    categories: {}
+  }
+
+  const file = (category: string, name: string) => {
+    const list = normalized.categories[category] ??= []
+    if (!list.some(other => skillId(other) === skillId(name))) list.push(name)
+  }
+
+  for (const [category, names] of Object.entries(skills.categories ?? {})) {
+    for (const name of normalizeSkills(names ?? [])) {
+      file(findSkill(name)?.category ?? category, name)
+    }
+  }
+  for (const name of [...normalized.required, ...normalized.preferred, ...normalized.tools, ...normalized.frameworks]) {
+    const known = findSkill(name)
+    if (known) file(known.category, known.name)
+  }
+
+  return normalized
+}
+
+/**
+ * All the more general skills a skill includes, nearest first
+ */
+export function ancestorSkills(id: string): string[] {
+  const ancestors: string[] = []
+  const queue = [id]
+  while (queue.length > 0) {
+    for (const parent of SKILLS.get(queue.shift()!)?.parents ?? []) {
+      const parentId = clean(parent)
+      if (parentId !== id && !ancestors.includes(parentId)) {
+        ancestors.push(parentId)
+        queue.push(parentId)
+      }
+    }
+  }
+  return ancestors
+}
+
+/**
+ * Skills of the same family as a skill
+ */
+export function relatedSkills(id: string): string[] {
+  return [...RELATED.get(id) ?? []]
+}
+
+/**
+ * Full taxonomy entry of a skill, with its parents and children by name
+ */
+export function lookupSkill(name: string): SkillInfo | null {
+  const id = skillId(name)
+  const skill = SKILLS.get(id)
+  if (!skill) return null
+
+  return {
+    id,
+    name: skill.name,
+    category: skill.category,
+    aliases: skill.aliases ?? [],
+    parents: skill.parents ?? [],
+    children: CHILDREN.get(id) ?? []
+  }
+}
+
+/**
+ * Skills whose name or an alias starts with the query, best matches first:
+ * exact names, then name prefixes, alias prefixes and word prefixes
+ * ("css" finds Tailwind CSS)
+ */
+export function autocompleteSkills(query: string, limit = 10): SkillSuggestion[] {
+  const q = clean(query)
+  if (!q) return []
+
+  const ranked: Array<{ suggestion: SkillSuggestion, rank: number, order: number }> = []
+  SKILL_TAXONOMY.forEach((skill, order) => {
+    let best: { rank: number, matched: string } | undefined
+    for (const [index, term] of [skill.name, ...(skill.aliases ?? [])].entries()) {
+      const cleaned = clean(term)
+      const rank = cleaned === q ? 0
+        : cleaned.startsWith(q) ? (index === 0 ? 1 : 2)
+        : cleaned.split(/[\s./-]+/).some(word => word.startsWith(q)) ? 3
+        : undefined
+      if (rank !== undefined && (!best || rank < best.rank)) best = { rank, matched: term }
+    }
+    if (best) {
+      ranked.push({ suggestion: { name: skill.name, category: skill.category, matched: best.matched }, rank: best.rank, order })
+    }
+  })
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.suggestion.name.length - b.suggestion.name.length || a.order - b.order)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion)
+}
+
+// Skill names that are also ordinary words ("the rest of", "next year")
+const AMBIGUOUS_TERMS = new Set(['rest', 'next', 'node', 'nest', 'express', 'spring', 'elastic', 'rabbit', 'agile', 'less', 'swift', 'rails', 'shell'])
+
+/**
+ * Names a skill could appear under in free text. Very short names ("go",
+ * "ts") and ordinary words match too much to be searched for.
+ */
+function searchTerms(id: string): string[] {
+  return [id, ...(SKILLS.get(id)?.aliases ?? []).map(clean)]
+    .filter(term => (term.length >= 3 || /[^\p{L}]/u.test(term)) && !AMBIGUOUS_TERMS.has(term))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const MENTION_PATTERNS = new Map<string, RegExp | null>()
+
+/**
+ * Whole-word, case-insensitive pattern for the names of a skill that also
+ * works for "C++" or "CI/CD" and Cyrillic text
+ */
+function mentionPattern(id: string): RegExp | null {
+  if (MENTION_PATTERNS.has(id)) return MENTION_PATTERNS.get(id)!
+
+  const terms = searchTerms(id)
+  const pattern = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}+#])`, 'iu')
+    : null
+  // Only taxonomy skills are cached; job skills outside it are open-ended
+  if (SKILLS.has(id)) MENTION_PATTERNS.set(id, pattern)
+  return pattern
+}
+
+/**
+ * The name under which a skill is mentioned in free text, if it is
+ */
+export function findSkillMention(text: string, id: string): string | undefined {
+  return mentionPattern(id)?.exec(text.replace(/ё/gi, 'е'))?.[0].toLowerCase()
+}
+
+/**
+ * Taxonomy skills mentioned in free text, by canonical name
+ */
+export function detectSkills(text: string): string[] {
+  return SKILL_TAXONOMY
+    .filter(skill => findSkillMention(text, clean(skill.name)) !== undefined)
+    .map(skill => skill.name)
+}
@@ -1,6 +1,7 @@
 import { db } from '../db/client'
 import { parsedCvs } from '../db/schema'
 import { eq, isNull } from 'drizzle-orm'
+import { normalizeSkills } from './skill-taxonomy.service'
 import type { CreateParsedCvInput, ParsedCV } from '../types'
 
 export class StorageService {
@@ -16,12 +17,13 @@ export class StorageService {
         summary: input.parsedData.summary,
         experience: input.parsedData.experience,
         education: input.parsedData.education,
-        skills: input.parsedData.skills || [],
+        skills: normalizeSkills(input.parsedData.skills || []),
         projects: input.parsedData.projects,
         fullText: input.parsedData.fullText,
         originalFilename: input.originalFilename,
         filePath: input.filePath,
         modelUsed: input.modelUsed,
+        promptVersion: input.parsedData.promptVersion,
         createdAt: new Date(),
         updatedAt: new Date(),
       }).returning()
@@ -0,0 +1,163 @@
+import { db } from '../db/client'
+import type { DB } from '../db/client'
+import { users, sessions, parsedCvs, applications, applicationQueue } from '../db/schema'
+import { eq, and, gt, isNull, desc } from 'drizzle-orm'
+import { decodeJwtPayload } from '../utils/crypto'
+import { logger } from '../utils/logger'
+import type { SessionPayload } from '../types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type Transaction = Parameters<Parameters<DB['transaction']>[0]>[0]
+
+/**
+ * Identity of the HH account behind a Core JWT
+ */
+export function getTokenSubject(token: string): string | null {
+  const claims = decodeJwtPayload(token)
+  const subject = claims?.sub ?? claims?.user_id
+  return subject === undefined || subject === null ? null : String(subject)
+}
+
+/**
+ * Maps sessions to rows in the users table
+ */
+export class UserService {
+  constructor(private db: DB) {}
+
+  /**
+   * Find the user for an HH identity, creating it on first login.
+   * Without an identity a new user is created.
+   */
+  async findOrCreateUser(hhUserId: string | null, tx: DB | Transaction = this.db) {
+    const now = new Date()
+
+    if (!hhUserId) {
+      const [user] = await tx.insert(users).values({
+        lastLoginAt: now,
+        createdAt: now,
+        updatedAt: now
+      }).returning()
+      return user
+    }
+
+    const [user] = await tx.insert(users).values({
+      hhUserId,
+      lastLoginAt: now,
+      createdAt: now,
+      updatedAt: now
+    }).onConflictDoUpdate({
+      target: users.hhUserId,
+      set: { lastLoginAt: now, updatedAt: now }
+    }).returning()
+
+    return user
+  }
+
+  /**
+   * Link the session created on HH OAuth callback to its user
+   *
+   * @returns The user id
+   */
+  async linkLogin(sessionId: string, token: string): Promise<string> {
+    const hhUserId = getTokenSubject(token)
+
+    const userId = await this.db.transaction(async (tx) => {
+      // Concurrent first requests of the session wait here and agree on one user
+      const [session] = await tx
+        .select({ userId: sessions.userId })
+        .from(sessions)
+        .where(eq(sessions.sessionId, sessionId))
+        .for('update')
+
+      if (!hhUserId) {
+        if (session?.userId) return session.userId
+        logger.warn('Core JWT has no subject, creating standalone user', { sessionId })
+      }
+
+      const user = await this.findOrCreateUser(hhUserId, tx)
+      await this.claimSessionData(tx, sessionId, user.id)
+      return user.id
+    })
+
+    logger.info('Session linked to user', { sessionId, userId })
+    return userId
+  }
+
+  /**
+   * Resolve the user of a session. Sessions created before users were
+   * tracked are linked on first use.
+   */
+  async resolveSessionUser(session: SessionPayload, knownUserId?: string | null): Promise<string> {
+    if (knownUserId) return knownUserId
+
+    const [row] = await this.db
+      .select({ userId: sessions.userId })
+      .from(sessions)
+      .where(eq(sessions.sessionId, session.id))
+      .limit(1)
+
+    if (row?.userId) return row.userId
+
+    return await this.linkLogin(session.id, session.token)
+  }
+
+  /**
+   * Most recently used live session of a user, for work done on their
+   * behalf outside a request (e.g. queued submissions)
+   */
+  async getActiveSession(userId: string) {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        gt(sessions.expiresAt, new Date()),
+        isNull(sessions.revokedAt)
+      ))
+      .orderBy(desc(sessions.lastActivityAt))
+      .limit(1)
+
+    return session
+  }
+
+  /**
+   * Point the session at the user and move over rows that were owned by the
+   * session id (before users were tracked the session id was the owner id)
+   */
+  private async claimSessionData(tx: Transaction, sessionId: string, userId: string) {
+    await tx
+      .update(sessions)
+      .set({ userId, updatedAt: new Date() })
+      .where(eq(sessions.sessionId, sessionId))
+
+    if (!UUID_PATTERN.test(sessionId)) return
+
+    const [cvs, apps, queued] = await Promise.all([
+      tx.update(parsedCvs)
+        .set({ userId, updatedAt: new Date() })
+        .where(eq(parsedCvs.userId, sessionId))
+        .returning({ id: parsedCvs.id }),
+      tx.update(applications)
+        .set({ userId, updatedAt: new Date() })
+        .where(eq(applications.userId, sessionId))
+        .returning({ id: applications.id }),
+      tx.update(applicationQueue)
+        .set({ userId, updatedAt: new Date() })
+        .where(eq(applicationQueue.userId, sessionId))
+        .returning({ id: applicationQueue.id })
+    ])
+
+    if (cvs.length || apps.length || queued.length) {
+      logger.info('Migrated session-owned rows to user', {
+        sessionId,
+        userId,
+        parsedCvs: cvs.length,
+        applications: apps.length,
+        queueItems: queued.length
+      })
+    }
+  }
+}
+
+export const userService = new UserService(db)
@@ -8,8 +8,12 @@
 
 export interface User {
   id: string
-  email: string
-  passwordHash: string
+  email: string | null
+  passwordHash: string | null
+  hhUserId: string | null // Subject of the Core JWT issued on HH OAuth
+  lastLoginAt: Date | null
+  aiDailyRequestLimit: number | null // Overrides AI_DAILY_REQUEST_LIMIT
+  aiDailyTokenBudget: number | null // Overrides AI_DAILY_TOKEN_BUDGET
   createdAt: Date
   updatedAt: Date
 }
@@ -45,6 +49,7 @@ export interface ParsedCV {
   originalFilename?: string
   filePath?: string
   modelUsed?: string
+  promptVersion?: string | null
   createdAt?: Date
   updatedAt?: Date
 }
@@ -98,14 +103,34 @@ export interface Application {
   submittedAt?: Date
   responseData?: Record<string, any>
   errorMessage?: string
+  errorReason?: string
   hhResumeId?: string
   hhNegotiationId?: string
   hhStatus?: string
   rateLimitedUntil?: Date
+  attempts: number
+  lastAttemptAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * HH negotiation status of a submitted application. 'viewed' is a response
+ * the employer has opened but not answered yet.
+ */
+export type HHNegotiationStatus = 'response' | 'viewed' | 'invitation' | 'discard' | 'hired' | (string & {})
+
+export type ApplicationEventType = 'submitted' | 'submission_failed' | 'rate_limited' | 'hh_status_changed'
+
+export interface ApplicationEvent {
+  id: string
+  applicationId: string
+  type: ApplicationEventType
+  hhStatus?: HHNegotiationStatus
+  data?: Record<string, any>
+  occurredAt: Date
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -158,6 +183,7 @@ export interface SessionValidationResult {
 export interface SessionValidationSuccess {
   valid: true
   session: SessionPayload
+  userId: string | null // users.id, null until the session is linked
 }
 
 export type SessionValidation = SessionValidationResult | SessionValidationSuccess
@@ -212,6 +238,148 @@ export interface AIModelInfo {
   description: string
 }
 
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMChatRequest {
+  model: string
+  messages: LLMChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  title?: string // Sent as X-Title where the provider supports it
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMChatResponse {
+  content: string
+  model: string
+  usage?: LLMUsage
+}
+
+export interface LLMModel {
+  id: string
+  name: string
+  provider: string
+  description?: string
+  pricing?: Record<string, string>
+}
+
+/**
+ * Product feature an AI call is made for, used to attribute usage and cost
+ */
+export type AIFeature =
+  | 'cv_customization'
+  | 'multistage_customization'
+  | 'cover_letter_variations'
+  | 'skills_consensus'
+  | 'interview_preparation'
+  | 'culture_analysis'
+  | 'realtime_suggestions'
+  | 'queue_customization'
+  | 'other'
+
+export interface AIUsageTotals {
+  requests: number
+  failedRequests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+  validatedOutputs: number // calls whose JSON output was checked against a schema
+  invalidOutputs: number // of which failed it
+}
+
+export interface AIUsageDay extends AIUsageTotals {
+  date: string // YYYY-MM-DD (UTC)
+  features: Record<string, AIUsageTotals>
+  models: Record<string, AIUsageTotals>
+}
+
+export interface AIQuotaCounter {
+  used: number
+  limit: number | null // null = unlimited
+  remaining: number | null
+}
+
+export interface AIQuotaState {
+  requests: AIQuotaCounter // model calls
+  tokens: AIQuotaCounter
+  resetsAt: string // next UTC midnight
+}
+
+export type AIQuotaCheck =
+  | { allowed: true; state: AIQuotaState }
+  | {
+      allowed: false
+      state: AIQuotaState
+      exceeded: 'requests' | 'tokens'
+      retryAfterSeconds: number
+    }
+
+/**
+ * Variables of each prompt template (src/prompts/<template>.<version>.md)
+ */
+export interface PromptVariables {
+  job_skills: { jobDescription: string }
+  job_skills_consensus: { jobDescription: string }
+  cv_customization: { cv: string; jobDescription: string; requiredSkills: string }
+  cover_letter: {
+    language: string
+    candidateName: string
+    title: string
+    topSkills: string
+    keyExperience: string
+    matchedSkills: string
+    jobDescription: string
+    company: string
+    languageNote: string
+  }
+  cv_analysis: { cv: string; jobDescription: string }
+  cv_optimization: { cv: string; jobDescription: string; analysis: string }
+  cv_validation: { cv: string; jobDescription: string }
+  cover_letter_variation: {
+    styleHeading: string
+    style: string
+    language: string
+    styleGuidelines: string
+    candidate: string
+    jobDescription: string
+    company: string
+    languageNote: string
+  }
+  interview_preparation: { cv: string; jobDescription: string; company: string; language: string }
+  culture_analysis: { jobDescription: string; companyInfo: string; reviews: string }
+  realtime_suggestions: {
+    cvTitle: string
+    cvSkills: string
+    cvExperience: string
+    jobTitle: string
+    company: string
+    jobDescription: string
+    matchScore: number
+  }
+  cv_parsing: { cvText: string }
+}
+
+export type PromptTemplateName = keyof PromptVariables
+
+/**
+ * Prompt rendered from a template version, ready to send
+ */
+export interface RenderedPrompt {
+  template: PromptTemplateName
+  version: string
+  text: string
+  system?: string
+}
+
 export interface CoverLetterOptions {
   cv: CustomizedCV
   jobDescription: string
@@ -244,26 +412,53 @@ export interface CVCustomizeRequest {
   cv: ParsedCV
   jobDescription: string
   model?: string
+  stream?: boolean // Stream customization_delta messages over /ws
+  streamId?: string // Sent with the streamed messages so the client can tell its request apart
 }
 
 export interface ApplicationSubmitRequest {
   jobExternalId: string
   customizedCV: CustomizedCV
   coverLetter: string
+  customCvId?: string // Custom CV version the submission was made from
+  reapply?: boolean // Apply even though the user already applied to the vacancy
 }
 
+export type ApplicationSubmitResult =
+  | { success: true; result: any }
+  | {
+      success: false
+      status: number // HTTP status to report to the client
+      error: string
+      reason?: string // Normalized Core rejection reason (422)
+      retryable: boolean // Transient failure (Core/network), safe to try again
+      rateLimited?: boolean
+      retryAfterMs?: number
+    }
+
 export interface JobSearchRequest {
   text: string
-  area?: string
+  area?: string // HH area id (sent to Core) or area name
   experience?: string
   employment?: string
   schedule?: string
+  // Filters of the local job store
+  onlyWithSalary?: boolean
+  salaryFrom?: number // per month in SALARY_BASE_CURRENCY; jobs whose range overlaps
+  salaryTo?: number
+  skills?: string[] // jobs listing all of these
+  hasTest?: boolean
+  publishedWithinDays?: number
+  sort?: 'relevance' | 'date' | 'salary'
+  limit?: number
+  offset?: number
 }
 
 export interface JobSearchResponse {
   success: boolean
-  jobs: Job[]
+  jobs: JobItem[]
   total: number
+  stale?: boolean // Core was unavailable; results come from the local store only
   error?: string
 }
 
@@ -411,6 +606,10 @@ export interface EnvConfig {
   JWT_SECRET: string
   JWT_EXPIRES_IN: string
   OPENROUTER_API_KEY: string
+  LLM_PROVIDER: 'openrouter' | 'local' | 'fake'
+  LLM_LOCAL_URL: string
+  LLM_LOCAL_MODEL: string
+  LLM_LOCAL_API_KEY: string
   HH_ACCESS_TOKEN: string
   ORCHESTRATOR_SECRET: string
   CORE_URL: string
@@ -419,12 +618,46 @@ export interface EnvConfig {
   MAX_FILE_SIZE: number
   UPLOAD_DIR: string
   TELEGRAM_HANDLE: string
+  CACHE_BACKEND: 'memory' | 'redis' | 'tiered'
+  REDIS_URL: string
+  CACHE_KEY_PREFIX: string
+  CACHE_L1_TTL_MS: number
+  RATE_LIMIT_ENABLED: boolean
+  RATE_LIMIT_BACKEND: 'memory' | 'redis'
+  RATE_LIMIT_KEY_PREFIX: string
+  RATE_LIMIT_MAX: number
+  RATE_LIMIT_WINDOW_MS: number
+  RATE_LIMIT_TRUST_PROXY: boolean
+  AI_SCHEMA_REPAIR_ATTEMPTS: number
+  AI_DAILY_REQUEST_LIMIT: number
+  AI_DAILY_TOKEN_BUDGET: number
+  QUEUE_WORKER_ENABLED: boolean
+  QUEUE_POLL_INTERVAL_MS: number
+  QUEUE_CONCURRENCY: number
+  QUEUE_MAX_ATTEMPTS: number
+  QUEUE_RETRY_BASE_MS: number
+  QUEUE_LEASE_MS: number
+  HH_SYNC_ENABLED: boolean
+  HH_SYNC_POLL_INTERVAL_MS: number
+  HH_SYNC_BATCH_SIZE: number
+  HH_SYNC_STALE_MS: number
 }
 
 // ============================================================================
 // Auto-Apply Queue Types
 // ============================================================================
 
+export type QueuedJobStatus =
+  | 'pending'
+  | 'customizing'
+  | 'ready'
+  | 'submitting'
+  | 'submitted'
+  | 'failed'
+  | 'rate_limited'
+  | 'paused'
+  | 'cancelled'
+
 export interface QueuedJob {
   id: string
   workflowId: string
@@ -432,11 +665,12 @@ export interface QueuedJob {
   cvId: string
   jobId: string
   jobExternalId: string
-  status: 'pending' | 'customizing' | 'ready' | 'submitting' | 'submitted' | 'failed' | 'rate_limited'
+  status: QueuedJobStatus
   priority: number
   attempts: number
   nextRunAt: string
   lastError?: string
+  reapply?: boolean // queued even though the user applied to or queued the job before
   createdAt: string
   updatedAt: string
   payload?: Record<string, any>
@@ -448,12 +682,54 @@ export interface QueuedJob {
   }
 }
 
+export type QueueSkipReason =
+  | 'not_found'
+  | 'already_applied' // the user applied to this vacancy, possibly under another job id
+  | 'already_queued' // an active item of the user's workflows holds this vacancy
+  | 'duplicate_vacancy' // the same vacancy as another job of the request
+
+/**
+ * A job addJobsToQueue left out
+ */
+export interface QueueSkip {
+  jobId: string
+  jobExternalId?: string
+  reason: QueueSkipReason
+  applicationId?: string // already_applied: the earlier application
+  queueItemId?: string // already_queued: the item holding the vacancy
+  workflowId?: string
+  duplicateOf?: string // duplicate_vacancy: the job of the request that was queued
+}
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year'
+
+/**
+ * A salary as parsed from a job's free-form salary text
+ */
+export interface ParsedSalary {
+  min: number | null
+  max: number | null
+  currency: string // ISO 4217, e.g. RUB, USD
+  gross: boolean | null // null when the text does not say
+  period: SalaryPeriod
+  // Per month in SALARY_BASE_CURRENCY; null when the currency has no rate
+  minBase: number | null
+  maxBase: number | null
+}
+
 export interface JobItem {
   id: string
   externalId: string
   title: string
   company?: string
-  salary?: string
+  salary?: string // as the job board shows it
+  salaryMin?: number
+  salaryMax?: number
+  salaryCurrency?: string
+  salaryGross?: boolean
+  salaryPeriod?: SalaryPeriod
+  salaryMinBase?: number // per month in SALARY_BASE_CURRENCY
+  salaryMaxBase?: number
   area?: string
   url?: string
   description?: string
@@ -462,8 +738,15 @@ export interface JobItem {
   hhVacancyId?: string
   hasTest?: boolean
   testRequired?: boolean
+  employerId?: string
+  publishedAt?: Date
+  fetchedAt?: Date
+  canonicalJobId?: string // set on duplicates: the canonical job of the same vacancy
 }
 
+// Why two jobs are the same vacancy (see job-dedup.service)
+export type DuplicateReason = 'employer_title' | 'company_title' | 'description'
+
 export interface ApplicationStatus {
   id: string
   jobTitle: string
@@ -482,12 +765,16 @@ export interface RateLimitStatus {
   applicationsToday: number
 }
 
+export type WorkflowState = 'idle' | 'running' | 'paused' | 'completed'
+
 export interface WorkflowProgress {
   workflowId: string
-  completed: number
+  completed: number // submitted, failed or cancelled
   total: number
   currentJob?: string
   estimatedCompletion?: string
+  state?: WorkflowState
+  counts?: Partial<Record<QueuedJobStatus, number>>
 }
 
 // ============================================================================
@@ -523,6 +810,31 @@ export interface MultiStageCustomizationResult {
   coverLetterVariations: string[]
 }
 
+export interface CustomizationDelta {
+  stage: 'customization' | 'optimization'
+  delta: string
+  // CV fields decoded from the partial model output received so far
+  partial: Partial<Pick<CustomizedCV, 'title' | 'summary' | 'experience'>>
+}
+
+export interface CustomCvFieldChange {
+  field: keyof CustomizedCV
+  type: 'added' | 'removed' | 'changed' | 'reordered'
+  before?: string
+  after?: string
+  // List fields (skills, keywords) report item-level changes instead of before/after
+  added?: string[]
+  removed?: string[]
+}
+
+export interface CustomCvVersionDiff {
+  from: { id: string; version: number; modelUsed: string | null }
+  to: { id: string; version: number; modelUsed: string | null }
+  changes: CustomCvFieldChange[]
+  coverLetterChanged: boolean
+  qualityScoreDelta?: number
+}
+
 export interface CoverLetterVariation {
   id: string
   style: 'professional' | 'enthusiastic' | 'technical' | 'creative' | 'concise'
@@ -614,3 +926,166 @@ export interface RealtimeAISuggestions {
   matchScore: number
   estimatedApplicationTime: string
 }
+
+// ============================================================================
+// Skill Taxonomy Types
+// ============================================================================
+
+/**
+ * Taxonomy categories; the keys used in JobSkills.categories
+ */
+export type SkillCategory =
+  | 'languages'
+  | 'frontend'
+  | 'backend'
+  | 'mobile'
+  | 'databases'
+  | 'devops'
+  | 'cloud'
+  | 'data'
+  | 'testing'
+  | 'tools'
+  | 'methodologies'
+  | 'spoken_languages'
+
+export interface SkillDefinition {
+  name: string // canonical spelling, e.g. "PostgreSQL"
+  category: SkillCategory
+  aliases?: string[] // other spellings, Russian names included
+  parents?: string[] // more general skills this one includes, by name
+}
+
+export interface SkillInfo {
+  id: string // lowercase canonical name
+  name: string
+  category: SkillCategory
+  aliases: string[]
+  parents: string[]
+  children: string[]
+}
+
+export interface SkillSuggestion {
+  name: string
+  category: SkillCategory
+  matched: string // the name or alias the query matched
+}
+
+
+// ============================================================================
+
+export type SeniorityLevel = 'intern' | 'junior' | 'middle' | 'senior' | 'lead'
+
+/**
+ * How a CV covers one skill of a job. Credit is 1 for the same skill (also
+ * under another name), partial for a more specific or a related skill, or a
+ * skill only mentioned in the CV text, and 0 when missing.
+ */
+export interface SkillMatch {
+  skill: string // as listed by the job
+  importance: 'required' | 'preferred'
+  kind: 'exact' | 'alias' | 'implied' | 'related' | 'mentioned' | 'missing'
+  credit: number // 0-1
+  matchedBy?: string // CV skill or phrase that matched
+}
+
+export interface SeniorityMatch {
+  score: number | null // 0-100, null without any signal
+  jobLevel: SeniorityLevel | null
+  cvLevel: SeniorityLevel | null
+  requiredYears: number | null
+  cvYears: number | null
+}
+
+/**
+ * Explainable CV-to-job match
+ */
+export interface MatchScore {
+  score: number // 0-100
+  skills: {
+    score: number | null // 0-100 weighted by importance, null if the job lists no skills
+    matches: SkillMatch[]
+  }
+  seniority: SeniorityMatch
+  reasons: string[]
+}
+
+/**
+ * Job as far as matching is concerned: key skills as listed (e.g. HH
+ * key_skills, counted as required) and/or skills extracted by the AI
+ */
+export interface MatchJobInput {
+  title: string
+  description?: string | null
+  skills?: string[] | null
+  jobSkills?: JobSkills
+}
+
+// ============================================================================
+// Offline Evaluation Types
+// ============================================================================
+
+/**
+ * Anonymized CV/job pair of the evaluation corpus
+ */
+export interface EvalCase {
+  id: string
+  description?: string
+  cv: ParsedCV
+  job: {
+    title: string
+    company: string
+    description: string
+  }
+  keywords: string[] // terms a good customization should cover
+}
+
+/**
+ * Scores of one case; metric names are `<feature>.<metric>`
+ */
+export interface EvalCaseResult {
+  id: string
+  metrics: Record<string, number>
+  error?: string
+}
+
+export interface EvalRun {
+  label: string
+  createdAt: string
+  provider: string
+  model: string
+  promptVersions: Partial<Record<PromptTemplateName, string>>
+  cases: EvalCaseResult[]
+  summary: Record<string, number> // mean of each metric over the cases
+}
+
+export interface EvalMetricDelta {
+  metric: string
+  base: number
+  candidate: number
+  delta: number
+  verdict: 'improved' | 'regressed' | 'unchanged'
+}
+
+export interface EvalComparison {
+  base: { label: string; createdAt: string; promptVersions: EvalRun['promptVersions'] }
+  candidate: { label: string; createdAt: string; promptVersions: EvalRun['promptVersions'] }
+  summary: EvalMetricDelta[]
+  cases: Array<{ id: string; regressions: EvalMetricDelta[] }>
+}
+
+// ============================================================================
+// Saved Search Types
+// ============================================================================
+
+/**
+ * What a saved search filters on; same meaning as in JobSearchRequest
+ */
+export type SavedSearchFilters = Pick<
+  JobSearchRequest,
+  'text' | 'area' | 'experience' | 'employment' | 'schedule' | 'salaryFrom' | 'salaryTo' | 'skills'
+>
+
+export interface SavedSearchInput extends Partial<SavedSearchFilters> {
+  name?: string // defaults to the search text
+  alertsEnabled?: boolean
+}
@@ -53,3 +53,21 @@ export function hashString(input: string): string {
     .update(input)
     .digest('hex')
 }
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ * Only use on tokens received directly from Core.
+ * @param token The JWT
+ * @returns The decoded claims, or null if the token is malformed
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const payload = token.split('.')[1]
+  if (!payload) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+    return claims && typeof claims === 'object' ? claims : null
+  } catch {
+    return null
+  }
+}
@@ -11,7 +11,7 @@ interface LogContext {
 }
 
 /**
- * Fields that contain PII and should be redacted
+ * Fields that contain PII or secrets and should be redacted
  */
 const PII_FIELDS = [
   'email',
@@ -30,7 +30,11 @@ const PII_FIELDS = [
   'lastName',
   'fullName',
   'ipAddress',
-  'userAgent'
+  'userAgent',
+  'secret',
+  'apiKey',
+  'authorization',
+  'cookie'
 ]
 
 /**
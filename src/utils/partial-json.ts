@@ -0,0 +1,60 @@
+/**
+ * Helpers for reading JSON that is still being streamed from a model
+ */
+
+/**
+ * Decode the body of a JSON string literal that may be cut off mid-escape
+ */
+function decodePartialString(raw: string): string {
+  // Drop an incomplete escape sequence at the end (e.g. `\` or `\u00`)
+  const trailingBackslashes = raw.match(/\\+$/)?.[0].length ?? 0
+  const safe = trailingBackslashes % 2 === 1
+    ? raw.slice(0, -1)
+    : raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '')
+
+  try {
+    return JSON.parse(`"${safe}"`)
+  } catch {
+    return safe
+  }
+}
+
+/**
+ * Extract top-level string fields from a possibly incomplete JSON object.
+ * Fields whose value has started streaming are returned with the text received so far.
+ *
+ * @param text Accumulated model output
+ * @param fields Field names to extract
+ * @returns Map of field name to (partial) string value
+ */
+export function extractPartialStringFields<K extends string>(
+  text: string,
+  fields: readonly K[]
+): Partial<Record<K, string>> {
+  const result: Partial<Record<K, string>> = {}
+
+  for (const field of fields) {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text)
+    if (!match) continue
+
+    const start = match.index + match[0].length
+    let end = start
+    let escaped = false
+
+    while (end < text.length) {
+      const char = text[end]
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === '"') {
+        break
+      }
+      end++
+    }
+
+    result[field] = decodePartialString(text.slice(start, end))
+  }
+
+  return result
+}
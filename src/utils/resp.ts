@@ -0,0 +1,261 @@
+/**
+ * Minimal client for the Redis serialization protocol (RESP2).
+ * Works with Redis, Valkey, KeyDB, Dragonfly and other compatible servers.
+ */
+
+import { connect, type Socket } from 'node:net'
+
+export type RespValue = string | number | null | RespError | RespValue[]
+
+/**
+ * Error reply sent by the server (e.g. `-ERR unknown command`)
+ */
+export class RespError extends Error {}
+
+export interface RespClientOptions {
+  connectTimeoutMs?: number
+  commandTimeoutMs?: number
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): string {
+  let out = `*${args.length}\r\n`
+  for (const arg of args) {
+    const value = String(arg)
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }
+  return out
+}
+
+/**
+ * Incremental RESP parser: feed it socket chunks, get back complete values
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+
+    const values: RespValue[] = []
+    let offset = 0
+    while (offset < this.buffer.length) {
+      const parsed = this.parse(offset)
+      if (!parsed) break
+      values.push(parsed.value)
+      offset = parsed.offset
+    }
+
+    this.buffer = this.buffer.subarray(offset)
+    return values
+  }
+
+  reset() {
+    this.buffer = Buffer.alloc(0)
+  }
+
+  /**
+   * Parse one value starting at offset
+   *
+   * @returns The value and the offset after it, or null when more data is needed
+   */
+  private parse(offset: number): { value: RespValue; offset: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(this.buffer[offset])
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd)
+    const next = lineEnd + 2
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next }
+      case '-':
+        return { value: new RespError(line), offset: next }
+      case ':':
+        return { value: Number(line), offset: next }
+      case '$': {
+        const length = Number(line)
+        if (length < 0) return { value: null, offset: next }
+        if (this.buffer.length < next + length + 2) return null
+        return { value: this.buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+      }
+      case '*': {
+        const count = Number(line)
+        if (count < 0) return { value: null, offset: next }
+        const items: RespValue[] = []
+        let position = next
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(position)
+          if (!item) return null
+          items.push(item.value)
+          position = item.offset
+        }
+        return { value: items, offset: position }
+      }
+      default:
+        throw new RespError(`Unexpected RESP type byte: ${type}`)
+    }
+  }
+}
+
+/**
+ * Pipelined RESP connection. Connects lazily and reconnects on the next
+ * command after the connection was lost.
+ */
+export class RespClient {
+  private socket: Socket | null = null
+  private connecting: Promise<Socket> | null = null
+  private pending: PendingCommand[] = []
+  private parser = new RespParser()
+  private url: URL
+
+  constructor(url: string, private options: RespClientOptions = {}) {
+    this.url = new URL(url)
+  }
+
+  /**
+   * Send a command and wait for its reply. Error replies reject with RespError.
+   */
+  async command(args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.connect()
+    return await this.send(socket, args)
+  }
+
+  /**
+   * Close the connection; pending commands are rejected
+   */
+  close() {
+    const socket = this.socket
+    this.socket = null
+    this.connecting = null
+    socket?.end()
+    this.failPending(new Error('Connection closed'))
+  }
+
+  private send(socket: Socket, args: Array<string | number>): Promise<RespValue> {
+    const timeoutMs = this.options.commandTimeoutMs ?? 2000
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost reply leaves the connection unusable
+        this.drop(socket, new Error(`Command timed out after ${timeoutMs}ms: ${args[0]}`))
+      }, timeoutMs)
+
+      this.pending.push({
+        resolve: (value) => { clearTimeout(timer); resolve(value) },
+        reject: (error) => { clearTimeout(timer); reject(error) }
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    const timeoutMs = this.options.connectTimeoutMs ?? 2000
+
+    this.connecting = new Promise<Socket>((resolve, reject) => {
+      const socket = connect({
+        host: this.url.hostname || 'localhost',
+        port: Number(this.url.port || 6379)
+      })
+
+      const timer = setTimeout(() => {
+        socket.destroy()
+        reject(new Error(`Connection to ${this.url.host} timed out after ${timeoutMs}ms`))
+      }, timeoutMs)
+
+      socket.once('error', (error) => {
+        clearTimeout(timer)
+        reject(error)
+      })
+
+      socket.once('connect', async () => {
+        clearTimeout(timer)
+        socket.setNoDelay(true)
+        socket.on('data', (chunk: Buffer) => this.onData(socket, chunk))
+        socket.on('error', (error) => this.drop(socket, error))
+        socket.on('close', () => this.drop(socket, new Error('Connection closed')))
+
+        try {
+          await this.handshake(socket)
+          this.socket = socket
+          resolve(socket)
+        } catch (error) {
+          socket.destroy()
+          reject(error)
+        }
+      })
+    }).finally(() => {
+      this.connecting = null
+    })
+
+    return this.connecting
+  }
+
+  /**
+   * Authenticate and select the database given in the URL
+   */
+  private async handshake(socket: Socket) {
+    const password = decodeURIComponent(this.url.password)
+    const username = decodeURIComponent(this.url.username)
+    if (password) {
+      await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+    }
+
+    const database = this.url.pathname.replace(/^\//, '')
+    if (database && database !== '0') {
+      await this.send(socket, ['SELECT', database])
+    }
+  }
+
+  private onData(socket: Socket, chunk: Buffer) {
+    let values: RespValue[]
+    try {
+      values = this.parser.push(chunk)
+    } catch (error) {
+      this.drop(socket, error as Error)
+      return
+    }
+
+    for (const value of values) {
+      const command = this.pending.shift()
+      if (!command) continue
+      if (value instanceof RespError) {
+        command.reject(value)
+      } else {
+        command.resolve(value)
+      }
+    }
+  }
+
+  /**
+   * Forget a broken connection so the next command reconnects
+   */
+  private drop(socket: Socket, error: Error) {
+    socket.destroy()
+
+    // Late events of an old connection must not fail commands of the current one
+    if (this.socket !== null && this.socket !== socket) return
+
+    this.socket = null
+    this.failPending(error)
+  }
+
+  private failPending(error: Error) {
+    const pending = this.pending
+    this.pending = []
+    this.parser.reset()
+    for (const command of pending) {
+      command.reject(error)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Validation of JSON returned by models against runtime schemas
+ */
+
+import type { z } from 'zod'
+
+/**
+ * Named schema of one kind of AI result; the name identifies it in metrics and logs
+ */
+export interface AISchema<T> {
+  name: string
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+}
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] }
+
+/**
+ * Model output that still failed its schema after the allowed repair attempts
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public schemaName: string,
+    public model: string,
+    public issues: string[]
+  ) {
+    super(`Model ${model} returned invalid ${schemaName}: ${issues.slice(0, 3).join('; ')}`)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+/**
+ * Cut the JSON object out of a model response: the text from the first `{`
+ * to the last `}`, ignoring markdown code fences and prose around it
+ */
+export function extractJSONObject(content: string): string | null {
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start === -1 || end <= start) return null
+  return content.slice(start, end + 1)
+}
+
+/**
+ * Parse a model response and validate it against a schema
+ */
+export function parseStructuredOutput<T>(content: string, { schema }: AISchema<T>): StructuredOutputResult<T> {
+  const json = extractJSONObject(content)
+  if (!json) {
+    return { success: false, issues: ['Response contains no JSON object'] }
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${(error as Error).message}`] }
+  }
+
+  const result = schema.safeParse(value)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+  }
+}
+
+/**
+ * Follow-up prompt asking the model to fix its previous (invalid) answer
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `
+Your previous response could not be used. It must be a single valid JSON object with exactly the structure requested, but it had these problems:
+${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}
+
+Return ONLY the corrected JSON object. Keep the content of your previous answer; change only what is needed to fix the problems above. No markdown, no explanation.
+`
+}
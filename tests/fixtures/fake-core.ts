@@ -0,0 +1,211 @@
+/**
+ * In-process fake of the Phoenix Core endpoints this API calls, for
+ * integration tests.
+ *
+ * Runs a real HTTP server on a free port. State (jobs, resumes, submissions)
+ * lives in plain fields tests can seed and inspect, every request is kept in
+ * `requests`, and `failNext` queues error responses for a route to exercise
+ * retries and error handling. Like Core, it rejects requests without the
+ * orchestrator secret and HH calls without a bearer token.
+ */
+
+export interface FakeCoreRequest {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string>
+  body?: any
+}
+
+export interface FakeCoreOptions {
+  secret: string // expected X-Core-Secret (ORCHESTRATOR_SECRET)
+  port?: number
+}
+
+type Handler = (request: FakeCoreRequest, params: string[]) => Response | Promise<Response>
+
+/**
+ * Unsigned JWT with the given claims; this API only decodes Core tokens
+ */
+export function fakeJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.fake-signature`
+}
+
+export class FakeCore {
+  jobs: Array<Record<string, any>> = []
+  resumes: Array<Record<string, any>> = []
+  submissions: Array<{ jobExternalId: string, cv: Record<string, any>, coverLetter: string, token: string }> = []
+  workflows: Array<{ action: 'batch-customize' | 'start-workflow', workflowId: string, userId: string }> = []
+  rateLimit: Record<string, any> = { remaining: 200, limit: 200, reset_at: null }
+  readonly requests: FakeCoreRequest[] = []
+
+  private server: ReturnType<typeof Bun.serve> | null = null
+  private failures = new Map<string, Array<{ status: number, body: unknown }>>()
+  private negotiationSeq = 0
+
+  private routes: Array<{ method: string, pattern: RegExp, handler: Handler }> = [
+    { method: 'GET', pattern: /^\/auth\/hh\/redirect$/, handler: () => this.json({ url: 'https://hh.ru/oauth/authorize?client_id=fake' }) },
+    { method: 'GET', pattern: /^\/auth\/hh\/callback$/, handler: req => this.callback(req) },
+    { method: 'GET', pattern: /^\/api\/hh\/status$/, handler: req => this.withToken(req, () => this.json({ connected: true })) },
+    { method: 'GET', pattern: /^\/api\/hh\/resumes$/, handler: req => this.withToken(req, () => this.json({ success: true, resumes: this.resumes })) },
+    { method: 'GET', pattern: /^\/api\/hh\/resumes\/([^/]+)$/, handler: (req, [id]) => this.withToken(req, () => this.resume(id)) },
+    { method: 'POST', pattern: /^\/api\/jobs\/search$/, handler: req => this.search(req) },
+    { method: 'GET', pattern: /^\/api\/jobs\/([^/]+)$/, handler: (_req, [id]) => this.job(id) },
+    { method: 'POST', pattern: /^\/api\/applications\/submit$/, handler: req => this.withToken(req, token => this.submit(req, token)) },
+    { method: 'POST', pattern: /^\/api\/queue\/(batch-customize|start-workflow)$/, handler: (req, [action]) => this.queue(req, action as 'batch-customize' | 'start-workflow') },
+    { method: 'GET', pattern: /^\/api\/rate-limit\/status$/, handler: () => this.json(this.rateLimit) }
+  ]
+
+  constructor(private options: FakeCoreOptions) {}
+
+  get url(): string {
+    if (!this.server) throw new Error('FakeCore is not running')
+    return `http://localhost:${this.server.port}`
+  }
+
+  start(): this {
+    this.server = Bun.serve({ port: this.options.port ?? 0, fetch: request => this.handle(request) })
+    return this
+  }
+
+  async stop() {
+    await this.server?.stop(true)
+    this.server = null
+  }
+
+  /**
+   * Drop recorded requests, queued failures and everything tests seeded
+   */
+  reset() {
+    this.jobs = []
+    this.resumes = []
+    this.submissions = []
+    this.workflows = []
+    this.rateLimit = { remaining: 200, limit: 200, reset_at: null }
+    this.requests.length = 0
+    this.failures.clear()
+    this.negotiationSeq = 0
+  }
+
+  /**
+   * Answer the next `times` requests to `method path` with an error
+   */
+  failNext(method: string, path: string, status: number, { times = 1, body = { error: 'Fake Core failure' } as unknown } = {}): this {
+    const key = `${method.toUpperCase()} ${path}`
+    const queue = this.failures.get(key) ?? []
+    for (let i = 0; i < times; i++) queue.push({ status, body })
+    this.failures.set(key, queue)
+    return this
+  }
+
+  /**
+   * Requests received for a path, oldest first
+   */
+  requestsTo(path: string): FakeCoreRequest[] {
+    return this.requests.filter(request => request.path === path)
+  }
+
+  private async handle(raw: Request): Promise<Response> {
+    const url = new URL(raw.url)
+    const text = await raw.text()
+    let body: any
+    try {
+      body = text ? JSON.parse(text) : undefined
+    } catch {
+      body = text
+    }
+
+    const request: FakeCoreRequest = {
+      method: raw.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(raw.headers),
+      body
+    }
+    this.requests.push(request)
+
+    const failure = this.failures.get(`${request.method} ${request.path}`)?.shift()
+    if (failure) return this.json(failure.body, failure.status)
+
+    if (request.headers['x-core-secret'] !== this.options.secret) {
+      return this.json({ error: 'invalid_core_secret' }, 401)
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method && route.pattern.exec(request.path)
+      if (match) return await route.handler(request, match.slice(1))
+    }
+    return this.json({ error: 'not_found' }, 404)
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return Response.json(body, { status })
+  }
+
+  private withToken(request: FakeCoreRequest, handler: (token: string) => Response): Response {
+    const token = request.headers.authorization?.replace(/^Bearer /, '')
+    if (!token) return this.json({ success: false, error: 'unauthorized' }, 401)
+    return handler(token)
+  }
+
+  /**
+   * The code stands in for an HH account: the same code logs in the same user,
+   * a code starting with `denied` is rejected like a revoked grant and one
+   * starting with `anonymous` gets a JWT without a subject
+   */
+  private callback(request: FakeCoreRequest): Response {
+    const { code, session_id: sessionId } = request.query
+    if (!code || !sessionId) return this.json({ success: false, error: 'missing_params' }, 400)
+    if (code.startsWith('denied')) return this.json({ success: false, error: 'access_denied' }, 401)
+
+    const now = Math.floor(Date.now() / 1000)
+    const subject = code.startsWith('anonymous') ? {} : { sub: `hh-${code}` }
+    return this.json({ success: true, jwt: fakeJwt({ ...subject, sid: sessionId, iat: now, exp: now + 7 * 24 * 3600 }) })
+  }
+
+  private resume(id: string): Response {
+    const resume = this.resumes.find(r => r.id === id)
+    return resume
+      ? this.json({ success: true, resume })
+      : this.json({ success: false, error: 'resume_not_found' }, 404)
+  }
+
+  private search(request: FakeCoreRequest): Response {
+    const text = String(request.body?.text ?? '').toLowerCase()
+    const jobs = this.jobs.filter(job => !text || `${job.title} ${job.description ?? ''}`.toLowerCase().includes(text))
+    return this.json({ jobs })
+  }
+
+  private job(id: string): Response {
+    const job = this.jobs.find(j => j.id === id || j.hh_vacancy_id === id)
+    return job ? this.json({ job }) : this.json({ error: 'job_not_found' }, 404)
+  }
+
+  private submit(request: FakeCoreRequest, token: string): Response {
+    const { job_external_id: jobExternalId, customized_cv: cv, cover_letter: coverLetter } = request.body ?? {}
+    if (!jobExternalId || !cv || !coverLetter) {
+      return this.json({ error: ':bad_arguments', details: { description: 'job_external_id, customized_cv and cover_letter are required' } }, 422)
+    }
+
+    this.submissions.push({ jobExternalId, cv, coverLetter, token })
+    return this.json({
+      success: true,
+      negotiation_id: `neg-${++this.negotiationSeq}`,
+      resume_id: cv.hh_resume_id ?? 'resume-1',
+      status: 'response'
+    })
+  }
+
+  private queue(request: FakeCoreRequest, action: 'batch-customize' | 'start-workflow'): Response {
+    const { workflowId, userId } = request.body ?? {}
+    if (!workflowId || !userId) return this.json({ error: 'workflowId and userId are required' }, 400)
+
+    this.workflows.push({ action, workflowId, userId })
+    return this.json({
+      success: true,
+      workflowId,
+      ...(action === 'start-workflow' ? { estimatedCompletion: new Date(Date.now() + 10 * 60 * 1000).toISOString() } : {})
+    })
+  }
+}
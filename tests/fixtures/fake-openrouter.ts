@@ -0,0 +1,131 @@
+/**
+ * In-process fake of the OpenRouter chat completions API, for integration
+ * tests. Point OPENROUTER_BASE_URL at `url`.
+ *
+ * Answers come from a FakeLLMProvider, so prompts asking for JSON get the
+ * shape they describe; register responders on `llm` for specific answers.
+ * Streaming requests get the answer as server-sent events. Every request is
+ * kept in `requests`.
+ */
+
+import type { FakeLLMProvider } from '../../src/services/llm.provider'
+import type { LLMChatRequest } from '../../src/types'
+
+export interface FakeOpenRouterRequest {
+  title?: string
+  apiKey?: string
+  body: any
+}
+
+export class FakeOpenRouter {
+  readonly requests: FakeOpenRouterRequest[] = []
+
+  private server: ReturnType<typeof Bun.serve> | null = null
+  private provider: FakeLLMProvider | null = null
+  private failures: number[] = []
+
+  constructor(private options: { apiKey: string, port?: number }) {}
+
+  /**
+   * Base URL including the `/api/v1` prefix of the real API
+   */
+  get url(): string {
+    if (!this.server) throw new Error('FakeOpenRouter is not running')
+    return `http://localhost:${this.server.port}/api/v1`
+  }
+
+  get llm(): FakeLLMProvider {
+    // Loaded on first use: src/ modules read the environment when imported,
+    // and the fake has to be listening before it can be configured
+    const { FakeLLMProvider } = require('../../src/services/llm.provider') as typeof import('../../src/services/llm.provider')
+    return this.provider ??= new FakeLLMProvider()
+  }
+
+  start(): this {
+    this.server = Bun.serve({ port: this.options.port ?? 0, fetch: request => this.handle(request) })
+    return this
+  }
+
+  async stop() {
+    await this.server?.stop(true)
+    this.server = null
+  }
+
+  reset() {
+    this.provider = null
+    this.requests.length = 0
+    this.failures = []
+  }
+
+  /**
+   * Answer the next `times` completions with an error status
+   */
+  failNext(status: number, times = 1): this {
+    for (let i = 0; i < times; i++) this.failures.push(status)
+    return this
+  }
+
+  /**
+   * Requests whose X-Title (the AI feature) matches
+   */
+  requestsTitled(title: string): FakeOpenRouterRequest[] {
+    return this.requests.filter(request => request.title === title)
+  }
+
+  private async handle(raw: Request): Promise<Response> {
+    const { pathname } = new URL(raw.url)
+    const apiKey = raw.headers.get('authorization')?.replace(/^Bearer /, '')
+
+    if (apiKey !== this.options.apiKey) {
+      return Response.json({ error: { code: 401, message: 'No auth credentials found' } }, { status: 401 })
+    }
+
+    if (raw.method === 'GET' && pathname === '/api/v1/models') {
+      const [model] = await this.llm.listModels()
+      return Response.json({ data: [{ id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet' }, { ...model, id: 'openai/gpt-4o-mini' }] })
+    }
+
+    if (raw.method !== 'POST' || pathname !== '/api/v1/chat/completions') {
+      return Response.json({ error: { code: 404, message: 'Not found' } }, { status: 404 })
+    }
+
+    const body = await raw.json()
+    this.requests.push({ title: raw.headers.get('x-title') ?? undefined, apiKey, body })
+
+    const failure = this.failures.shift()
+    if (failure) {
+      return Response.json({ error: { code: failure, message: 'Fake OpenRouter failure' } }, { status: failure })
+    }
+
+    const request: LLMChatRequest = {
+      model: body.model,
+      messages: body.messages,
+      temperature: body.temperature,
+      maxTokens: body.max_tokens,
+      title: raw.headers.get('x-title') ?? undefined
+    }
+    const { content, model, usage } = await this.llm.chat(request)
+    const openAIUsage = usage && {
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      total_tokens: usage.totalTokens
+    }
+
+    if (!body.stream) {
+      return Response.json({
+        id: `gen-${this.requests.length}`,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: openAIUsage
+      })
+    }
+
+    const events: string[] = [': OPENROUTER PROCESSING']
+    for (let i = 0; i < content.length; i += 16) {
+      events.push(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content: content.slice(i, i + 16) } }] })}`)
+    }
+    events.push(`data: ${JSON.stringify({ model, choices: [], usage: openAIUsage })}`, 'data: [DONE]')
+
+    return new Response(events.join('\n\n') + '\n\n', { headers: { 'content-type': 'text/event-stream' } })
+  }
+}
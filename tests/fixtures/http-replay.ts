@@ -0,0 +1,192 @@
+/**
+ * Record-and-replay of HTTP traffic (OpenRouter, Core) for tests.
+ *
+ * In replay mode (default) `fetch` answers from a fixture file and fails on
+ * requests it has no fixture for. With HTTP_FIXTURES=record requests go to the
+ * real services and their responses are written to the fixture file.
+ *
+ * Requests are matched on method, path, sorted query and JSON body (sorted
+ * keys, ignoreFields left out), not on host or headers, so fixtures
+ * recorded against one Core instance replay against any CORE_URL. Bodies and
+ * queries are scrubbed with the logger's redactObject before they are stored
+ * or matched; responses are scrubbed before they are stored. Headers are never
+ * stored, apart from a few harmless response headers.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { redactObject, redactValue } from '../../src/utils/logger'
+
+export interface HttpFixtureRequest {
+  method: string
+  path: string
+  query?: Record<string, string>
+  body?: unknown
+}
+
+export interface HttpFixtureResponse {
+  status: number
+  headers?: Record<string, string>
+  body?: unknown // parsed JSON, or text for anything else (e.g. event streams)
+}
+
+export interface HttpFixture {
+  request: HttpFixtureRequest
+  response: HttpFixtureResponse
+}
+
+export interface HttpReplayOptions {
+  mode?: 'replay' | 'record'
+  ignoreFields?: string[] // body fields left out of matching, e.g. timestamps or request ids
+  upstream?: typeof fetch // where recorded requests go; the real fetch by default
+}
+
+// Response headers worth keeping; the rest (dates, cookies, tracing) only add noise
+const KEPT_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-remaining']
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Keep numbers and booleans of the original: redactObject matches field names
+ * by substring, so counters like `max_tokens` would otherwise be redacted too
+ */
+function keepScalars(original: unknown, redacted: unknown): unknown {
+  if (typeof original === 'number' || typeof original === 'boolean') return original
+  if (Array.isArray(original) && Array.isArray(redacted)) {
+    return original.map((item, i) => keepScalars(item, redacted[i]))
+  }
+  if (original && typeof original === 'object' && redacted && typeof redacted === 'object') {
+    return Object.fromEntries(Object.entries(redacted).map(([key, value]) =>
+      [key, keepScalars((original as Record<string, unknown>)[key], value)]
+    ))
+  }
+  return redacted
+}
+
+function scrub(value: unknown): unknown {
+  const redacted = value && typeof value === 'object' && !Array.isArray(value) ? redactObject(value) : redactValue(value)
+  return keepScalars(value, redacted)
+}
+
+export class HttpReplay {
+  private fixtures: HttpFixture[]
+  private served = new Map<string, number>()
+  private original: typeof fetch | null = null
+  readonly mode: 'replay' | 'record'
+
+  constructor(private file: string, private options: HttpReplayOptions = {}) {
+    this.mode = options.mode ?? (process.env.HTTP_FIXTURES === 'record' ? 'record' : 'replay')
+    // A recording session starts from scratch so stale fixtures do not linger
+    this.fixtures = this.mode === 'replay' && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : []
+  }
+
+  /**
+   * Route the global fetch through this replay until restore()
+   */
+  install(): this {
+    this.original = globalThis.fetch
+    globalThis.fetch = Object.assign(
+      (input: string | URL | Request, init?: RequestInit) => this.fetch(input, init),
+      { preconnect: this.original.preconnect }
+    )
+    return this
+  }
+
+  restore() {
+    if (this.original) globalThis.fetch = this.original
+    this.original = null
+  }
+
+  /**
+   * Scrubbed, normalized form of a request, as stored in fixtures
+   */
+  normalize(method: string, url: string, body?: string): HttpFixtureRequest {
+    const { pathname, searchParams } = new URL(url)
+    const query = Object.fromEntries([...searchParams.entries()].sort(([a], [b]) => a.localeCompare(b)))
+
+    const parsed = parseBody(body ?? '')
+
+    return {
+      method: method.toUpperCase(),
+      path: pathname,
+      ...(searchParams.size > 0 ? { query: scrub(query) as Record<string, string> } : {}),
+      ...(parsed !== undefined ? { body: sortKeys(scrub(parsed)) } : {})
+    }
+  }
+
+  private key({ body, ...request }: HttpFixtureRequest): string {
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      const ignored = new Set(this.options.ignoreFields ?? [])
+      body = Object.fromEntries(Object.entries(body).filter(([field]) => !ignored.has(field)))
+    }
+    return JSON.stringify(sortKeys({ ...request, body }))
+  }
+
+  async fetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const url = input instanceof Request ? input.url : String(input)
+    const method = init?.method ?? (input instanceof Request ? input.method : 'GET')
+    const body = typeof init?.body === 'string' ? init.body : undefined
+    const request = this.normalize(method, url, body)
+
+    if (this.mode === 'record') {
+      return this.record(request, input, init)
+    }
+
+    // Identical requests get their recorded responses in order; the last one repeats
+    const key = this.key(request)
+    const matches = this.fixtures.filter(fixture => this.key(fixture.request) === key)
+    if (matches.length === 0) {
+      throw new Error(`No HTTP fixture for ${request.method} ${request.path} in ${this.file}; record it with HTTP_FIXTURES=record`)
+    }
+
+    const index = this.served.get(key) ?? 0
+    this.served.set(key, index + 1)
+    return this.toResponse(matches[Math.min(index, matches.length - 1)].response)
+  }
+
+  private async record(request: HttpFixtureRequest, input: string | URL | Request, init?: RequestInit) {
+    const upstream = this.options.upstream ?? this.original ?? globalThis.fetch
+    const response = await upstream(input, init)
+    const text = await response.text()
+
+    const headers = Object.fromEntries(
+      KEPT_HEADERS.flatMap(name => response.headers.has(name) ? [[name, response.headers.get(name)!]] : [])
+    )
+    const fixture: HttpFixture = {
+      request,
+      response: { status: response.status, headers, body: scrub(parseBody(text)) }
+    }
+
+    this.fixtures.push(fixture)
+    mkdirSync(dirname(this.file), { recursive: true })
+    writeFileSync(this.file, JSON.stringify(this.fixtures, null, 2) + '\n')
+
+    // The caller gets the live response, not the scrubbed one
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers })
+  }
+
+  private toResponse({ status, headers = {}, body }: HttpFixtureResponse): Response {
+    const text = body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body)
+    return new Response(text, {
+      status,
+      headers: { 'content-type': typeof body === 'string' ? 'text/plain' : 'application/json', ...headers }
+    })
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { stack, api, login } from './stack'
+
+describe.skipIf(!stack.ready)('Auth (integration)', () => {
+  beforeEach(() => stack.core.reset())
+
+  it('should create a session from the HH OAuth callback', async () => {
+    const response = await api('/api/auth/hh/callback?code=alice')
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toEndWith('/upload?hh_connected=true')
+    expect(response.headers.get('set-cookie')).toContain('hh_session=')
+
+    const [callback] = stack.core.requestsTo('/auth/hh/callback')
+    expect(callback.query.code).toBe('alice')
+    expect(callback.query.session_id).toBeString()
+  })
+
+  it('should resolve the same HH account to the same user', async () => {
+    for (const cookie of [await login('bob'), await login('bob')]) {
+      await api('/api/rate-limit/status', { cookie })
+    }
+
+    const [first, second] = stack.core.requestsTo('/api/rate-limit/status')
+    expect(first.query.user_id).toBe(second.query.user_id)
+  })
+
+  it('should link concurrent first requests of a session without an HH identity to one user', async () => {
+    const { db } = await import('../../src/db/client')
+    const { sessions } = await import('../../src/db/schema')
+    const { extractSessionCookie, validateSession } = await import('../../src/middleware/session')
+    const { eq } = await import('drizzle-orm')
+
+    // A session from before users were tracked: not linked yet
+    const cookie = await login(`anonymous-${crypto.randomUUID()}`)
+    const validation = await validateSession(extractSessionCookie(cookie))
+    if (!validation.valid) throw new Error('Invalid session cookie')
+    await db.update(sessions).set({ userId: null }).where(eq(sessions.sessionId, validation.session.id))
+
+    await Promise.all(Array.from({ length: 5 }, () => api('/api/rate-limit/status', { cookie })))
+
+    const userIds = new Set(stack.core.requestsTo('/api/rate-limit/status').map(request => request.query.user_id))
+    expect(userIds.size).toBe(1)
+  })
+
+  it('should redirect with an error when Core rejects the code', async () => {
+    const response = await api('/api/auth/hh/callback?code=denied')
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toEndWith('/upload?error=unauthorized')
+    expect(response.headers.get('set-cookie')).toContain('Max-Age=0')
+  })
+
+  it('should proxy HH resumes with the session token', async () => {
+    stack.core.resumes = [{ id: 'resume-1', title: 'Frontend Developer' }]
+    const cookie = await login()
+
+    const response = await api('/api/hh/resumes', { cookie })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).resumes).toEqual(stack.core.resumes)
+    expect(stack.core.requestsTo('/api/hh/resumes')[0].headers.authorization).toStartWith('Bearer ')
+  })
+
+  it('should reject protected routes without a session', async () => {
+    const response = await api('/api/cv')
+
+    expect(response.status).toBe(401)
+    expect(stack.core.requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { stack, api, login, userIdOf } from './stack'
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const parsedCV = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane.doe@example.com',
+  phone: '+7 999 123-45-67',
+  title: 'Senior Frontend Developer',
+  summary: 'Frontend developer with 6 years of experience building React and TypeScript applications.',
+  experience: 'Acme Fintech (2019-2025): payments dashboard in React, TypeScript and GraphQL',
+  education: 'Moscow State University, Applied Mathematics, 2018',
+  skills: ['React', 'TypeScript', 'GraphQL', 'Jest', 'CSS']
+}
+
+const jobDescription = 'We are hiring a Senior Frontend Engineer to build our trading platform. ' +
+  'You will own React and TypeScript applications, write tests with Jest and work closely with designers. ' +
+  'Experience with GraphQL, performance profiling and design systems is a plus.'
+
+function uploadForm() {
+  const form = new FormData()
+  form.append('file', new File([readFileSync(join(import.meta.dir, '../fixtures/sample_cv.docx'))], 'sample_cv.docx', { type: DOCX_TYPE }))
+  return form
+}
+
+describe.skipIf(!stack.ready)('CV flow (integration)', () => {
+  let cookie: string
+
+  beforeAll(async () => {
+    cookie = await login()
+  })
+
+  beforeEach(() => {
+    stack.core.reset()
+    stack.openRouter.reset()
+    stack.openRouter.llm.use(request => request.title === 'UllGetTheJob CV Parser' ? JSON.stringify(parsedCV) : undefined)
+  })
+
+  it('should upload, parse and store a CV', async () => {
+    const response = await api('/api/cv/upload', { method: 'POST', body: uploadForm(), cookie })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.cv).toMatchObject({ firstName: 'Jane', skills: parsedCV.skills, promptVersion: 'v1' })
+    expect(body.cv.fullText).toContain('Acme Fintech')
+
+    const [request] = stack.openRouter.requestsTitled('UllGetTheJob CV Parser')
+    expect(request.body.messages[0].content).toContain('Acme Fintech')
+
+    const stored = await (await api(`/api/cv/${body.id}`, { cookie })).json()
+    expect(stored.cv).toMatchObject({ id: body.id, firstName: 'Jane' })
+  })
+
+  it('should customize a CV and submit the application to Core', async () => {
+    const customized = await api('/api/cv/customize', {
+      method: 'POST',
+      body: JSON.stringify({ cv: parsedCV, jobDescription }),
+      cookie
+    })
+    const { customizedCV, coverLetter } = await customized.json()
+
+    expect(customized.status).toBe(200)
+    expect(coverLetter).toBeString()
+    expect(stack.openRouter.requests.length).toBeGreaterThanOrEqual(3) // skills, CV, cover letter
+
+    const submitted = await api('/api/application/submit', {
+      method: 'POST',
+      body: JSON.stringify({ jobExternalId: '98765432', customizedCV: { ...customizedCV, ...parsedCV }, coverLetter }),
+      cookie
+    })
+    const result = await submitted.json()
+
+    expect(submitted.status).toBe(200)
+    expect(result.result.negotiation_id).toBe('neg-1')
+    expect(stack.core.submissions).toHaveLength(1)
+    expect(stack.core.submissions[0]).toMatchObject({ jobExternalId: '98765432', cv: { phone: '+79991234567' } })
+
+    const { applications } = await (await api('/api/application', { cookie })).json()
+    expect(applications.find((a: any) => a.id === result.applicationId)).toMatchObject({ hhNegotiationId: 'neg-1' })
+  })
+
+  it('should tag streamed customization messages with the stream id of the client', async () => {
+    const { realtime } = await import('../../src/services/realtime.service')
+    const messages: any[] = []
+    const socket = { send: (data: string) => messages.push(JSON.parse(data)) }
+    realtime.registerClient('e2e-cv-stream', socket, await userIdOf(cookie))
+    try {
+      const response = await api('/api/cv/customize', {
+        method: 'POST',
+        body: JSON.stringify({ cv: parsedCV, jobDescription, stream: true, streamId: 'e2e-stream-1' }),
+        cookie
+      })
+      expect((await response.json()).streamId).toBe('e2e-stream-1')
+    } finally {
+      realtime.unregisterBySocket(socket)
+    }
+
+    const streamed = messages.filter(message => message.type.startsWith('customization_'))
+    expect(new Set(streamed.map(message => message.type))).toEqual(new Set(['customization_delta', 'customization_complete']))
+    expect(streamed.every(message => message.streamId === 'e2e-stream-1')).toBe(true)
+  })
+
+  it('should surface a Core rejection of the submission', async () => {
+    stack.core.failNext('POST', '/api/applications/submit', 422, { body: { error: ':missing_phone' } })
+
+    const response = await api('/api/application/submit', {
+      method: 'POST',
+      body: JSON.stringify({ jobExternalId: '11111111', customizedCV: parsedCV, coverLetter: 'Hello' }),
+      cookie
+    })
+
+    expect(response.status).toBe(422)
+    expect((await response.json()).error).toContain('missing a phone number')
+  })
+
+  it('should not record submissions with invalid contact details', async () => {
+    const before = (await (await api('/api/application', { cookie })).json()).applications.length
+
+    const response = await api('/api/application/submit', {
+      method: 'POST',
+      body: JSON.stringify({ jobExternalId: '22222222', customizedCV: { ...parsedCV, email: 'not-an-email' }, coverLetter: 'Hello' }),
+      cookie
+    })
+
+    expect(response.status).toBe(400)
+    expect(stack.core.submissions).toHaveLength(0)
+    expect((await (await api('/api/application', { cookie })).json()).applications).toHaveLength(before)
+  })
+
+  it('should refuse a multi-stage customization for an unknown job before calling the model', async () => {
+    const { id: cvId } = await (await api('/api/cv/upload', { method: 'POST', body: uploadForm(), cookie })).json()
+    stack.openRouter.reset()
+
+    const response = await api('/api/ai/cv/customize-multistage', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobDescription, companyInfo: 'Acme', jobId: crypto.randomUUID() }),
+      cookie
+    })
+
+    expect(response.status).toBe(404)
+    expect(stack.openRouter.requests).toHaveLength(0)
+  })
+
+  it('should list only the applications of the user when filtering by status', async () => {
+    const other = await login()
+    const submitted = async (session: string) =>
+      (await (await api('/api/application?status=submitted', { cookie: session })).json()).applications
+
+    expect((await submitted(cookie)).length).toBeGreaterThan(0)
+    expect(await submitted(other)).toEqual([])
+  })
+
+  it('should retry the job search when Core is unavailable', async () => {
+    // Other suites share the job store, so search for words only this test uses
+    stack.core.jobs = [{ id: 'job-1', hh_vacancy_id: '98765432', title: 'Svelte Developer' }]
+    stack.core.failNext('POST', '/api/jobs/search', 503)
+
+    const response = await api('/api/jobs/search', { method: 'POST', body: JSON.stringify({ text: 'svelte' }) })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).jobs).toMatchObject([{ externalId: '98765432', hhVacancyId: '98765432', title: 'Svelte Developer' }])
+    expect(stack.core.requestsTo('/api/jobs/search')).toHaveLength(2)
+  })
+
+  it('should fall back to basic extraction when the model is unavailable', async () => {
+    stack.openRouter.failNext(503)
+
+    const response = await api('/api/cv/upload', { method: 'POST', body: uploadForm(), cookie })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).cv).toMatchObject({ email: 'jane.doe@example.com' })
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { stack, api } from './stack'
+
+// A failed Core search is retried 3 times, 7s of backoff, before the store answers alone
+const CORE_SEARCH_ATTEMPTS = 4
+const CORE_SEARCH_RETRY_TIMEOUT_MS = 15000
+
+// Searches are cached per text, so every test searches for its own words
+function search(body: Record<string, unknown>) {
+  return api('/api/jobs/search', { method: 'POST', body: JSON.stringify(body) })
+}
+
+describe.skipIf(!stack.ready)('Job store (integration)', () => {
+  beforeEach(() => stack.core.reset())
+
+  it('should store jobs from Core and answer a repeated search locally', async () => {
+    stack.core.jobs = [
+      { id: '1001', hh_vacancy_id: '1001', title: 'Kotlin Developer', company: 'Acme', skills: ['kotlin', 'Spring Boot'] }
+    ]
+
+    const first = await (await search({ text: 'kotlin' })).json()
+    const second = await (await search({ text: 'kotlin' })).json()
+
+    expect(first.jobs).toMatchObject([{ externalId: '1001', title: 'Kotlin Developer', skills: ['Kotlin', 'Spring'] }])
+    expect(second.jobs).toEqual(first.jobs)
+    expect(stack.core.requestsTo('/api/jobs/search')).toHaveLength(1)
+  })
+
+  it('should match Russian and English word forms', async () => {
+    stack.core.jobs = [
+      { id: '1002', title: 'Разработчик мобильных приложений', description: 'Разрабатываем приложения для банков. Testing frameworks experience.' }
+    ]
+    await search({ text: 'мобильных' })
+
+    const russian = await (await search({ text: 'мобильное приложение' })).json()
+    const english = await (await search({ text: 'framework tested' })).json()
+
+    expect(russian.jobs.map((job: any) => job.externalId)).toContain('1002')
+    expect(english.jobs.map((job: any) => job.externalId)).toContain('1002')
+  })
+
+  it('should filter by skills, salary, test and freshness', async () => {
+    const old = new Date(Date.now() - 30 * 86400000).toISOString()
+    stack.core.jobs = [
+      { id: '2001', title: 'Elixir Engineer', skills: ['Elixir', 'PostgreSQL'], salary: '300000 RUB', has_test: false },
+      { id: '2002', title: 'Elixir Engineer', skills: ['Elixir'], has_test: true },
+      { id: '2003', title: 'Elixir Engineer', skills: ['Elixir', 'postgres'], salary: '250000 RUB', published_at: old }
+    ]
+    const ids = async (filters: Record<string, unknown>) =>
+      (await (await search({ text: 'elixir', ...filters })).json()).jobs.map((job: any) => job.externalId).sort()
+
+    expect(await ids({ skills: ['Postgres'] })).toEqual(['2001', '2003'])
+    expect(await ids({ onlyWithSalary: true })).toEqual(['2001', '2003'])
+    expect(await ids({ hasTest: true })).toEqual(['2002'])
+    expect(await ids({ publishedWithinDays: 7 })).toEqual(['2001', '2002'])
+    expect(stack.core.requestsTo('/api/jobs/search')).toHaveLength(1)
+  })
+
+  it('should filter and sort by parsed salary', async () => {
+    stack.core.jobs = [
+      { id: '2101', title: 'Clojure Developer', salary: 'от 200 000 до 300 000 руб.' },
+      { id: '2102', title: 'Clojure Developer', salary: 'до 150 000 ₽ на руки' },
+      { id: '2103', title: 'Clojure Developer', salary: { from: 400000, to: null, currency: 'RUR', gross: true } },
+      { id: '2104', title: 'Clojure Developer', salary: 'по договорённости' }
+    ]
+    const ids = async (filters: Record<string, unknown>) =>
+      (await (await search({ text: 'clojure', ...filters })).json()).jobs.map((job: any) => job.externalId)
+
+    expect((await ids({ salaryFrom: 250000 })).sort()).toEqual(['2101', '2103'])
+    expect((await ids({ salaryTo: 250000 })).sort()).toEqual(['2101', '2102'])
+    expect(await ids({ sort: 'salary' })).toEqual(['2103', '2101', '2102', '2104'])
+
+    const [job] = (await (await search({ text: 'clojure', salaryFrom: 350000 })).json()).jobs
+    expect(job).toMatchObject({ salary: 'от 400000 RUB gross', salaryMin: 400000, salaryMax: null, salaryCurrency: 'RUB', salaryGross: true })
+  })
+
+  it('should answer from stored jobs when Core fails', async () => {
+    stack.core.jobs = [{ id: '3001', title: 'Haskell Developer' }]
+    await search({ text: 'haskell' })
+    stack.core.failNext('POST', '/api/jobs/search', 500, { times: CORE_SEARCH_ATTEMPTS })
+
+    const response = await search({ text: 'Haskell Developer' })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ stale: true, jobs: [{ externalId: '3001' }] })
+  }, CORE_SEARCH_RETRY_TIMEOUT_MS)
+
+  it('should fetch job details from Core once and keep them', async () => {
+    stack.core.jobs = [{ id: '4001', hh_vacancy_id: '4001', title: 'Scala Developer', description: 'Full description' }]
+
+    const first = await (await api('/api/jobs/4001')).json()
+    const byId = await (await api(`/api/jobs/${first.job.id}`)).json()
+
+    expect(first.job).toMatchObject({ externalId: '4001', description: 'Full description' })
+    expect(byId.job).toEqual(first.job)
+    expect(stack.core.requestsTo('/api/jobs/4001')).toHaveLength(1)
+    expect((await api('/api/jobs/missing-job')).status).toBe(404)
+  })
+
+  it('should store broadcast jobs', async () => {
+    const response = await api('/api/v1/jobs/broadcast', {
+      method: 'POST',
+      headers: { 'X-Core-Secret': 'e2e-core-secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobs: [{ id: 'core-5001', externalId: '5001', title: 'Erlang Developer', skills: ['erlang'] }] })
+    })
+    stack.core.failNext('POST', '/api/jobs/search', 500, { times: CORE_SEARCH_ATTEMPTS })
+
+    const body = await (await search({ text: 'erlang' })).json()
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ stale: true, jobs: [{ externalId: '5001', skills: ['erlang'] }] })
+  }, CORE_SEARCH_RETRY_TIMEOUT_MS)
+
+  it('should group reposts of a vacancy under the first job', async () => {
+    const description = 'Ищем Gleam-разработчика в команду биллинга: BEAM, PostgreSQL, RabbitMQ, ' +
+      'код-ревью, дежурства раз в месяц, удалённая работа и ДМС с первого дня.'
+    stack.core.jobs = [
+      { id: '7001', title: 'Gleam Developer', company: 'ООО Бета', employer_id: '77', description },
+      { id: '7002', title: 'Gleam-разработчик', company: 'Бета', employer_id: '77', description },
+      { id: '7003', title: 'Senior BEAM Engineer', company: 'Gamma', description },
+      { id: '7004', title: 'Gleam Developer', company: 'Delta' }
+    ]
+
+    const { jobs } = await (await search({ text: 'gleam' })).json()
+    const byExternalId = Object.fromEntries(jobs.map((job: any) => [job.externalId, job]))
+    const canonicalId = byExternalId['7001'].id
+
+    expect(byExternalId['7001'].canonicalJobId).toBeNull()
+    expect(byExternalId['7002'].canonicalJobId).toBe(canonicalId) // same employer and title
+    expect(byExternalId['7003'].canonicalJobId).toBe(canonicalId) // same description
+    expect(byExternalId['7004'].canonicalJobId).toBeNull()
+
+    const duplicates = await (await api('/api/jobs/7003/duplicates')).json()
+    expect(duplicates.canonicalJobId).toBe(canonicalId)
+    expect(duplicates.jobs[0].externalId).toBe('7001')
+    expect(duplicates.jobs.map((job: any) => job.externalId).sort()).toEqual(['7001', '7002', '7003'])
+  })
+})
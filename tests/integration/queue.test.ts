@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'bun:test'
+import { stack, api, login, userIdOf } from './stack'
+
+describe.skipIf(!stack.ready)('Queue (integration)', () => {
+  let cookie: string
+  let cvId: string
+  let jobIds: string[]
+
+  beforeAll(async () => {
+    const { db } = await import('../../src/db/client')
+    const { parsedCvs } = await import('../../src/db/schema')
+
+    cookie = await login()
+    const [cv] = await db.insert(parsedCvs)
+      .values({ userId: await userIdOf(cookie), firstName: 'Jane', email: 'jane.doe@example.com' })
+      .returning({ id: parsedCvs.id })
+    cvId = cv.id
+  })
+
+  // Fresh jobs for every test: a job stays queued until its item finishes
+  beforeEach(async () => {
+    stack.core.reset()
+
+    // The jobs table is filled by Core when it fetches vacancies
+    const { db } = await import('../../src/db/client')
+    const { jobs } = await import('../../src/db/schema')
+
+    const suffix = crypto.randomUUID().slice(0, 8)
+    const rows = await db.insert(jobs).values([
+      { externalId: `e2e-${suffix}-1`, hhVacancyId: `${suffix}1`, title: 'React Developer', company: 'Acme' },
+      { externalId: `e2e-${suffix}-2`, hhVacancyId: `${suffix}2`, title: 'TypeScript Engineer', company: 'Globex' }
+    ]).returning({ id: jobs.id })
+    jobIds = rows.map(row => row.id)
+  })
+
+  it('should queue jobs and hand the workflow to Core', async () => {
+    const added = await (await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds }),
+      cookie
+    })).json()
+
+    expect(added).toMatchObject({ success: true, queuedCount: 2 })
+
+    const queue = await (await api(`/api/queue?workflowId=${added.workflowId}`, { cookie })).json()
+    expect(queue.items.map((item: any) => item.status)).toEqual(['pending', 'pending'])
+
+    const started = await api('/api/queue/batch-customize', {
+      method: 'POST',
+      body: JSON.stringify({ workflowId: added.workflowId }),
+      cookie
+    })
+
+    expect(started.status).toBe(200)
+    expect((await started.json()).jobCount).toBe(2)
+    expect(stack.core.workflows).toEqual([
+      { action: 'batch-customize', workflowId: added.workflowId, userId: expect.any(String) }
+    ])
+    expect(stack.core.requestsTo('/api/queue/batch-customize')[0].body.jobCount).toBe(2)
+  })
+
+  it('should not queue jobs with the CV of another user', async () => {
+    const response = await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds }),
+      cookie: await login()
+    })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ success: false, error: `CV ${cvId} not found` })
+  })
+
+  it('should not start auto-apply before the jobs are customized', async () => {
+    const { workflowId } = await (await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds }),
+      cookie
+    })).json()
+
+    const response = await api('/api/queue/start-workflow', {
+      method: 'POST',
+      body: JSON.stringify({ workflowId }),
+      cookie
+    })
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toContain('Run batch-customize first')
+    expect(stack.core.workflows).toHaveLength(0)
+  })
+
+  it('should report a failure of Core', async () => {
+    const { workflowId } = await (await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds: jobIds.slice(0, 1) }),
+      cookie
+    })).json()
+    stack.core.failNext('POST', '/api/queue/batch-customize', 500)
+
+    const response = await api('/api/queue/batch-customize', {
+      method: 'POST',
+      body: JSON.stringify({ workflowId }),
+      cookie
+    })
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toBe('Failed to start batch customization in Core')
+  })
+
+  it('should skip vacancies the user applied to, under any of their job ids', async () => {
+    const { jobStore } = await import('../../src/services/job-store.service')
+    const suffix = crypto.randomUUID().slice(0, 8)
+    const [first, repost, other, otherRepost] = await jobStore.upsertJobs([
+      { id: `${suffix}-1`, title: 'Scala Developer', company: `Zeta ${suffix}`, employer_id: suffix, area: 'Москва' },
+      { id: `${suffix}-2`, title: 'Scala-разработчик', company: `Zeta ${suffix}`, employer_id: suffix, area: 'Москва' },
+      { id: `${suffix}-3`, title: 'Kafka Engineer', company: `Zeta ${suffix}`, employer_id: suffix, area: 'Москва' },
+      { id: `${suffix}-4`, title: 'Kafka Engineer', company: `ООО Zeta ${suffix}`, area: 'Москва' }
+    ])
+    const submit = (jobExternalId: string) => api('/api/application/submit', {
+      method: 'POST',
+      body: JSON.stringify({ jobExternalId, customizedCV: { firstName: 'Jane', email: 'jane.doe@example.com', phone: '+79991234567' }, coverLetter: 'Hello' }),
+      cookie
+    })
+
+    const applied = await (await submit(first.externalId)).json()
+    const again = await submit(repost.externalId)
+
+    expect(again.status).toBe(409)
+    expect((await again.json()).applicationId).toBe(applied.applicationId)
+    expect(stack.core.submissions).toHaveLength(1)
+
+    const added = await (await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds: [repost.id, other.id, otherRepost.id] }),
+      cookie
+    })).json()
+
+    expect(added).toMatchObject({
+      queuedCount: 1,
+      skipped: [
+        { jobId: repost.id, reason: 'already_applied', applicationId: applied.applicationId },
+        { jobId: otherRepost.id, reason: 'duplicate_vacancy', duplicateOf: other.id }
+      ]
+    })
+  })
+
+  it('should queue a job once across workflows unless reapplying', async () => {
+    const add = (body: Record<string, unknown>) => api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId, jobIds, ...body }),
+      cookie
+    }).then(response => response.json())
+
+    const first = await add({})
+    const [item] = (await (await api(`/api/queue?workflowId=${first.workflowId}`, { cookie })).json()).items
+    await api(`/api/queue/${item.id}`, { method: 'DELETE', cookie })
+
+    const again = await add({})
+    expect(again.queuedCount).toBe(1)
+    expect(again.skipped).toHaveLength(1)
+    expect(again.skipped[0]).toMatchObject({ reason: 'already_queued', workflowId: first.workflowId })
+    expect(again.skipped[0].jobId).not.toBe(item.job.id)
+
+    const reapplied = await add({ reapply: true })
+    expect(reapplied).toMatchObject({ queuedCount: 2, skipped: [] })
+
+    const queue = await (await api(`/api/queue?workflowId=${reapplied.workflowId}`, { cookie })).json()
+    expect(queue.items.map((queued: any) => queued.reapply)).toEqual([true, true])
+  })
+
+  it('should submit to a vacancy again only when reapplying', async () => {
+    const body = { jobExternalId: `e2e-${crypto.randomUUID()}`, customizedCV: { firstName: 'Jane', email: 'jane.doe@example.com', phone: '+79991234567' }, coverLetter: 'Hello' }
+    const submit = (extra: Record<string, unknown> = {}) => api('/api/application/submit', {
+      method: 'POST',
+      body: JSON.stringify({ ...body, ...extra }),
+      cookie
+    })
+
+    expect((await submit()).status).toBe(200)
+    expect((await submit()).status).toBe(409)
+
+    const reapplied = await submit({ reapply: true })
+    const { applicationId } = await reapplied.json()
+    expect(reapplied.status).toBe(200)
+    expect(stack.core.submissions).toHaveLength(2)
+
+    const { applications } = await (await api('/api/application', { cookie })).json()
+    expect(applications.find((application: any) => application.id === applicationId)).toMatchObject({ status: 'submitted', reapply: true })
+  })
+
+  it('should defer customizing for a user over the daily AI quota', async () => {
+    const { db } = await import('../../src/db/client')
+    const { applicationQueue, jobs, parsedCvs, users } = await import('../../src/db/schema')
+    const { QueueWorker } = await import('../../src/services/queue.worker')
+    const { eq } = await import('drizzle-orm')
+
+    // One model call a day; customizing needs two
+    const session = await login()
+    const userId = await userIdOf(session)
+    await db.update(users).set({ aiDailyRequestLimit: 1 }).where(eq(users.id, userId))
+    await db.update(jobs).set({ description: 'Build trading dashboards in React' }).where(eq(jobs.id, jobIds[0]))
+    const [cv] = await db.insert(parsedCvs).values({ userId, firstName: 'Jane' }).returning({ id: parsedCvs.id })
+
+    const { workflowId } = await (await api('/api/queue/add', {
+      method: 'POST',
+      body: JSON.stringify({ cvId: cv.id, jobIds: jobIds.slice(0, 1) }),
+      cookie: session
+    })).json()
+    await db.update(applicationQueue).set({ nextRunAt: new Date() }).where(eq(applicationQueue.workflowId, workflowId))
+    stack.openRouter.reset()
+
+    const worker = new QueueWorker(db, { pollIntervalMs: 1000, concurrency: 1, maxAttempts: 3, retryBaseMs: 1000, leaseMs: 60000 })
+    expect(await worker.tick()).toBe(1)
+
+    const [item] = await db.select().from(applicationQueue).where(eq(applicationQueue.workflowId, workflowId))
+    expect(item).toMatchObject({ status: 'pending', attempts: 0, lastError: 'Daily AI request limit reached' })
+    expect(item.nextRunAt!.getTime()).toBeGreaterThan(Date.now())
+    expect(stack.openRouter.requests).toHaveLength(0)
+  })
+
+  it('should return the rate limit from Core with the AI quota', async () => {
+    stack.core.rateLimit = { remaining: 42, limit: 200 }
+
+    const body = await (await api('/api/rate-limit/status', { cookie })).json()
+
+    expect(body.rateLimit).toEqual({ remaining: 42, limit: 200 })
+    expect(body.aiQuota).toBeDefined()
+  })
+})
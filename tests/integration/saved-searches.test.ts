@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll } from 'bun:test'
+import { api, login, stack } from './stack'
+
+function broadcast(jobs: Record<string, unknown>[]) {
+  return api('/api/v1/jobs/broadcast', {
+    method: 'POST',
+    headers: { 'X-Core-Secret': 'e2e-core-secret' },
+    body: JSON.stringify({ jobs })
+  })
+}
+
+describe.skipIf(!stack.ready)('Saved searches (integration)', () => {
+  let owner: string
+  let other: string
+
+  beforeAll(async () => {
+    owner = await login()
+    other = await login()
+  })
+
+  it('should save searches per user', async () => {
+    const created = await (await api('/api/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify({ text: 'Ruby on Rails', skills: ['postgres'], salaryFrom: 200000 }),
+      cookie: owner
+    })).json()
+
+    expect(created.search).toMatchObject({ name: 'Ruby on Rails', skills: ['PostgreSQL'], salaryFrom: 200000, alertsEnabled: true })
+
+    const updated = await (await api(`/api/saved-searches/${created.search.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name: 'Rails', salaryFrom: 250000 }),
+      cookie: owner
+    })).json()
+    expect(updated.search).toMatchObject({ name: 'Rails', text: 'Ruby on Rails', salaryFrom: 250000 })
+
+    const mine = await (await api('/api/saved-searches', { cookie: owner })).json()
+    const theirs = await (await api('/api/saved-searches', { cookie: other })).json()
+    expect(mine.searches.map((search: any) => search.id)).toContain(created.search.id)
+    expect(theirs.searches).toEqual([])
+
+    const foreign = await api(`/api/saved-searches/${created.search.id}`, { method: 'DELETE', cookie: other })
+    expect(foreign.status).toBe(404)
+    expect((await api(`/api/saved-searches/${created.search.id}`, { method: 'DELETE', cookie: owner })).status).toBe(200)
+  })
+
+  it('should keep broadcast matches in the owner\'s inbox and push live ones', async () => {
+    const { savedSearchService } = await import('../../src/services/saved-search.service')
+    const { search } = await (await api('/api/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify({ text: 'Crystal', name: 'Crystal jobs' }),
+      cookie: owner
+    })).json()
+    const old = new Date(Date.now() - 7 * 86400000).toISOString()
+
+    const response = await broadcast([
+      { id: 'c-6001', externalId: '6001', title: 'Crystal Developer' },
+      { id: 'c-6002', externalId: '6002', title: 'Crystal Developer', publishedAt: old },
+      { id: 'c-6003', externalId: '6003', title: 'Nim Developer' }
+    ])
+    expect(await response.json()).toMatchObject({ ok: true, stored: 3 })
+    await savedSearchService.whenMatched()
+
+    const inbox = await (await api('/api/saved-searches/inbox', { cookie: owner })).json()
+    expect(inbox.matches).toMatchObject([{ savedSearchId: search.id, savedSearchName: 'Crystal jobs', job: { externalId: '6001' } }])
+    expect((await (await api('/api/saved-searches/inbox', { cookie: other })).json()).matches).toEqual([])
+
+    // The same job again is not a new match
+    await broadcast([{ id: 'c-6001', externalId: '6001', title: 'Crystal Developer' }])
+    await savedSearchService.whenMatched()
+    expect((await (await api('/api/saved-searches/inbox', { cookie: owner })).json()).matches).toHaveLength(1)
+
+    const acked = await (await api('/api/saved-searches/inbox/ack', { method: 'POST', body: JSON.stringify({}), cookie: owner })).json()
+    expect(acked.acknowledged).toBe(1)
+    expect((await (await api('/api/saved-searches/inbox', { cookie: owner })).json()).matches).toEqual([])
+
+    // A connected owner gets the match right away and it never reaches the inbox
+    const { realtime } = await import('../../src/services/realtime.service')
+    const messages: any[] = []
+    const socket = { send: (data: string) => messages.push(JSON.parse(data)) }
+    realtime.registerClient(`e2e-${search.id}`, socket, search.userId)
+    try {
+      await broadcast([{ id: 'c-6004', externalId: '6004', title: 'Senior Crystal Engineer' }])
+      await savedSearchService.whenMatched()
+    } finally {
+      realtime.unregisterBySocket(socket)
+    }
+
+    expect(messages).toMatchObject([{ type: 'saved_search_matches', matches: [{ job: { externalId: '6004' } }] }])
+    expect((await (await api('/api/saved-searches/inbox', { cookie: owner })).json()).matches).toEqual([])
+  })
+})
@@ -0,0 +1,12 @@
+/**
+ * Preload of the integration suites (bun run test:integration)
+ */
+
+import { afterAll } from 'bun:test'
+import { startStack, stopStack } from './stack'
+
+await startStack()
+
+afterAll(async () => {
+  await stopStack()
+})
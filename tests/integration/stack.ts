@@ -0,0 +1,136 @@
+/**
+ * End-to-end test stack: the app wired to a fake Core, a fake OpenRouter and
+ * a test Postgres.
+ *
+ * `startStack` runs as a preload (see setup.ts) because the app reads its
+ * configuration when first imported: the fakes have to be listening and the
+ * environment pointed at them before any module of src/ loads. Without
+ * TEST_DATABASE_URL the stack stays down and the integration suites skip.
+ *
+ * The test database is wiped and rebuilt from the schema and migrations on start.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { Client } from 'pg'
+import { FakeCore } from '../fixtures/fake-core'
+import { FakeOpenRouter } from '../fixtures/fake-openrouter'
+
+const CORE_SECRET = 'e2e-core-secret'
+const OPENROUTER_KEY = 'e2e-openrouter-key'
+const MIGRATIONS_DIR = join(import.meta.dir, '../../src/db/migrations')
+
+export const stack = {
+  ready: false,
+  core: new FakeCore({ secret: CORE_SECRET }),
+  openRouter: new FakeOpenRouter({ apiKey: OPENROUTER_KEY })
+}
+
+/**
+ * Recreate the public schema: tables from src/db/schema.ts, since Core owns
+ * the base schema in production and 0000 is only an introspected snapshot,
+ * then the migrations after it for their indexes, constraints and backfills
+ */
+async function migrateTestDatabase(url: string) {
+  const { generateDrizzleJson, generateMigration } = await import('drizzle-kit/api')
+  const schema = await import('../../src/db/schema')
+  const tables = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))
+
+  const client = new Client({ connectionString: url })
+  await client.connect()
+  try {
+    await client.query('DROP SCHEMA IF EXISTS public CASCADE; CREATE SCHEMA public;')
+    for (const statement of tables) {
+      await client.query(statement)
+    }
+
+    const files = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql') && !file.startsWith('0000_')).sort()
+    for (const file of files) {
+      try {
+        await client.query(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'))
+      } catch (error) {
+        throw new Error(`Migration ${file} failed: ${(error as Error).message}`)
+      }
+    }
+  } finally {
+    await client.end()
+  }
+}
+
+export async function startStack() {
+  const databaseUrl = process.env.TEST_DATABASE_URL
+  if (!databaseUrl) return
+
+  // The schema is dropped on start, so never run against the configured database
+  if (databaseUrl === process.env.DATABASE_URL) {
+    throw new Error('TEST_DATABASE_URL must not point at DATABASE_URL: the test database is wiped on every run')
+  }
+
+  stack.core.start()
+  stack.openRouter.start()
+
+  Object.assign(process.env, {
+    NODE_ENV: 'test',
+    DATABASE_URL: databaseUrl,
+    CORE_URL: stack.core.url,
+    ORCHESTRATOR_SECRET: CORE_SECRET,
+    OPENROUTER_BASE_URL: stack.openRouter.url,
+    OPENROUTER_API_KEY: OPENROUTER_KEY,
+    LLM_PROVIDER: 'openrouter',
+    SESSION_SECRET: 'e2e-session-secret',
+    CACHE_BACKEND: 'memory',
+    RATE_LIMIT_BACKEND: 'memory',
+    // Workflows go to (fake) Core; workers are not started by the app itself
+    QUEUE_WORKER_ENABLED: 'false',
+    HH_SYNC_ENABLED: 'false',
+    SAVED_SEARCH_WORKER_ENABLED: 'false'
+  })
+
+  await migrateTestDatabase(databaseUrl)
+  stack.ready = true
+}
+
+export async function stopStack() {
+  await stack.core.stop()
+  await stack.openRouter.stop()
+}
+
+type App = typeof import('../../src/app')['app']
+let app: App | null = null
+
+/**
+ * Send a request to the app in-process. `cookie` is a session cookie from login().
+ */
+export async function api(path: string, { cookie, ...init }: RequestInit & { cookie?: string } = {}) {
+  app ??= (await import('../../src/app')).app
+
+  const headers = new Headers(init.headers)
+  if (cookie) headers.set('cookie', cookie)
+  if (typeof init.body === 'string') headers.set('content-type', 'application/json')
+
+  return await app.handle(new Request(`http://localhost${path}`, { ...init, headers }))
+}
+
+/**
+ * Log in through the HH OAuth callback; the same code always gives the same user
+ */
+export async function login(code = `user-${crypto.randomUUID()}`): Promise<string> {
+  const response = await api(`/api/auth/hh/callback?code=${encodeURIComponent(code)}`)
+  const setCookie = response.headers.get('set-cookie')
+  if (response.status !== 302 || !setCookie) {
+    throw new Error(`Login failed: ${response.status} ${response.headers.get('location')}`)
+  }
+  return setCookie.split(';')[0]
+}
+
+/**
+ * users.id of the user logged in with a login() cookie
+ */
+export async function userIdOf(cookie: string): Promise<string> {
+  const { extractSessionCookie, validateSession } = await import('../../src/middleware/session')
+  const { userService } = await import('../../src/services/user.service')
+
+  const validation = await validateSession(extractSessionCookie(cookie))
+  if (!validation.valid) throw new Error('Invalid session cookie')
+  return await userService.resolveSessionUser(validation.session, validation.userId)
+}
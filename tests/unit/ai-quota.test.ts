@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test'
+import { evaluateQuota, nextQuotaReset } from '../../src/services/ai-quota.service'
+
+describe('AI Quota', () => {
+  const now = new Date('2025-10-15T14:00:00.000Z')
+
+  describe('nextQuotaReset', () => {
+    it('should reset at the next UTC midnight', () => {
+      expect(nextQuotaReset(now).toISOString()).toBe('2025-10-16T00:00:00.000Z')
+      expect(nextQuotaReset(new Date('2025-12-31T23:59:59.000Z')).toISOString()).toBe('2026-01-01T00:00:00.000Z')
+    })
+  })
+
+  describe('evaluateQuota', () => {
+    const limits = { requests: 10, tokens: 1000 }
+
+    it('should allow requests that fit in both limits', () => {
+      const check = evaluateQuota({ requests: 7, tokens: 500 }, limits, { requests: 3, tokens: 500 }, now)
+
+      expect(check.allowed).toBe(true)
+      expect(check.state.requests).toEqual({ used: 7, limit: 10, remaining: 3 })
+      expect(check.state.tokens).toEqual({ used: 500, limit: 1000, remaining: 500 })
+    })
+
+    it('should refuse a request whose estimate exceeds the request limit', () => {
+      const check = evaluateQuota({ requests: 8, tokens: 0 }, limits, { requests: 3, tokens: 0 }, now)
+
+      expect(check.allowed).toBe(false)
+      if (check.allowed) return
+      expect(check.exceeded).toBe('requests')
+      expect(check.retryAfterSeconds).toBe(10 * 60 * 60)
+    })
+
+    it('should refuse a request whose estimate exceeds the token budget', () => {
+      const check = evaluateQuota({ requests: 1, tokens: 900 }, limits, { requests: 1, tokens: 200 }, now)
+
+      expect(check.allowed).toBe(false)
+      if (check.allowed) return
+      expect(check.exceeded).toBe('tokens')
+    })
+
+    it('should treat zero limits as unlimited', () => {
+      const check = evaluateQuota({ requests: 5000, tokens: 10_000_000 }, { requests: 0, tokens: 0 }, { requests: 8, tokens: 25000 }, now)
+
+      expect(check.allowed).toBe(true)
+      expect(check.state.requests).toEqual({ used: 5000, limit: null, remaining: null })
+    })
+
+    it('should not report negative remaining usage', () => {
+      const check = evaluateQuota({ requests: 12, tokens: 0 }, limits, undefined, now)
+      expect(check.state.requests.remaining).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'bun:test'
+import { estimateCost, rollupDailyUsage, type AIUsageRow } from '../../src/services/ai-usage.service'
+
+describe('AI Usage', () => {
+  describe('estimateCost', () => {
+    const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+
+    it('should price prompt and completion tokens separately', () => {
+      const cost = estimateCost(usage, { prompt: '0.000003', completion: '0.000015' })
+      expect(cost).toBeCloseTo(0.0105, 10)
+    })
+
+    it('should return null without pricing', () => {
+      expect(estimateCost(usage, undefined)).toBeNull()
+      expect(estimateCost(usage, { prompt: 'n/a', completion: '0.1' })).toBeNull()
+    })
+
+    it('should treat free models as zero cost', () => {
+      expect(estimateCost(usage, { prompt: '0', completion: '0' })).toBe(0)
+    })
+  })
+
+  describe('rollupDailyUsage', () => {
+    const row = (date: string, feature: string, model: string, requests: number, costUsd: number): AIUsageRow => ({
+      date,
+      feature,
+      model,
+      requests,
+      failedRequests: 0,
+      promptTokens: requests * 100,
+      completionTokens: requests * 50,
+      totalTokens: requests * 150,
+      costUsd,
+      validatedOutputs: requests,
+      invalidOutputs: 0
+    })
+
+    it('should group rows by day with feature and model breakdowns', () => {
+      const { days, totals } = rollupDailyUsage([
+        row('2025-10-16', 'cover_letter_variations', 'openai/gpt-4o', 5, 0.05),
+        row('2025-10-15', 'multistage_customization', 'anthropic/claude-3.5-sonnet', 3, 0.09),
+        row('2025-10-15', 'cover_letter_variations', 'anthropic/claude-3.5-sonnet', 5, 0.04)
+      ])
+
+      expect(days.map(d => d.date)).toEqual(['2025-10-15', '2025-10-16'])
+      expect(days[0].requests).toBe(8)
+      expect(days[0].totalTokens).toBe(1200)
+      expect(days[0].costUsd).toBeCloseTo(0.13, 10)
+      expect(days[0].features.multistage_customization.requests).toBe(3)
+      expect(days[0].models['anthropic/claude-3.5-sonnet'].requests).toBe(8)
+      expect(days[1].features.cover_letter_variations.costUsd).toBeCloseTo(0.05, 10)
+
+      expect(totals.requests).toBe(13)
+      expect(totals.costUsd).toBeCloseTo(0.18, 10)
+    })
+
+    it('should count schema failures per model', () => {
+      const { days } = rollupDailyUsage([
+        { ...row('2025-10-15', 'culture_analysis', 'openai/gpt-4o', 4, 0.02), invalidOutputs: 1 },
+        { ...row('2025-10-15', 'interview_preparation', 'openai/gpt-4o', 2, 0.02), invalidOutputs: 1 },
+        row('2025-10-15', 'culture_analysis', 'anthropic/claude-3.5-sonnet', 3, 0.03)
+      ])
+
+      expect(days[0].models['openai/gpt-4o']).toMatchObject({ validatedOutputs: 6, invalidOutputs: 2 })
+      expect(days[0].models['anthropic/claude-3.5-sonnet'].invalidOutputs).toBe(0)
+      expect(days[0].invalidOutputs).toBe(2)
+    })
+
+    it('should return empty totals without usage', () => {
+      const { days, totals } = rollupDailyUsage([])
+      expect(days).toEqual([])
+      expect(totals.requests).toBe(0)
+      expect(totals.costUsd).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test'
+import { applicationOutcome } from '../../src/services/application-tracker.service'
+
+describe('Application Tracker', () => {
+  describe('applicationOutcome', () => {
+    const now = new Date('2025-10-15T10:30:00Z')
+
+    it('should record HH identifiers of a successful submission', () => {
+      const result = { resume_id: 'r-1', negotiation_id: 42, submitted_at: '2025-10-15T10:30:00Z' }
+      const outcome = applicationOutcome({ success: true, result }, now)
+
+      expect(outcome.status).toBe('submitted')
+      expect(outcome.submittedAt).toEqual(now)
+      expect(outcome.hhNegotiationId).toBe('42')
+      expect(outcome.hhResumeId).toBe('r-1')
+      expect(outcome.hhStatus).toBe('response')
+      expect(outcome.responseData).toEqual(result)
+      expect(outcome.errorReason).toBeNull()
+    })
+
+    it('should keep the HH status reported by Core', () => {
+      const outcome = applicationOutcome({ success: true, result: { negotiation_id: '1', status: 'invitation' } }, now)
+      expect(outcome.hhStatus).toBe('invitation')
+    })
+
+    it('should keep the Core rejection reason', () => {
+      const outcome = applicationOutcome({
+        success: false,
+        status: 422,
+        reason: 'missing_phone',
+        retryable: false,
+        error: 'Your CV is missing a phone number.'
+      }, now)
+
+      expect(outcome.status).toBe('failed')
+      expect(outcome.errorReason).toBe('missing_phone')
+      expect(outcome.errorMessage).toBe('Your CV is missing a phone number.')
+    })
+
+    it('should set rateLimitedUntil from Retry-After', () => {
+      const outcome = applicationOutcome({
+        success: false,
+        status: 502,
+        retryable: true,
+        rateLimited: true,
+        retryAfterMs: 60_000,
+        error: 'Phoenix Core error: 429'
+      }, now)
+
+      expect(outcome.status).toBe('rate_limited')
+      expect(outcome.rateLimitedUntil).toEqual(new Date(now.getTime() + 60_000))
+    })
+
+    it('should fall back to a default rate limit window', () => {
+      const outcome = applicationOutcome({
+        success: false,
+        status: 502,
+        retryable: true,
+        rateLimited: true,
+        error: 'Phoenix Core error: 429'
+      }, now)
+
+      expect(outcome.rateLimitedUntil).toEqual(new Date(now.getTime() + 15 * 60 * 1000))
+    })
+  })
+})
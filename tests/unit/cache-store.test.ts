@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { createServer, type Server, type Socket } from 'node:net'
+import { CacheService, MemoryCacheStore, RedisCacheStore, TieredCacheStore } from '../../src/services/cache.service'
+import { RespClient, RespParser } from '../../src/utils/resp'
+
+/**
+ * In-process server speaking the subset of the Redis protocol the cache uses
+ */
+class FakeRedisServer {
+  data = new Map<string, { value: string; expires: number | null }>()
+  commands: string[][] = []
+  private server: Server
+  private sockets = new Set<Socket>()
+
+  constructor() {
+    this.server = createServer((socket) => {
+      this.sockets.add(socket)
+      socket.on('close', () => this.sockets.delete(socket))
+      const parser = new RespParser()
+      socket.on('data', (chunk: Buffer) => {
+        for (const command of parser.push(chunk)) {
+          socket.write(this.handle(command as string[]))
+        }
+      })
+    })
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+    const address = this.server.address() as { port: number }
+    return `redis://127.0.0.1:${address.port}`
+  }
+
+  async close() {
+    for (const socket of this.sockets) socket.destroy()
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+  }
+
+  private live(key: string) {
+    const entry = this.data.get(key)
+    if (entry && entry.expires !== null && Date.now() > entry.expires) {
+      this.data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private handle([name, ...args]: string[]): string {
+    this.commands.push([name, ...args])
+    const bulk = (value: string | null) => value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+
+    switch (name.toUpperCase()) {
+      case 'GET':
+        return bulk(this.live(args[0])?.value ?? null)
+      case 'SET': {
+        const px = args.findIndex(a => a.toUpperCase() === 'PX')
+        this.data.set(args[0], { value: args[1], expires: px >= 0 ? Date.now() + Number(args[px + 1]) : null })
+        return '+OK\r\n'
+      }
+      case 'DEL': {
+        const removed = args.filter(key => this.data.delete(key)).length
+        return `:${removed}\r\n`
+      }
+      case 'SCAN': {
+        const prefix = args[args.findIndex(a => a.toUpperCase() === 'MATCH') + 1].replace(/\*$/, '')
+        const keys = [...this.data.keys()].filter(key => key.startsWith(prefix) && this.live(key))
+        return `*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`
+    }
+  }
+}
+
+describe('Cache Stores', () => {
+  let server: FakeRedisServer
+  let url: string
+
+  beforeEach(async () => {
+    server = new FakeRedisServer()
+    url = await server.listen()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  describe('RedisCacheStore', () => {
+    it('should store values under the key prefix with a server-side TTL', async () => {
+      const cache = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+
+      await cache.set('skills:abc', { required: ['TypeScript'] }, 86400000)
+
+      expect(await cache.get('skills:abc')).toEqual({ required: ['TypeScript'] })
+      expect(server.data.has('test:skills:abc')).toBe(true)
+      expect(server.commands.find(c => c[0] === 'SET')).toContain('86400000')
+      cache.destroy()
+    })
+
+    it('should expire entries after TTL', async () => {
+      const cache = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+
+      await cache.set('short', 'value', 50)
+      await new Promise(resolve => setTimeout(resolve, 80))
+
+      expect(await cache.get('short')).toBeNull()
+      cache.destroy()
+    })
+
+    it('should delete, list and clear only prefixed keys', async () => {
+      const cache = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+      server.data.set('other:key', { value: 'x', expires: null })
+
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      await cache.delete('key1')
+
+      const stats = await cache.getStats()
+      expect(stats.backend).toBe('redis')
+      expect(stats.keys).toEqual(['key2'])
+
+      await cache.clear()
+      expect((await cache.getStats()).size).toBe(0)
+      expect(server.data.has('other:key')).toBe(true)
+      cache.destroy()
+    })
+
+    it('should share entries between instances', async () => {
+      const first = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+      const second = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+
+      await first.set('shared', { value: 1 })
+
+      expect(await second.get('shared')).toEqual({ value: 1 })
+      first.destroy()
+      second.destroy()
+    })
+
+    it('should treat an unavailable server as a cache miss', async () => {
+      const cache = new CacheService(300000, new RedisCacheStore(new RespClient(url, { connectTimeoutMs: 200 }), 'test:'))
+      await server.close()
+
+      await cache.set('key', 'value')
+      expect(await cache.get('key')).toBeNull()
+      expect((await cache.getStats()).size).toBe(0)
+      cache.destroy()
+
+      // Reopen so afterEach can close it again
+      server = new FakeRedisServer()
+      await server.listen()
+    })
+  })
+
+  describe('TieredCacheStore', () => {
+    it('should serve repeated reads from memory', async () => {
+      const cache = new CacheService(300000, new TieredCacheStore(
+        new MemoryCacheStore(),
+        new RedisCacheStore(new RespClient(url), 'test:'),
+        60000
+      ))
+
+      await cache.set('key', 'value')
+      const reads = () => server.commands.filter(c => c[0] === 'GET').length
+
+      expect(await cache.get('key')).toBe('value')
+      expect(await cache.get('key')).toBe('value')
+      expect(reads()).toBe(0)
+      cache.destroy()
+    })
+
+    it('should fill memory from the shared tier', async () => {
+      const writer = new CacheService(300000, new RedisCacheStore(new RespClient(url), 'test:'))
+      const reader = new CacheService(300000, new TieredCacheStore(
+        new MemoryCacheStore(),
+        new RedisCacheStore(new RespClient(url), 'test:'),
+        60000
+      ))
+
+      await writer.set('key', 'from-other-replica')
+
+      expect(await reader.get('key')).toBe('from-other-replica')
+      expect(await reader.get('key')).toBe('from-other-replica')
+      expect(server.commands.filter(c => c[0] === 'GET').length).toBe(1)
+      writer.destroy()
+      reader.destroy()
+    })
+
+    it('should cap the memory copy at the L1 TTL', async () => {
+      const l1 = new MemoryCacheStore()
+      const cache = new CacheService(300000, new TieredCacheStore(l1, new RedisCacheStore(new RespClient(url), 'test:'), 50))
+
+      await cache.set('key', 'value', 60000)
+      await new Promise(resolve => setTimeout(resolve, 80))
+
+      expect(await l1.get('key')).toBeNull()
+      expect(await cache.get('key')).toBe('value')
+      cache.destroy()
+    })
+
+    it('should delete from both tiers', async () => {
+      const cache = new CacheService(300000, new TieredCacheStore(
+        new MemoryCacheStore(),
+        new RedisCacheStore(new RespClient(url), 'test:'),
+        60000
+      ))
+
+      await cache.set('key', 'value')
+      await cache.delete('key')
+
+      expect(await cache.get('key')).toBeNull()
+      expect(server.data.size).toBe(0)
+      cache.destroy()
+    })
+  })
+})
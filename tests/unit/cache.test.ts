@@ -8,116 +8,116 @@ describe('Cache Service', () => {
     cache = new CacheService()
   })
 
-  afterEach(() => {
+  afterEach(async () => {
     cache.destroy()
-    cache.clear()
+    await cache.clear()
   })
 
   describe('get/set', () => {
-    it('should store and retrieve values', () => {
-      cache.set('test-key', { data: 'test-value' })
+    it('should store and retrieve values', async () => {
+      await cache.set('test-key', { data: 'test-value' })
 
-      const result = cache.get('test-key')
+      const result = await cache.get('test-key')
 
       expect(result).toEqual({ data: 'test-value' })
     })
 
-    it('should return null for non-existent keys', () => {
-      const result = cache.get('non-existent')
+    it('should return null for non-existent keys', async () => {
+      const result = await cache.get('non-existent')
 
       expect(result).toBeNull()
     })
 
-    it('should store different data types', () => {
-      cache.set('string', 'text')
-      cache.set('number', 42)
-      cache.set('object', { foo: 'bar' })
-      cache.set('array', [1, 2, 3])
+    it('should store different data types', async () => {
+      await cache.set('string', 'text')
+      await cache.set('number', 42)
+      await cache.set('object', { foo: 'bar' })
+      await cache.set('array', [1, 2, 3])
 
-      expect(cache.get('string')).toBe('text')
-      expect(cache.get('number')).toBe(42)
-      expect(cache.get('object')).toEqual({ foo: 'bar' })
-      expect(cache.get('array')).toEqual([1, 2, 3])
+      expect(await cache.get('string')).toBe('text')
+      expect(await cache.get('number')).toBe(42)
+      expect(await cache.get('object')).toEqual({ foo: 'bar' })
+      expect(await cache.get('array')).toEqual([1, 2, 3])
     })
   })
 
   describe('TTL (Time To Live)', () => {
     it('should expire entries after TTL', async () => {
-      cache.set('expire-test', 'data', 100) // 100ms TTL
+      await cache.set('expire-test', 'data', 100) // 100ms TTL
 
       // Immediately available
-      expect(cache.get('expire-test')).toBe('data')
+      expect(await cache.get('expire-test')).toBe('data')
 
       // Wait for expiration
       await new Promise(resolve => setTimeout(resolve, 150))
 
       // Should be expired
-      expect(cache.get('expire-test')).toBeNull()
+      expect(await cache.get('expire-test')).toBeNull()
     })
 
     it('should use default TTL when not specified', async () => {
       const shortCache = new CacheService(50) // 50ms default TTL
-      shortCache.set('default-ttl', 'value')
+      await shortCache.set('default-ttl', 'value')
 
       await new Promise(resolve => setTimeout(resolve, 80))
 
-      expect(shortCache.get('default-ttl')).toBeNull()
+      expect(await shortCache.get('default-ttl')).toBeNull()
       shortCache.destroy()
     })
 
-    it('should allow custom TTL per item', () => {
-      cache.set('short', 'value1', 50)
-      cache.set('long', 'value2', 5000)
+    it('should allow custom TTL per item', async () => {
+      await cache.set('short', 'value1', 50)
+      await cache.set('long', 'value2', 5000)
 
-      expect(cache.get('short')).toBe('value1')
-      expect(cache.get('long')).toBe('value2')
+      expect(await cache.get('short')).toBe('value1')
+      expect(await cache.get('long')).toBe('value2')
     })
   })
 
   describe('delete', () => {
-    it('should delete specific keys', () => {
-      cache.set('key1', 'value1')
-      cache.set('key2', 'value2')
+    it('should delete specific keys', async () => {
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
 
-      cache.delete('key1')
+      await cache.delete('key1')
 
-      expect(cache.get('key1')).toBeNull()
-      expect(cache.get('key2')).toBe('value2')
+      expect(await cache.get('key1')).toBeNull()
+      expect(await cache.get('key2')).toBe('value2')
     })
   })
 
   describe('clear', () => {
-    it('should clear all entries', () => {
-      cache.set('key1', 'value1')
-      cache.set('key2', 'value2')
-      cache.set('key3', 'value3')
+    it('should clear all entries', async () => {
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      await cache.set('key3', 'value3')
 
-      cache.clear()
+      await cache.clear()
 
-      expect(cache.get('key1')).toBeNull()
-      expect(cache.get('key2')).toBeNull()
-      expect(cache.get('key3')).toBeNull()
+      expect(await cache.get('key1')).toBeNull()
+      expect(await cache.get('key2')).toBeNull()
+      expect(await cache.get('key3')).toBeNull()
     })
   })
 
   describe('getStats', () => {
-    it('should return cache statistics', () => {
-      cache.set('key1', 'value1')
-      cache.set('key2', 'value2')
+    it('should return cache statistics', async () => {
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
 
-      const stats = cache.getStats()
+      const stats = await cache.getStats()
 
       expect(stats.size).toBe(2)
       expect(stats.keys).toContain('key1')
       expect(stats.keys).toContain('key2')
     })
 
-    it('should reflect deletions in stats', () => {
-      cache.set('key1', 'value1')
-      cache.set('key2', 'value2')
-      cache.delete('key1')
+    it('should reflect deletions in stats', async () => {
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      await cache.delete('key1')
 
-      const stats = cache.getStats()
+      const stats = await cache.getStats()
 
       expect(stats.size).toBe(1)
       expect(stats.keys).not.toContain('key1')
@@ -128,14 +128,14 @@ describe('Cache Service', () => {
     it('should automatically cleanup expired entries', async () => {
       const fastCache = new CacheService(100) // 100ms default
 
-      fastCache.set('expire1', 'value', 50)
-      fastCache.set('expire2', 'value', 50)
-      fastCache.set('keep', 'value', 10000)
+      await fastCache.set('expire1', 'value', 50)
+      await fastCache.set('expire2', 'value', 50)
+      await fastCache.set('keep', 'value', 10000)
 
       // Wait for expiration + cleanup
       await new Promise(resolve => setTimeout(resolve, 350))
 
-      const stats = fastCache.getStats()
+      const stats = await fastCache.getStats()
       expect(stats.size).toBe(1) // Only 'keep' should remain
       expect(stats.keys).toContain('keep')
 
@@ -144,28 +144,28 @@ describe('Cache Service', () => {
   })
 
   describe('edge cases', () => {
-    it('should handle null/undefined values', () => {
-      cache.set('null-key', null)
-      cache.set('undefined-key', undefined)
+    it('should handle null/undefined values', async () => {
+      await cache.set('null-key', null)
+      await cache.set('undefined-key', undefined)
 
-      expect(cache.get('null-key')).toBeNull()
-      expect(cache.get('undefined-key')).toBeUndefined()
+      expect(await cache.get('null-key')).toBeNull()
+      expect(await cache.get('undefined-key')).toBeUndefined()
     })
 
-    it('should handle overwriting keys', () => {
-      cache.set('key', 'original')
-      cache.set('key', 'updated')
+    it('should handle overwriting keys', async () => {
+      await cache.set('key', 'original')
+      await cache.set('key', 'updated')
 
-      expect(cache.get('key')).toBe('updated')
+      expect(await cache.get('key')).toBe('updated')
     })
 
-    it('should handle concurrent access', () => {
+    it('should handle concurrent access', async () => {
       for (let i = 0; i < 100; i++) {
-        cache.set(`key-${i}`, `value-${i}`)
+        await cache.set(`key-${i}`, `value-${i}`)
       }
 
       for (let i = 0; i < 100; i++) {
-        expect(cache.get(`key-${i}`)).toBe(`value-${i}`)
+        expect(await cache.get(`key-${i}`)).toBe(`value-${i}`)
       }
     })
   })
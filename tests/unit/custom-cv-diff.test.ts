@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'bun:test'
+import { diffCustomizedCVs } from '../../src/services/custom-cv.service'
+
+describe('Custom CV versions', () => {
+  describe('diffCustomizedCVs', () => {
+    it('should return no changes for identical CVs', () => {
+      const cv = { title: 'Backend Engineer', summary: 'Builds APIs', skills: ['Go', 'SQL'] }
+      expect(diffCustomizedCVs(cv, { ...cv, skills: [...cv.skills] })).toEqual([])
+    })
+
+    it('should report text field changes', () => {
+      const changes = diffCustomizedCVs(
+        { title: 'Backend Engineer', summary: 'Builds APIs' },
+        { title: 'Senior Backend Engineer', experience: '5 years at Acme' }
+      )
+
+      expect(changes).toEqual([
+        { field: 'title', type: 'changed', before: 'Backend Engineer', after: 'Senior Backend Engineer' },
+        { field: 'summary', type: 'removed', before: 'Builds APIs', after: undefined },
+        { field: 'experience', type: 'added', before: undefined, after: '5 years at Acme' }
+      ])
+    })
+
+    it('should report added and removed skills case-insensitively', () => {
+      const changes = diffCustomizedCVs(
+        { skills: ['TypeScript', 'jQuery', 'PostgreSQL'] },
+        { skills: ['typescript', 'PostgreSQL', 'Kubernetes'] }
+      )
+
+      expect(changes).toEqual([
+        { field: 'skills', type: 'changed', added: ['Kubernetes'], removed: ['jQuery'] }
+      ])
+    })
+
+    it('should detect reordered lists', () => {
+      const changes = diffCustomizedCVs(
+        { skills: ['Go', 'SQL'] },
+        { skills: ['SQL', 'Go'] }
+      )
+
+      expect(changes).toEqual([
+        { field: 'skills', type: 'reordered', added: [], removed: [] }
+      ])
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { compareRuns, formatComparison, keywordCoverage, summarizeCases } from '../../src/eval/scoring'
+import { loadCorpus, runEvaluation } from '../../src/eval/harness'
+import { RecordedLLMProvider } from '../../src/eval/recorded.provider'
+import { FakeLLMProvider } from '../../src/services/llm.provider'
+import type { EvalRun, LLMChatRequest } from '../../src/types'
+
+const run = (label: string, cases: EvalRun['cases']): EvalRun => ({
+  label,
+  createdAt: '2025-10-01T00:00:00.000Z',
+  provider: 'fake',
+  model: 'test/model',
+  promptVersions: { cv_optimization: label === 'base' ? 'v1' : 'v2' },
+  cases,
+  summary: summarizeCases(cases)
+})
+
+describe('CV Evaluation', () => {
+  describe('keywordCoverage', () => {
+    it('should match whole words ignoring case', () => {
+      const text = 'Built services in Go and TypeScript; shipped to Kubernetes.'
+      expect(keywordCoverage(text, ['go', 'Kubernetes', 'Kafka', 'Script'])).toBe(0.5)
+    })
+
+    it('should match keywords with symbols and in Cyrillic', () => {
+      expect(keywordCoverage('Настроил CI/CD и писал на C++', ['CI/CD', 'C++', 'Python'])).toBeCloseTo(2 / 3)
+    })
+  })
+
+  describe('compareRuns', () => {
+    it('should tell improvements from regressions by metric direction', () => {
+      const base = run('base', [
+        { id: 'a', metrics: { 'multiStage.qualityScore': 70, 'usage.invalidOutputs': 1 } },
+        { id: 'b', metrics: { 'multiStage.qualityScore': 80, 'usage.invalidOutputs': 0 } }
+      ])
+      const candidate = run('candidate', [
+        { id: 'a', metrics: { 'multiStage.qualityScore': 90, 'usage.invalidOutputs': 0 } },
+        { id: 'b', metrics: { 'multiStage.qualityScore': 60, 'usage.invalidOutputs': 0 } }
+      ])
+
+      const comparison = compareRuns(base, candidate)
+
+      expect(comparison.summary).toEqual([
+        { metric: 'multiStage.qualityScore', base: 75, candidate: 75, delta: 0, verdict: 'unchanged' },
+        { metric: 'usage.invalidOutputs', base: 0.5, candidate: 0, delta: -0.5, verdict: 'improved' }
+      ])
+      expect(comparison.cases).toEqual([
+        { id: 'b', regressions: [expect.objectContaining({ metric: 'multiStage.qualityScore', delta: -20 })] }
+      ])
+      expect(formatComparison(comparison)).toContain('Changed templates: cv_optimization')
+    })
+
+    it('should count a case that fails in the candidate as a regression', () => {
+      const base = run('base', [{ id: 'a', metrics: { 'customization.keywordCoverage': 0.8 } }])
+      const candidate = run('candidate', [{ id: 'a', metrics: {}, error: 'timeout' }])
+
+      expect(compareRuns(base, candidate).cases[0].regressions[0].verdict).toBe('regressed')
+    })
+  })
+
+  describe('runEvaluation', () => {
+    it('should score every corpus case with the fake provider', async () => {
+      const cases = loadCorpus(join(import.meta.dir, '../../src/eval/corpus'))
+      const result = await runEvaluation(cases, { provider: new FakeLLMProvider(), model: 'test/model', label: 'fake' })
+
+      expect(result.cases).toHaveLength(cases.length)
+      expect(result.cases.every(c => !c.error)).toBe(true)
+      expect(result.summary['usage.calls']).toBeGreaterThan(0)
+      expect(result.summary['multiStage.qualityScore']).toBe(50)
+      expect(result.promptVersions.cv_optimization).toBe('v1')
+    })
+  })
+
+  describe('RecordedLLMProvider', () => {
+    const request: LLMChatRequest = {
+      model: 'test/model',
+      messages: [{ role: 'user', content: 'Return JSON: {"ok": true/false}' }],
+      temperature: 0
+    }
+
+    it('should record missing answers and replay them without upstream', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'eval-'))
+      const file = join(dir, 'recordings.json')
+
+      try {
+        const recorded = await new RecordedLLMProvider(file, new FakeLLMProvider()).chat(request)
+        const replayed = await new RecordedLLMProvider(file).chat(request)
+
+        expect(replayed).toEqual(recorded)
+        await expect(new RecordedLLMProvider(file).chat({ ...request, temperature: 1 })).rejects.toThrow('No recorded response')
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
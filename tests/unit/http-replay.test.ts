@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { HttpReplay, type HttpFixture } from '../fixtures/http-replay'
+import { proxyToCore } from '../../src/services/core.proxy'
+import { fetchWithRetry } from '../../src/utils/retry'
+import { OpenRouterProvider } from '../../src/services/llm.provider'
+
+const fixtures = join(import.meta.dir, '../fixtures/http')
+
+describe('HTTP Replay', () => {
+  describe('Core', () => {
+    const replay = new HttpReplay(join(fixtures, 'core.json'))
+    beforeAll(() => replay.install())
+    afterAll(() => replay.restore())
+
+    it('should retry a recorded 503 through proxyToCore', async () => {
+      const retries: number[] = []
+      const response = await proxyToCore({
+        path: '/api/jobs/search',
+        method: 'POST',
+        body: { text: 'typescript', area: '1', experience: undefined },
+        retryOptions: { initialDelayMs: 1, onRetry: attempt => retries.push(attempt) }
+      })
+
+      expect(response.status).toBe(200)
+      expect(retries).toEqual([1])
+      expect((await response.json()).jobs[0].title).toBe('TypeScript Developer')
+    })
+
+    it('should replay scrubbed responses', async () => {
+      const response = await proxyToCore({ path: '/api/hh/resumes', token: 'secret-token', skipSigning: true })
+      const { resumes } = await response.json()
+
+      expect(resumes[0]).toMatchObject({ id: 'resume-1', firstName: '[REDACTED]' })
+    })
+
+    it('should fail on requests without a fixture', async () => {
+      await expect(fetchWithRetry('http://core.test/api/hh/status')).rejects.toThrow('No HTTP fixture for GET /api/hh/status')
+    })
+  })
+
+  describe('OpenRouter', () => {
+    const replay = new HttpReplay(join(fixtures, 'openrouter.json'))
+    const provider = new OpenRouterProvider(process.env.OPENROUTER_API_KEY || 'test-key')
+    const request = {
+      model: 'openai/gpt-4o-mini',
+      messages: [{ role: 'user' as const, content: 'Reply with a greeting for jane.doe@example.com' }],
+      temperature: 0,
+      maxTokens: 50
+    }
+
+    beforeAll(() => replay.install())
+    afterAll(() => replay.restore())
+
+    it('should match requests on their scrubbed body', async () => {
+      const response = await provider.chat(request)
+
+      expect(response.content).toBe('Hello! Nice to meet you.')
+      expect(response.usage).toEqual({ promptTokens: 14, completionTokens: 7, totalTokens: 21 })
+    })
+
+    it('should replay a recorded event stream', async () => {
+      const deltas: string[] = []
+      const response = await provider.chatStream(request, delta => deltas.push(delta))
+
+      expect(deltas).toEqual(['Hello!', ' Nice to meet you.'])
+      expect(response.usage?.totalTokens).toBe(21)
+    })
+  })
+
+  describe('recording', () => {
+    it('should store scrubbed fixtures and return live responses', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'http-replay-'))
+      const file = join(dir, 'auth.json')
+      const upstream = Object.assign(
+        async () => Response.json({ access_token: 'live-access-token', user: { email: 'jane.doe@example.com', id: 'u1' } }),
+        { preconnect: fetch.preconnect }
+      )
+
+      try {
+        const recorder = new HttpReplay(file, { mode: 'record', upstream })
+        const live = await recorder.fetch('http://core.test/auth/hh/callback?session_id=s1&code=abc', {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: 'r1', at: Date.now() })
+        })
+        expect((await live.json()).access_token).toBe('live-access-token')
+
+        const [fixture] = JSON.parse(readFileSync(file, 'utf8')) as HttpFixture[]
+        expect(fixture.request).toMatchObject({ path: '/auth/hh/callback', body: { refreshToken: '[REDACTED]' } })
+        expect(fixture.response.body).toEqual({ access_token: '[REDACTED]', user: { email: '[REDACTED]', id: 'u1' } })
+
+        const replayed = await new HttpReplay(file, { mode: 'replay', ignoreFields: ['at'] }).fetch(
+          'http://localhost:4000/auth/hh/callback?code=abc&session_id=s1',
+          { method: 'POST', body: JSON.stringify({ at: 0, refreshToken: 'other' }) }
+        )
+        expect((await replayed.json()).user.id).toBe('u1')
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
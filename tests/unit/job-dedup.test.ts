@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  dedupKey,
+  duplicateReason,
+  minhash,
+  minhashBands,
+  minhashSimilarity,
+  normalizeCompany,
+  normalizeTitle,
+  type DedupFields
+} from '../../src/services/job-dedup.service'
+
+const description = `
+  Мы ищем backend-разработчика в команду платежей. Предстоит проектировать и
+  развивать сервисы на Go, работать с PostgreSQL и Kafka, участвовать в
+  код-ревью и помогать команде расти. Мы предлагаем удалённую работу, ДМС,
+  обучение за счёт компании и гибкий график.
+`
+
+function job(fields: Partial<DedupFields>): DedupFields {
+  return { title: 'Go Developer', company: null, employerId: null, source: 'hh.ru', area: null, minhash: null, ...fields }
+}
+
+describe('Job Dedup', () => {
+  it('should normalize company names', () => {
+    expect(normalizeCompany('ООО «Ромашка»')).toBe('ромашка')
+    expect(normalizeCompany('Romashka LLC')).toBe('romashka')
+    expect(normalizeCompany('АО "Тинькофф Банк"')).toBe('тинькофф банк')
+    expect(normalizeCompany(null)).toBe('')
+  })
+
+  it('should normalize titles', () => {
+    expect(normalizeTitle('Senior Back-end Developer (удалённо)')).toBe('senior backend developer')
+    expect(normalizeTitle('Старший бэкенд-разработчик')).toBe('senior backend developer')
+    expect(normalizeTitle('Frontend-разработчик, remote')).toBe(normalizeTitle('Front-end developer'))
+  })
+
+  it('should key jobs by company and title', () => {
+    expect(dedupKey('ООО Ромашка', 'Go Developer')).toBe('ромашка|go developer')
+    expect(dedupKey(null, 'Go Developer')).toBeNull()
+  })
+
+  it('should sign descriptions with MinHash', () => {
+    const signature = minhash(description)!
+    expect(signature).toHaveLength(64)
+    expect(signature.every(value => Number.isInteger(value) && value >= -(2 ** 31) && value < 2 ** 31)).toBe(true)
+    expect(minhash(description)).toEqual(signature)
+    expect(minhashBands(signature)).toHaveLength(16)
+    expect(minhash('Short text')).toBeNull()
+  })
+
+  it('should estimate description similarity', () => {
+    const original = minhash(description)!
+    const reworded = minhash(description.replace('гибкий график', 'гибкий график и компенсацию спорта'))!
+    const other = minhash(`
+      Ищем дизайнера интерфейсов для мобильного приложения банка. Вы будете
+      проводить исследования, рисовать макеты в Figma и работать вместе с
+      аналитиками и разработчиками над новыми сценариями для клиентов.
+    `)!
+
+    expect(minhashSimilarity(original, original)).toBe(1)
+    expect(minhashSimilarity(original, reworded)).toBeGreaterThan(0.6)
+    expect(minhashSimilarity(original, other)).toBeLessThan(0.2)
+  })
+
+  it('should tell reposts of the same vacancy', () => {
+    const signature = minhash(description)
+    const reworded = minhash(description.replace('гибкий график', 'гибкий график и компенсацию спорта'))
+    expect(duplicateReason(
+      job({ employerId: '42', minhash: signature }),
+      job({ employerId: '42', title: 'Go-разработчик', minhash: reworded })
+    )).toBe('employer_title')
+    expect(duplicateReason(job({ company: 'ООО Ромашка', area: 'Москва' }), job({ company: 'Ромашка', area: 'москва' }))).toBe('company_title')
+
+    expect(duplicateReason(
+      job({ title: 'Go Developer', company: 'Romashka', minhash: signature }),
+      job({ title: 'Backend Engineer (Go)', company: 'Other', minhash: signature })
+    )).toBe('description')
+  })
+
+  it('should keep different vacancies apart', () => {
+    // Same title elsewhere
+    expect(duplicateReason(job({ company: 'Ромашка', area: 'Москва' }), job({ company: 'Ромашка', area: 'Казань' }))).toBeNull()
+    // Same employer id on another board
+    expect(duplicateReason(job({ employerId: '42' }), job({ employerId: '42', source: 'superjob' }))).toBeNull()
+    // Another role at the same company
+    expect(duplicateReason(job({ company: 'Ромашка' }), job({ company: 'Ромашка', title: 'QA Engineer' }))).toBeNull()
+    // Another opening with the same title in the same city
+    const other = minhash(`
+      Команда антифрода ищет Go-разработчика. Вы будете писать правила и
+      сервисы оценки транзакций в реальном времени, разбирать инциденты с
+      аналитиками и отвечать за задержки под нагрузкой в часы пик.
+    `)
+    expect(duplicateReason(
+      job({ employerId: '42', area: 'Москва', minhash: minhash(description) }),
+      job({ employerId: '42', area: 'Москва', minhash: other })
+    )).toBeNull()
+    // Same title without descriptions or a known area to compare
+    expect(duplicateReason(job({ employerId: '42' }), job({ employerId: '42', area: 'Москва' }))).toBeNull()
+  })
+})
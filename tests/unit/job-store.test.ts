@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test'
+import { parseCoreJob } from '../../src/services/job-store.service'
+
+describe('Job Store', () => {
+  describe('parseCoreJob', () => {
+    it('should read search results in snake_case', () => {
+      const row = parseCoreJob({
+        id: '12345',
+        hh_vacancy_id: '12345',
+        title: 'Senior JavaScript Developer',
+        company: 'Tech Corp',
+        salary: '200000-300000 RUB',
+        area: 'Moscow',
+        url: 'https://hh.ru/vacancy/12345',
+        skills: ['javascript', 'React.js', 'node'],
+        has_test: true,
+        published_at: '2025-05-20T10:00:00+0300'
+      }, 'javascript')
+
+      expect(row).toMatchObject({
+        externalId: '12345',
+        hhVacancyId: '12345',
+        title: 'Senior JavaScript Developer',
+        company: 'Tech Corp',
+        skills: ['JavaScript', 'React', 'Node.js'],
+        salaryMin: 200000,
+        salaryMax: 300000,
+        salaryCurrency: 'RUB',
+        salaryPeriod: 'month',
+        hasTest: true,
+        publishedAt: new Date('2025-05-20T07:00:00Z'),
+        searchQuery: 'javascript',
+        source: 'hh.ru'
+      })
+    })
+
+    it('should read broadcasts and HH objects', () => {
+      const row = parseCoreJob({
+        id: 'core-1',
+        externalId: 'hh-777',
+        name: 'Go Developer',
+        employer: { id: '42', name: 'Globex' },
+        area: { id: '2', name: 'Санкт-Петербург' },
+        key_skills: [{ name: 'Golang' }, { name: 'PostgreSQL' }],
+        salary: { from: 3000, to: null, currency: 'USD', gross: false }
+      })
+
+      expect(row).toMatchObject({
+        externalId: 'hh-777',
+        title: 'Go Developer',
+        company: 'Globex',
+        employerId: '42',
+        area: 'Санкт-Петербург',
+        skills: ['Go', 'PostgreSQL'],
+        salary: 'от 3000 USD net',
+        salaryMin: 3000,
+        salaryMax: null,
+        salaryCurrency: 'USD',
+        salaryGross: false
+      })
+    })
+
+    it('should leave out what Core did not send so stored values are kept', () => {
+      const row = parseCoreJob({ id: '1', title: 'QA Engineer' })
+
+      expect(row).toMatchObject({ description: null, skills: null, salary: null, salaryMinBase: null, hasTest: false })
+    })
+
+    it('should skip jobs without an id or title', () => {
+      expect(parseCoreJob({ title: 'No id' })).toBeNull()
+      expect(parseCoreJob({ id: '1' })).toBeNull()
+      expect(parseCoreJob(null)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'bun:test'
+import { FakeLLMProvider, createLLMProvider } from '../../src/services/llm.provider'
+
+describe('LLM Provider', () => {
+  describe('FakeLLMProvider', () => {
+    it('should answer JSON prompts with the described shape', async () => {
+      const provider = new FakeLLMProvider()
+
+      const response = await provider.chat({
+        model: 'anthropic/claude-3.5-sonnet',
+        messages: [{
+          role: 'user',
+          content: 'Return JSON:\n{\n  "isValid": true/false,\n  "errors": ["critical issues"],\n  "qualityScore": 0-100\n}'
+        }]
+      })
+
+      expect(JSON.parse(response.content)).toEqual({
+        isValid: true,
+        errors: ['critical issues'],
+        qualityScore: 50
+      })
+      expect(response.model).toBe('anthropic/claude-3.5-sonnet')
+    })
+
+    it('should be deterministic for plain text prompts', async () => {
+      const provider = new FakeLLMProvider()
+      const request = {
+        model: 'any',
+        messages: [{ role: 'user' as const, content: 'Generate a cover letter' }],
+        title: 'Cover Letter'
+      }
+
+      const first = await provider.chat(request)
+      const second = await provider.chat(request)
+
+      expect(first.content).toBe(second.content)
+      expect(first.content).toContain('Cover Letter')
+    })
+
+    it('should prefer registered responses', async () => {
+      const provider = new FakeLLMProvider()
+        .respondTo('Extract technical requirements', '{"required":["TypeScript"]}')
+
+      const response = await provider.chat({
+        model: 'any',
+        messages: [{ role: 'user', content: 'Extract technical requirements from this job description.' }]
+      })
+
+      expect(response.content).toBe('{"required":["TypeScript"]}')
+    })
+
+    it('should stream the same content it returns', async () => {
+      const provider = new FakeLLMProvider()
+        .respondTo('stream me', 'a deterministic response that spans several chunks')
+      const deltas: string[] = []
+
+      const response = await provider.chatStream({
+        model: 'any',
+        messages: [{ role: 'user', content: 'stream me' }]
+      }, (delta) => deltas.push(delta))
+
+      expect(deltas.length).toBeGreaterThan(1)
+      expect(deltas.join('')).toBe(response.content)
+    })
+
+    it('should report token usage', async () => {
+      const provider = new FakeLLMProvider()
+
+      const response = await provider.chat({
+        model: 'any',
+        messages: [{ role: 'user', content: 'a'.repeat(400) }]
+      })
+
+      expect(response.usage?.promptTokens).toBe(100)
+      expect(response.usage?.totalTokens).toBe(
+        (response.usage?.promptTokens ?? 0) + (response.usage?.completionTokens ?? 0)
+      )
+    })
+  })
+
+  describe('createLLMProvider', () => {
+    it('should build the provider by name', () => {
+      expect(createLLMProvider('fake').name).toBe('fake')
+      expect(createLLMProvider('local').name).toBe('local')
+      expect(createLLMProvider('openrouter').name).toBe('openrouter')
+    })
+
+    it('should fall back to openrouter for unknown names', () => {
+      expect(createLLMProvider('unknown').name).toBe('openrouter')
+    })
+  })
+})
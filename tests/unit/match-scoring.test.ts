@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test'
+import { estimateCVYears, parseRequiredYears, scoreMatch } from '../../src/services/match-scoring.service'
+import type { ParsedCV } from '../../src/types'
+
+const now = new Date('2025-06-01T00:00:00Z')
+
+const cv: ParsedCV = {
+  title: 'Senior Frontend Developer',
+  summary: 'Frontend developer building trading dashboards.',
+  experience: 'Acme Fintech (2019 - present): React, GraphQL. Globex (2017-2020): jQuery, Docker',
+  skills: ['React.js', 'TypeScript', 'Postgres', 'Next.js', 'Jest']
+}
+
+describe('Match Scoring', () => {
+  describe('scoreMatch', () => {
+    it('should count differently named skills as matches', () => {
+      const match = scoreMatch(cv, { title: 'Frontend Developer', skills: ['React', 'PostgreSQL', 'TypeScript'] }, now)
+
+      expect(match.skills.score).toBe(100)
+      expect(match.skills.matches.map(m => m.kind)).toEqual(['alias', 'alias', 'exact'])
+      expect(match.skills.matches[1].matchedBy).toBe('Postgres')
+    })
+
+    it('should weigh required skills above preferred ones', () => {
+      const jobSkills = { required: ['Vue'], preferred: ['Jest'], tools: [], frameworks: [], categories: {} }
+      const missingRequired = scoreMatch(cv, { title: 'Frontend Developer', jobSkills }, now)
+      const swapped = scoreMatch(cv, { title: 'Frontend Developer', jobSkills: { ...jobSkills, required: ['Jest'], preferred: ['Vue'] } }, now)
+
+      // Vue is only related to React (half credit)
+      expect(missingRequired.skills.score).toBe(67)
+      expect(swapped.skills.score).toBe(83)
+      expect(missingRequired.skills.matches[0]).toMatchObject({ kind: 'related', matchedBy: 'React.js', credit: 0.5 })
+    })
+
+    it('should give partial credit for implied and mentioned skills', () => {
+      const match = scoreMatch(cv, { title: 'Developer', skills: ['JavaScript', 'GraphQL', 'Kafka'] }, now)
+
+      expect(match.skills.matches).toEqual([
+        { skill: 'JavaScript', importance: 'required', kind: 'implied', credit: 0.8, matchedBy: 'React.js' },
+        { skill: 'GraphQL', importance: 'required', kind: 'mentioned', credit: 0.7, matchedBy: 'graphql' },
+        { skill: 'Kafka', importance: 'required', kind: 'missing', credit: 0 }
+      ])
+      expect(match.reasons).toContain('Missing required Kafka')
+    })
+
+    it('should factor in seniority and explain a gap', () => {
+      const lead = scoreMatch(cv, { title: 'Lead Frontend Engineer', description: 'We need 10+ years of commercial experience.', skills: ['React'] }, now)
+
+      expect(lead.seniority).toEqual({ score: 70, jobLevel: 'lead', cvLevel: 'senior', requiredYears: 10, cvYears: 8 })
+      expect(lead.score).toBe(Math.round(100 * 0.8 + 70 * 0.2))
+      expect(lead.reasons).toContain('Job is lead level, CV reads as senior')
+    })
+
+    it('should score 0 when the job lists no skills', () => {
+      const match = scoreMatch(cv, { title: 'Senior Developer' }, now)
+
+      expect(match.score).toBe(0)
+      expect(match.skills.score).toBeNull()
+      expect(match.reasons).toContain('The job lists no skills to compare')
+    })
+  })
+
+  describe('experience', () => {
+    it('should parse required years in English and Russian', () => {
+      expect(parseRequiredYears('3+ years of experience with React')).toBe(3)
+      expect(parseRequiredYears('Требования: опыт работы от 3 лет')).toBe(3)
+      expect(parseRequiredYears('Не менее 2 лет коммерческого опыта')).toBe(2)
+      expect(parseRequiredYears('Компания работает более 15 лет')).toBeNull()
+    })
+
+    it('should not count overlapping jobs twice', () => {
+      expect(estimateCVYears({ experience: '2015-2018 Globex; 2017 – 2020 Initech; 2022 – н.в. Acme' }, now)).toBe(8)
+    })
+  })
+})
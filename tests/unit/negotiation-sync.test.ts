@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'bun:test'
+import { parseNegotiationStatus } from '../../src/services/negotiation-sync.worker'
+
+describe('Negotiation Sync', () => {
+  describe('parseNegotiationStatus', () => {
+    it('should read the HH state id', () => {
+      expect(parseNegotiationStatus({ id: '1', state: { id: 'invitation', name: 'Приглашение' } })).toBe('invitation')
+      expect(parseNegotiationStatus({ id: '1', state: { id: 'discard', name: 'Отказ' } })).toBe('discard')
+    })
+
+    it('should accept a plain state string', () => {
+      expect(parseNegotiationStatus({ state: 'invitation' })).toBe('invitation')
+    })
+
+    it('should unwrap a negotiation envelope', () => {
+      expect(parseNegotiationStatus({ negotiation: { state: { id: 'discard' } } })).toBe('discard')
+    })
+
+    it('should report opened responses as viewed', () => {
+      expect(parseNegotiationStatus({ state: { id: 'response' }, viewed_by_opponent: true })).toBe('viewed')
+      expect(parseNegotiationStatus({ state: { id: 'response' }, viewed_by_opponent: false })).toBe('response')
+    })
+
+    it('should return null without a state', () => {
+      expect(parseNegotiationStatus({})).toBeNull()
+      expect(parseNegotiationStatus(null)).toBeNull()
+      expect(parseNegotiationStatus({ state: { id: '' } })).toBeNull()
+    })
+  })
+})
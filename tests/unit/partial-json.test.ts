@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'bun:test'
+import { extractPartialStringFields } from '../../src/utils/partial-json'
+
+describe('Partial JSON', () => {
+  describe('extractPartialStringFields', () => {
+    it('should read completed string fields', () => {
+      const text = '{"title": "Senior Engineer", "summary": "Built things"}'
+
+      expect(extractPartialStringFields(text, ['title', 'summary'])).toEqual({
+        title: 'Senior Engineer',
+        summary: 'Built things'
+      })
+    })
+
+    it('should return the text received so far for an unterminated field', () => {
+      const text = '{"title": "Senior Engineer", "experience": "• Led migration of'
+
+      expect(extractPartialStringFields(text, ['title', 'experience'])).toEqual({
+        title: 'Senior Engineer',
+        experience: '• Led migration of'
+      })
+    })
+
+    it('should omit fields that have not started yet', () => {
+      const result = extractPartialStringFields('{"firstName": "Ivan", "summ', ['summary'])
+
+      expect(result).toEqual({})
+    })
+
+    it('should decode escapes and drop an incomplete trailing escape', () => {
+      expect(extractPartialStringFields('{"summary": "line one\\nline \\"two\\', ['summary'])).toEqual({
+        summary: 'line one\nline "two'
+      })
+
+      expect(extractPartialStringFields('{"summary": "caf\\u00', ['summary'])).toEqual({
+        summary: 'caf'
+      })
+    })
+
+    it('should keep escaped backslashes', () => {
+      expect(extractPartialStringFields('{"summary": "C:\\\\', ['summary'])).toEqual({
+        summary: 'C:\\'
+      })
+    })
+  })
+})
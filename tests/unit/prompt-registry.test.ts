@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  PromptRegistry,
+  assignVersion,
+  parsePromptTemplate,
+  promptRegistry
+} from '../../src/services/prompt-registry.service'
+import { AIService } from '../../src/services/ai.service'
+import { FakeLLMProvider } from '../../src/services/llm.provider'
+
+const template = (version: string, weight: number, body = 'Skills of {{jobDescription}}') =>
+  parsePromptTemplate(`---
+template: job_skills
+version: ${version}
+weight: ${weight}
+variables: jobDescription
+---
+${body}
+`)
+
+describe('Prompt Registry', () => {
+  describe('parsePromptTemplate', () => {
+    it('should read metadata and body', () => {
+      const parsed = parsePromptTemplate(`---
+template: cv_parsing
+version: v2
+weight: 30
+variables: cvText
+system: You parse CVs.
+---
+Parse:
+{{ cvText }}
+`)
+
+      expect(parsed).toEqual({
+        template: 'cv_parsing',
+        version: 'v2',
+        weight: 30,
+        variables: ['cvText'],
+        system: 'You parse CVs.',
+        body: 'Parse:\n{{ cvText }}'
+      })
+    })
+
+    it('should reject placeholders that are not declared', () => {
+      expect(() => template('v1', 100, '{{jobDescription}} at {{company}}')).toThrow('undeclared: company')
+    })
+
+    it('should reject declared variables that are not used', () => {
+      expect(() => template('v1', 100, 'No placeholders')).toThrow('unused: jobDescription')
+    })
+
+    it('should reject files without frontmatter', () => {
+      expect(() => parsePromptTemplate('Just a prompt')).toThrow('missing frontmatter')
+    })
+  })
+
+  describe('assignVersion', () => {
+    const versions = [template('v1', 50), template('v2', 50), template('v3', 0)]
+
+    it('should always give a user the same version', () => {
+      const first = assignVersion(versions, 'user-1')
+      for (let i = 0; i < 5; i++) {
+        expect(assignVersion(versions, 'user-1')).toBe(first!)
+      }
+    })
+
+    it('should split users by weight and skip retired versions', () => {
+      const counts: Record<string, number> = {}
+      for (let i = 0; i < 1000; i++) {
+        const version = assignVersion(versions, `user-${i}`)!.version
+        counts[version] = (counts[version] ?? 0) + 1
+      }
+
+      expect(counts.v3).toBeUndefined()
+      expect(counts.v1).toBeGreaterThan(400)
+      expect(counts.v2).toBeGreaterThan(400)
+    })
+
+    it('should use the heaviest version without a user', () => {
+      expect(assignVersion([template('v1', 20), template('v2', 80)], null)?.version).toBe('v2')
+    })
+  })
+
+  describe('PromptRegistry', () => {
+    it('should render variables into the assigned version', () => {
+      const registry = new PromptRegistry([template('v1', 0), template('v2', 100)])
+
+      expect(registry.render('job_skills', { jobDescription: 'a Go developer' }, 'user-1')).toEqual({
+        template: 'job_skills',
+        version: 'v2',
+        system: undefined,
+        text: 'Skills of a Go developer'
+      })
+      expect(registry.render('job_skills', { jobDescription: 'x' }, 'user-1', 'v1').version).toBe('v1')
+    })
+
+    it('should refuse duplicate versions', () => {
+      expect(() => new PromptRegistry([template('v1', 100), template('v1', 50)])).toThrow('duplicate version')
+    })
+
+    it('should load every shipped template', () => {
+      expect(promptRegistry.list().map(t => t.template).sort()).toEqual([
+        'cover_letter',
+        'cover_letter_variation',
+        'culture_analysis',
+        'cv_analysis',
+        'cv_customization',
+        'cv_optimization',
+        'cv_parsing',
+        'cv_validation',
+        'interview_preparation',
+        'job_skills',
+        'job_skills_consensus',
+        'realtime_suggestions'
+      ])
+    })
+  })
+
+  describe('AIService', () => {
+    it('should record the template version of each call', async () => {
+      const entries: { prompt?: { template: string; version: string } }[] = []
+      const registry = new PromptRegistry([template('v7', 100)])
+      const provider = new FakeLLMProvider().use(() => '{"required": ["Rust"]}')
+      const ai = new AIService(provider, { record: async (entry) => { entries.push(entry) } }, undefined, registry)
+        .withUsage({ userId: 'user-1', feature: 'skills_consensus' })
+
+      await ai.extractJobSkills('We are hiring a Rust developer for our infrastructure team. '.repeat(4))
+
+      expect(entries.map(e => e.prompt)).toEqual([{ template: 'job_skills', version: 'v7' }])
+      expect(ai.promptVersions).toEqual({ job_skills: 'v7' })
+    })
+  })
+})
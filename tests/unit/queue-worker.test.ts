@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test'
+import { computeBackoff, leasedStatus } from '../../src/services/queue.worker'
+
+describe('Queue Worker', () => {
+  describe('computeBackoff', () => {
+    it('should double the delay on every attempt', () => {
+      expect(computeBackoff(1, 30000)).toBe(30000)
+      expect(computeBackoff(2, 30000)).toBe(60000)
+      expect(computeBackoff(3, 30000)).toBe(120000)
+    })
+
+    it('should cap the delay at one hour', () => {
+      expect(computeBackoff(20, 30000)).toBe(60 * 60 * 1000)
+    })
+
+    it('should treat attempt 0 like the first attempt', () => {
+      expect(computeBackoff(0, 1000)).toBe(1000)
+    })
+  })
+
+  describe('leasedStatus', () => {
+    it('should customize items that have not been customized', () => {
+      expect(leasedStatus('pending')).toBe('customizing')
+      expect(leasedStatus(null)).toBe('customizing')
+    })
+
+    it('should resume customization after an expired lease', () => {
+      expect(leasedStatus('customizing')).toBe('customizing')
+    })
+
+    it('should submit ready and rate limited items', () => {
+      expect(leasedStatus('ready')).toBe('submitting')
+      expect(leasedStatus('rate_limited')).toBe('submitting')
+      expect(leasedStatus('submitting')).toBe('submitting')
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'bun:test'
+import { Elysia } from 'elysia'
+import { rateLimit, matchRules, clientKey } from '../../src/middleware/rate-limit'
+import {
+  MemoryRateLimitStore,
+  RateLimiter,
+  retryAfterSeconds,
+  slidingWindowCount
+} from '../../src/services/rate-limiter.service'
+
+describe('Rate Limiting', () => {
+  describe('slidingWindowCount', () => {
+    it('should weight the previous window by its remaining overlap', () => {
+      expect(slidingWindowCount({ current: 2, previous: 10 }, 0, 60000)).toBe(12)
+      expect(slidingWindowCount({ current: 2, previous: 10 }, 30000, 60000)).toBe(7)
+      expect(slidingWindowCount({ current: 2, previous: 10 }, 60000, 60000)).toBe(2)
+    })
+  })
+
+  describe('retryAfterSeconds', () => {
+    it('should wait for the window end when the current window is full', () => {
+      expect(retryAfterSeconds({ current: 5, previous: 0 }, 20000, 60000, 5)).toBe(40)
+    })
+
+    it('should wait only until enough of the previous window slid out', () => {
+      // 10 * (1 - t / 60s) + 2 < 10 once t > 12s, i.e. just over 2s after 10s elapsed
+      expect(retryAfterSeconds({ current: 2, previous: 10 }, 10000, 60000, 10)).toBe(3)
+    })
+  })
+
+  describe('RateLimiter', () => {
+    it('should allow requests up to the limit and refuse the next', async () => {
+      const limiter = new RateLimiter(new MemoryRateLimitStore())
+      const now = 1_000_000_020_000
+
+      const results = []
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.hit('client', 3, 60000, now))
+      }
+
+      expect(results.map(r => r.allowed)).toEqual([true, true, true, false])
+      expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0])
+      expect(results[3].retryAfterSeconds).toBeGreaterThan(0)
+      limiter.destroy()
+    })
+
+    it('should not count refused requests', async () => {
+      const limiter = new RateLimiter(new MemoryRateLimitStore())
+      const windowStart = 1_000_000_020_000
+
+      for (let i = 0; i < 10; i++) {
+        await limiter.hit('client', 2, 60000, windowStart)
+      }
+
+      // Half of the previous window (2 requests) still counts: one slot is free
+      const next = await limiter.hit('client', 2, 60000, windowStart + 90000)
+      expect(next.allowed).toBe(true)
+      limiter.destroy()
+    })
+
+    it('should keep clients apart', async () => {
+      const limiter = new RateLimiter(new MemoryRateLimitStore())
+
+      await limiter.hit('a', 1, 60000)
+      expect((await limiter.hit('a', 1, 60000)).allowed).toBe(false)
+      expect((await limiter.hit('b', 1, 60000)).allowed).toBe(true)
+      limiter.destroy()
+    })
+  })
+
+  describe('matchRules', () => {
+    const rules = [
+      { name: 'api', path: '/api/*', limit: 100, windowMs: 60000 },
+      { name: 'upload', method: 'POST', path: '/api/cv/upload', limit: 5, windowMs: 60000 }
+    ]
+
+    it('should match prefixes, exact paths and methods', () => {
+      expect(matchRules(rules, 'POST', '/api/cv/upload').map(r => r.name)).toEqual(['api', 'upload'])
+      expect(matchRules(rules, 'GET', '/api/cv/upload').map(r => r.name)).toEqual(['api'])
+      expect(matchRules(rules, 'GET', '/ws')).toEqual([])
+    })
+  })
+
+  describe('rateLimit plugin', () => {
+    const createApp = () => new Elysia()
+      .use(rateLimit({
+        enabled: true,
+        limiter: new RateLimiter(new MemoryRateLimitStore()),
+        trustProxy: true,
+        skip: ['/api/health'],
+        rules: [
+          { name: 'api', path: '/api/*', limit: 10, windowMs: 60000 },
+          { name: 'upload', method: 'POST', path: '/api/cv/upload', limit: 2, windowMs: 60000 }
+        ]
+      }))
+      .post('/api/cv/upload', () => ({ success: true }))
+      .get('/api/health', () => ({ status: 'ok' }))
+
+    const upload = (app: ReturnType<typeof createApp>, ip: string) => app.handle(new Request('http://localhost/api/cv/upload', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': ip }
+    }))
+
+    it('should send RateLimit headers of the tightest rule', async () => {
+      const app = createApp()
+      const response = await upload(app, '10.0.0.1')
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('RateLimit-Limit')).toBe('2')
+      expect(response.headers.get('RateLimit-Remaining')).toBe('1')
+      expect(response.headers.get('RateLimit-Policy')).toBe('2;w=60')
+      expect(Number(response.headers.get('RateLimit-Reset'))).toBeGreaterThan(0)
+    })
+
+    it('should refuse with 429 and Retry-After over the limit', async () => {
+      const app = createApp()
+      await upload(app, '10.0.0.2')
+      await upload(app, '10.0.0.2')
+      const response = await upload(app, '10.0.0.2')
+
+      expect(response.status).toBe(429)
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(await response.json()).toMatchObject({ success: false, code: 'RATE_LIMITED' })
+
+      expect((await upload(app, '10.0.0.3')).status).toBe(200)
+    })
+
+    it('should not limit clients whose IP is unknown', async () => {
+      const app = createApp()
+      const anonymous = () => app.handle(new Request('http://localhost/api/cv/upload', { method: 'POST' }))
+      await anonymous()
+      await anonymous()
+      const response = await anonymous()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('RateLimit-Limit')).toBeNull()
+    })
+
+    it('should ignore X-Forwarded-For without a trusted proxy', async () => {
+      expect(await clientKey(new Request('http://localhost/', { headers: { 'x-forwarded-for': '10.0.0.4' } }), null, false)).toBeNull()
+      expect(await clientKey(new Request('http://localhost/', { headers: { 'x-forwarded-for': '10.0.0.4, 10.0.0.5' } }), null, true)).toBe('ip:10.0.0.4')
+    })
+
+    it('should not limit skipped paths', async () => {
+      const app = createApp()
+      const response = await app.handle(new Request('http://localhost/api/health'))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('RateLimit-Limit')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test'
+import { loadRates, parseSalary, parseSalaryObject } from '../../src/services/salary.service'
+
+const rates = { RUB: 1, USD: 90, EUR: 100 }
+
+describe('Salary', () => {
+  describe('parseSalary', () => {
+    it('should read Russian ranges', () => {
+      expect(parseSalary('от 200 000 до 300 000 руб.', rates)).toEqual({
+        min: 200000,
+        max: 300000,
+        currency: 'RUB',
+        gross: null,
+        period: 'month',
+        minBase: 200000,
+        maxBase: 300000
+      })
+      expect(parseSalary('150–200 тыс. ₽ до вычета НДФЛ', rates)).toMatchObject({ min: 150000, max: 200000, gross: true })
+    })
+
+    it('should read open-ended salaries', () => {
+      expect(parseSalary('до 150 000 ₽ на руки', rates)).toMatchObject({ min: null, max: 150000, gross: false, maxBase: 150000 })
+      expect(parseSalary('от 3 500 $', rates)).toMatchObject({ min: 3500, max: null, currency: 'USD', minBase: 315000 })
+      expect(parseSalary('5000+ USD', rates)).toMatchObject({ min: 5000, max: null })
+    })
+
+    it('should read English salaries with k suffixes', () => {
+      expect(parseSalary('$4k–6k gross', rates)).toMatchObject({
+        min: 4000,
+        max: 6000,
+        currency: 'USD',
+        gross: true,
+        minBase: 360000,
+        maxBase: 540000
+      })
+      expect(parseSalary('4-6k EUR', rates)).toMatchObject({ min: 4000, max: 6000, currency: 'EUR' })
+    })
+
+    it('should convert other periods to a month', () => {
+      expect(parseSalary('1 500 ₽/час', rates)).toMatchObject({ min: 1500, max: 1500, period: 'hour', minBase: 252000 })
+      expect(parseSalary('€60,000 per year', rates)).toMatchObject({ min: 60000, period: 'year', minBase: 500000 })
+      expect(parseSalary('3000 рублей за смену', rates)).toMatchObject({ period: 'day', minBase: 63000 })
+    })
+
+    it('should return null without an amount', () => {
+      expect(parseSalary('по договорённости', rates)).toBeNull()
+      expect(parseSalary('Не указана', rates)).toBeNull()
+      expect(parseSalary('', rates)).toBeNull()
+      expect(parseSalary(null, rates)).toBeNull()
+    })
+
+    it('should leave base amounts empty for currencies without a rate', () => {
+      expect(parseSalary('200 000 тенге', rates)).toMatchObject({ min: 200000, currency: 'KZT', minBase: null })
+    })
+  })
+
+  describe('parseSalaryObject', () => {
+    it('should read HH salary objects', () => {
+      expect(parseSalaryObject({ from: 100000, to: 150000, currency: 'RUR', gross: true }, rates)).toEqual({
+        text: '100000-150000 RUB gross',
+        parsed: { min: 100000, max: 150000, currency: 'RUB', gross: true, period: 'month', minBase: 100000, maxBase: 150000 }
+      })
+      expect(parseSalaryObject({ from: null, to: null, currency: 'RUR' }, rates)).toBeNull()
+    })
+  })
+
+  describe('loadRates', () => {
+    it('should rebase the built-in rates and apply overrides', () => {
+      const usd = loadRates('USD', '{"RUB": 0.01, "xyz": 2, "EUR": -1}')
+
+      expect(usd.USD).toBe(1)
+      expect(usd.RUB).toBe(0.01)
+      expect(usd.XYZ).toBe(2)
+      expect(usd.EUR).toBeCloseTo(98 / 90)
+    })
+
+    it('should ignore invalid overrides', () => {
+      expect(loadRates('RUB', 'not json').USD).toBe(90)
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test'
+import { toSearchRequest, type SavedSearch } from '../../src/services/saved-search.service'
+import { hasCoreOnlyFilters } from '../../src/services/job-store.service'
+
+const saved: SavedSearch = {
+  id: '7d3c2f9e-0b8a-4c1e-9f5d-2a6b8c4e1d3f',
+  userId: '1f0e4c2a-6b9d-4e8f-a3c5-7d1b9e2f4a6c',
+  name: 'Go',
+  text: 'Go developer',
+  area: 'Москва',
+  experience: null,
+  employment: null,
+  schedule: null,
+  salaryFrom: 250000,
+  salaryTo: null,
+  skills: [],
+  alertsEnabled: true,
+  lastRunAt: null,
+  lastMatchedAt: null,
+  createdAt: new Date('2025-06-01T00:00:00Z'),
+  updatedAt: null
+}
+
+describe('Saved Searches', () => {
+  it('should turn a saved search into a job search', () => {
+    expect(toSearchRequest(saved)).toEqual({
+      text: 'Go developer',
+      area: 'Москва',
+      experience: undefined,
+      employment: undefined,
+      schedule: undefined,
+      salaryFrom: 250000,
+      salaryTo: undefined,
+      skills: undefined
+    })
+  })
+
+  it('should tell which searches only Core can match', () => {
+    expect(hasCoreOnlyFilters(toSearchRequest(saved))).toBe(false)
+    expect(hasCoreOnlyFilters(toSearchRequest({ ...saved, area: '1' }))).toBe(true)
+    expect(hasCoreOnlyFilters(toSearchRequest({ ...saved, schedule: 'remote' }))).toBe(true)
+  })
+})
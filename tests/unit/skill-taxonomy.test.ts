@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  SKILL_FAMILIES,
+  SKILL_TAXONOMY,
+  ancestorSkills,
+  autocompleteSkills,
+  detectSkills,
+  lookupSkill,
+  normalizeJobSkills,
+  normalizeSkills,
+  skillId
+} from '../../src/services/skill-taxonomy.service'
+
+describe('Skill Taxonomy', () => {
+  it('should only reference skills it defines', () => {
+    const ids = new Set(SKILL_TAXONOMY.map(skill => skillId(skill.name)))
+    const aliases = SKILL_TAXONOMY.flatMap(skill => skill.aliases ?? [])
+
+    expect(ids.size).toBe(SKILL_TAXONOMY.length)
+    expect(new Set(aliases.map(alias => alias.toLowerCase())).size).toBe(aliases.length)
+    for (const name of [...SKILL_TAXONOMY.flatMap(skill => skill.parents ?? []), ...SKILL_FAMILIES.flat()]) {
+      expect(lookupSkill(name)?.name).toBe(name)
+    }
+  })
+
+  describe('skillId', () => {
+    it('should resolve aliases, versions and .js suffixes', () => {
+      expect(skillId('ReactJS')).toBe('react')
+      expect(skillId('React.js')).toBe('react')
+      expect(skillId(' PostgreSQL ')).toBe('postgresql')
+      expect(skillId('Postgres')).toBe('postgresql')
+      expect(skillId('Python 3')).toBe('python')
+      expect(skillId('ES6')).toBe('javascript')
+      expect(skillId('Golang')).toBe('go')
+      expect(skillId('Английский язык')).toBe('english')
+    })
+
+    it('should keep unknown skills as lowercase names', () => {
+      expect(skillId('Three.js')).toBe('three.js')
+      expect(skillId('Photoshop')).toBe('photoshop')
+    })
+  })
+
+  describe('normalizeSkills', () => {
+    it('should use canonical names and drop duplicates', () => {
+      expect(normalizeSkills(['reactjs', 'React 18', 'postgres', '  Three.js ', 'Vue 3', 'vue.js', 'Английский'])).toEqual(
+        ['React', 'PostgreSQL', 'Three.js', 'Vue', 'English']
+      )
+    })
+
+    it('should file known job skills under their taxonomy category', () => {
+      const normalized = normalizeJobSkills({
+        required: ['node', 'Postgres'],
+        preferred: ['k8s', 'Storybook'],
+        tools: [],
+        frameworks: ['nestjs'],
+        categories: { backend: ['Node', 'Docker'], frontend: ['Storybook'] }
+      })
+
+      expect(normalized.required).toEqual(['Node.js', 'PostgreSQL'])
+      expect(normalized.preferred).toEqual(['Kubernetes', 'Storybook'])
+      expect(normalized.categories).toEqual({
+        backend: ['Node.js', 'NestJS'],
+        devops: ['Docker', 'Kubernetes'],
+        frontend: ['Storybook'],
+        databases: ['PostgreSQL']
+      })
+    })
+  })
+
+  describe('relationships', () => {
+    it('should list parents and children', () => {
+      expect(lookupSkill('nextjs')).toMatchObject({ name: 'Next.js', category: 'frontend', parents: ['React'] })
+      expect(lookupSkill('React')?.children).toEqual(['Redux', 'Next.js', 'React Native'])
+      expect(lookupSkill('Photoshop')).toBeNull()
+    })
+
+    it('should include all ancestors, nearest first', () => {
+      expect(ancestorSkills('nestjs')).toEqual(['node.js', 'typescript', 'javascript'])
+      expect(ancestorSkills('javascript')).toEqual([])
+    })
+  })
+
+  describe('detectSkills', () => {
+    it('should find skills named in free text', () => {
+      const text = 'Разработчик на React.js и TypeScript, бэкенд на Node, БД постгрес. Git, Docker, CI/CD. JavaScript ES6.'
+
+      expect(detectSkills(text)).toEqual(['JavaScript', 'TypeScript', 'React', 'PostgreSQL', 'Docker', 'CI/CD', 'Git'])
+    })
+
+    it('should not mistake parts of words for skills', () => {
+      expect(detectSkills('JavaScript developer, restful services')).toEqual(['JavaScript', 'REST API'])
+    })
+  })
+
+  describe('autocompleteSkills', () => {
+    it('should rank exact and prefix matches first', () => {
+      expect(autocompleteSkills('react').map(s => s.name)).toEqual(['React', 'React Native'])
+      expect(autocompleteSkills('post')[0]).toEqual({ name: 'PostgreSQL', category: 'databases', matched: 'PostgreSQL' })
+      expect(autocompleteSkills('k8s')[0]).toMatchObject({ name: 'Kubernetes', matched: 'k8s' })
+      expect(autocompleteSkills('css').map(s => s.name)).toEqual(['CSS', 'Tailwind CSS'])
+    })
+
+    it('should find Russian names and respect the limit', () => {
+      expect(autocompleteSkills('англ')[0]).toMatchObject({ name: 'English', matched: 'английский' })
+      expect(autocompleteSkills('j', 3)).toHaveLength(3)
+      expect(autocompleteSkills('  ')).toEqual([])
+    })
+  })
+})
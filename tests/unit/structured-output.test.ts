@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'bun:test'
+import { parseStructuredOutput, extractJSONObject } from '../../src/utils/structured-output'
+import { cultureAnalysisSchema, customizedCVSchema, jobSkillsSchema } from '../../src/services/ai.schemas'
+import { AIService } from '../../src/services/ai.service'
+import { FakeLLMProvider } from '../../src/services/llm.provider'
+import type { AIUsageEntry } from '../../src/services/ai-usage.service'
+
+const jobDescription = 'We are looking for a Senior TypeScript developer to build our hiring platform. '.repeat(4)
+
+describe('Structured Output', () => {
+  describe('extractJSONObject', () => {
+    it('should ignore code fences and surrounding prose', () => {
+      const content = 'Here you go:\n```json\n{"required": ["React"]}\n```\nGood luck!'
+      expect(extractJSONObject(content)).toBe('{"required": ["React"]}')
+    })
+
+    it('should return null without an object', () => {
+      expect(extractJSONObject('I cannot help with that')).toBeNull()
+    })
+  })
+
+  describe('parseStructuredOutput', () => {
+    it('should normalize nulls and comma-separated lists', () => {
+      const result = parseStructuredOutput(
+        '{"title": "Engineer", "email": null, "skills": "React, TypeScript", "matchedSkills": ["React"]}',
+        customizedCVSchema
+      )
+
+      expect(result).toEqual({
+        success: true,
+        data: expect.objectContaining({
+          title: 'Engineer',
+          email: undefined,
+          skills: ['React', 'TypeScript'],
+          matchedSkills: ['React'],
+          addedKeywords: []
+        })
+      })
+    })
+
+    it('should default missing skill lists', () => {
+      const result = parseStructuredOutput('{"required": ["TypeScript"]}', jobSkillsSchema)
+      expect(result).toEqual({
+        success: true,
+        data: { required: ['TypeScript'], preferred: [], tools: [], frameworks: [], categories: {} }
+      })
+    })
+
+    it('should report issues with their paths', () => {
+      const result = parseStructuredOutput(
+        '{"overallScore": 70, "redFlags": [{"category": "salary", "severity": "high"}]}',
+        cultureAnalysisSchema
+      )
+
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.issues.some(issue => issue.startsWith('redFlags.0.category'))).toBe(true)
+      expect(result.issues.some(issue => issue.startsWith('recommendation'))).toBe(true)
+    })
+
+    it('should report malformed JSON', () => {
+      const result = parseStructuredOutput('{"required": ["React",]}', jobSkillsSchema)
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.issues[0]).toStartWith('Invalid JSON')
+    })
+  })
+
+  describe('AIService validation', () => {
+    const recorder = () => {
+      const entries: AIUsageEntry[] = []
+      return { entries, record: async (entry: AIUsageEntry) => { entries.push(entry) } }
+    }
+
+    it('should repair an invalid answer with a follow-up prompt', async () => {
+      const usage = recorder()
+      const provider = new FakeLLMProvider().use(request =>
+        request.messages.length === 1
+          ? '{"required": "TypeScript", "tools": {"docker": true}}'
+          : '{"required": ["TypeScript"], "tools": ["Docker"]}'
+      )
+      const ai = new AIService(provider, usage).withUsage({ userId: null, feature: 'skills_consensus' })
+
+      const skills = await ai.extractJobSkills(`${jobDescription} repair`)
+
+      expect(skills.required).toEqual(['TypeScript'])
+      expect(skills.tools).toEqual(['Docker'])
+      expect(usage.entries.map(e => e.output)).toEqual([
+        { schema: 'job_skills', valid: false },
+        { schema: 'job_skills', valid: true }
+      ])
+    })
+
+    it('should fall back when the repair fails too', async () => {
+      const usage = recorder()
+      const provider = new FakeLLMProvider().use(() => '{"overallScore": "great"}')
+      const ai = new AIService(provider, usage)
+
+      const analysis = await ai.analyzeCompanyCulture(jobDescription, 'Acme')
+
+      expect(analysis.reasoning).toBeDefined()
+      expect(usage.entries).toHaveLength(2)
+      expect(usage.entries.every(e => e.output?.valid === false)).toBe(true)
+    })
+
+    it('should accept the offline provider answers', async () => {
+      const ai = new AIService(new FakeLLMProvider())
+
+      const analysis = await ai.analyzeCompanyCulture(jobDescription, 'Acme')
+      expect(analysis.redFlags[0]?.category).toBe('work-life-balance')
+    })
+  })
+})
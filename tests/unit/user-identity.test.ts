@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'bun:test'
+import { getTokenSubject } from '../../src/services/user.service'
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`
+}
+
+describe('User identity', () => {
+  describe('getTokenSubject', () => {
+    it('should read the sub claim', () => {
+      expect(getTokenSubject(makeJwt({ sub: 'hh-12345', exp: 1 }))).toBe('hh-12345')
+    })
+
+    it('should fall back to user_id and stringify numeric ids', () => {
+      expect(getTokenSubject(makeJwt({ user_id: 42 }))).toBe('42')
+    })
+
+    it('should return null for tokens without an identity', () => {
+      expect(getTokenSubject(makeJwt({ exp: 1 }))).toBeNull()
+    })
+
+    it('should return null for malformed tokens', () => {
+      expect(getTokenSubject('not-a-jwt')).toBeNull()
+      expect(getTokenSubject('a.%%%.c')).toBeNull()
+    })
+  })
+})
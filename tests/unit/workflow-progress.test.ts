@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'bun:test'
+import { summarizeWorkflow } from '../../src/services/queue.service'
+
+const item = (status: string, nextRunAt: Date | null = null, jobTitle?: string) => ({
+  status,
+  nextRunAt,
+  payload: jobTitle ? { jobTitle } : {}
+})
+
+describe('Workflow Progress', () => {
+  it('should count terminal items as completed', () => {
+    const progress = summarizeWorkflow('wf-1', [
+      item('submitted'),
+      item('failed'),
+      item('cancelled'),
+      item('ready')
+    ])
+
+    expect(progress.completed).toBe(3)
+    expect(progress.total).toBe(4)
+    expect(progress.counts).toEqual({ submitted: 1, failed: 1, cancelled: 1, ready: 1 })
+  })
+
+  it('should report the job being processed', () => {
+    const progress = summarizeWorkflow('wf-1', [
+      item('submitting', new Date(), 'Backend Engineer'),
+      item('pending', new Date())
+    ])
+
+    expect(progress.state).toBe('running')
+    expect(progress.currentJob).toBe('Backend Engineer')
+  })
+
+  it('should be idle while items are parked', () => {
+    expect(summarizeWorkflow('wf-1', [item('pending')]).state).toBe('idle')
+  })
+
+  it('should be running while items are scheduled', () => {
+    expect(summarizeWorkflow('wf-1', [item('rate_limited', new Date())]).state).toBe('running')
+  })
+
+  it('should be paused when nothing is in progress', () => {
+    expect(summarizeWorkflow('wf-1', [item('paused'), item('submitted')]).state).toBe('paused')
+  })
+
+  it('should be completed when every item is terminal', () => {
+    expect(summarizeWorkflow('wf-1', [item('submitted'), item('cancelled')]).state).toBe('completed')
+  })
+})